@@ -5,6 +5,12 @@ import { getDatabaseConfig } from './config/database.config';
 import { SpaceshipModule } from '@/modules/spaceship/spaceship.module';
 import { TripModule } from '@/modules/trip/trip.module';
 import { LocationModule } from '@/modules/location/location.module';
+import { ItineraryModule } from '@/modules/itinerary/itinerary.module';
+import { UserModule } from '@/modules/user/user.module';
+import { AuthModule } from '@/modules/auth/auth.module';
+import { WebhookModule } from '@/modules/webhook/webhook.module';
+import { CancellationPolicyModule } from '@/modules/cancellation-policy/cancellation-policy.module';
+import { WaitlistModule } from '@/modules/waitlist/waitlist.module';
 import { ScheduleModule } from '@nestjs/schedule';
 
 @Module({
@@ -21,6 +27,12 @@ import { ScheduleModule } from '@nestjs/schedule';
     TripModule,
     SpaceshipModule,
     LocationModule,
+    ItineraryModule,
+    UserModule,
+    AuthModule,
+    WebhookModule,
+    CancellationPolicyModule,
+    WaitlistModule,
     ScheduleModule.forRoot(),
   ],
 })
@@ -1,7 +1,9 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
+import { QueryFailedFilter } from './modules/common/filters/query-failed.filter';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -19,6 +21,12 @@ async function bootstrap() {
     }),
   );
 
+  // Map booking conflicts detected by the database to 409 responses
+  app.useGlobalFilters(new QueryFailedFilter());
+
+  // Plain WebSockets for live tracking, served on the HTTP port
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   // CORS
   app.enableCors({
     origin: '*', // Configure appropriately for production
@@ -32,6 +40,15 @@ async function bootstrap() {
     .setDescription('High-speed spaceship booking system API')
     .setVersion('1.0')
     .addTag('trips', 'Trip management endpoints')
+    .addTag('spaceships', 'Fleet management endpoints')
+    .addTag('locations', 'Spaceport and distance endpoints')
+    .addTag('itineraries', 'Multi-leg itinerary endpoints')
+    .addTag('auth', 'Customer accounts and access tokens')
+    .addTag('users', 'User and role management endpoints')
+    .addTag('webhooks', 'Partner event subscriptions')
+    .addTag('cancellation-policies', 'Versioned cancellation fees')
+    .addTag('waitlist', 'Waiting for capacity on fully booked routes')
+    .addBearerAuth()
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
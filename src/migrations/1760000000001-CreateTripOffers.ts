@@ -0,0 +1,113 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateTripOffers1760000000001 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'trip_offers',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique offer identifier',
+          },
+          {
+            name: 'spaceship_id',
+            type: 'varchar',
+            isNullable: false,
+            comment: 'Spaceship held for this offer',
+          },
+          {
+            name: 'departure_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Departure airport IATA code',
+          },
+          {
+            name: 'destination_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Destination airport IATA code',
+          },
+          {
+            name: 'departure_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Offered departure time',
+          },
+          {
+            name: 'arrival_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Offered arrival time',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'PENDING'",
+            comment: 'Current status of the offer',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Time after which the hold is released',
+          },
+          {
+            name: 'trip_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Trip created when the offer was accepted',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKeys('trip_offers', [
+      new TableForeignKey({
+        columnNames: ['spaceship_id'],
+        referencedTableName: 'spaceships',
+        referencedColumnNames: ['id'],
+        onDelete: 'RESTRICT',
+        onUpdate: 'CASCADE',
+      }),
+      new TableForeignKey({
+        columnNames: ['trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    ]);
+
+    await queryRunner.createIndices('trip_offers', [
+      new TableIndex({ columnNames: ['spaceship_id', 'departure_at'] }),
+      new TableIndex({ columnNames: ['status', 'expires_at'] }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TABLE "trip_offers" ADD CONSTRAINT "CHK_trip_offers_status" CHECK (status IN ('PENDING', 'ACCEPTED', 'EXPIRED'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('trip_offers', true, true, true);
+  }
+}
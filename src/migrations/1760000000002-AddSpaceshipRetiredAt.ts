@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSpaceshipRetiredAt1760000000002 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'spaceships',
+      new TableColumn({
+        name: 'retired_at',
+        type: 'timestamptz',
+        isNullable: true,
+        comment: 'Time the spaceship was retired from service',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('spaceships', 'retired_at');
+  }
+}
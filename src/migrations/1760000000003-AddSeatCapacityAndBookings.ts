@@ -0,0 +1,119 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class AddSeatCapacityAndBookings1760000000003 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'spaceships',
+      new TableColumn({
+        name: 'seat_capacity',
+        type: 'int',
+        default: 10,
+        isNullable: false,
+        comment: 'Number of passenger seats',
+      }),
+    );
+
+    await queryRunner.addColumns('trip_offers', [
+      new TableColumn({
+        name: 'seats',
+        type: 'int',
+        default: 1,
+        isNullable: false,
+        comment: 'Number of seats the offer reserves',
+      }),
+      new TableColumn({
+        name: 'passenger_name',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+        comment: 'Name of the lead passenger',
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'bookings',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique booking identifier',
+          },
+          {
+            name: 'trip_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Trip the passenger is booked on',
+          },
+          {
+            name: 'passenger_name',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+            comment: 'Name of the lead passenger',
+          },
+          {
+            name: 'seats',
+            type: 'int',
+            default: 1,
+            isNullable: false,
+            comment: 'Number of seats reserved by this booking',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'CONFIRMED'",
+            comment: 'Current status of the booking',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'bookings',
+      new TableForeignKey({
+        columnNames: ['trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex('bookings', new TableIndex({ columnNames: ['trip_id', 'status'] }));
+
+    await queryRunner.query(
+      `ALTER TABLE "bookings" ADD CONSTRAINT "CHK_bookings_status" CHECK (status IN ('CONFIRMED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "bookings" ADD CONSTRAINT "CHK_bookings_seats" CHECK (seats > 0)`);
+
+    // Existing trips were whole-ship charters: give each one a single-seat booking so it keeps its ship
+    await queryRunner.query(
+      `INSERT INTO "bookings" ("trip_id", "seats", "status")
+       SELECT "id", 1, CASE WHEN "status" = 'CANCELLED' THEN 'CANCELLED' ELSE 'CONFIRMED' END FROM "trips"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('bookings', true, true, true);
+    await queryRunner.dropColumn('trip_offers', 'passenger_name');
+    await queryRunner.dropColumn('trip_offers', 'seats');
+    await queryRunner.dropColumn('spaceships', 'seat_capacity');
+  }
+}
@@ -0,0 +1,109 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateItineraries1760000000004 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'itineraries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique itinerary identifier',
+          },
+          {
+            name: 'departure_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Origin airport IATA code',
+          },
+          {
+            name: 'destination_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Final destination airport IATA code',
+          },
+          {
+            name: 'passenger_name',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+            comment: 'Name of the lead passenger',
+          },
+          {
+            name: 'seats',
+            type: 'int',
+            default: 1,
+            isNullable: false,
+            comment: 'Number of seats reserved on every leg',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'CONFIRMED'",
+            comment: 'Current status of the itinerary',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "itineraries" ADD CONSTRAINT "CHK_itineraries_status" CHECK (status IN ('CONFIRMED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.addColumns('bookings', [
+      new TableColumn({
+        name: 'itinerary_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Multi-leg itinerary this booking is a leg of',
+      }),
+      new TableColumn({
+        name: 'leg_index',
+        type: 'int',
+        isNullable: true,
+        comment: 'Position of this leg within its itinerary, starting at 0',
+      }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'bookings',
+      new TableForeignKey({
+        columnNames: ['itinerary_id'],
+        referencedTableName: 'itineraries',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex('bookings', new TableIndex({ columnNames: ['itinerary_id'] }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const bookingsTable = await queryRunner.getTable('bookings');
+    const foreignKey = bookingsTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('itinerary_id') !== -1);
+    if (foreignKey) await queryRunner.dropForeignKey('bookings', foreignKey);
+
+    await queryRunner.dropColumn('bookings', 'leg_index');
+    await queryRunner.dropColumn('bookings', 'itinerary_id');
+    await queryRunner.dropTable('itineraries');
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddTripType1760000000005 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('trips', [
+      new TableColumn({
+        name: 'type',
+        type: 'varchar',
+        default: "'PASSENGER'",
+        isNullable: false,
+        comment: 'PASSENGER trips carry bookings; REPOSITIONING trips fly empty to position a spaceship',
+      }),
+      new TableColumn({
+        name: 'is_revenue',
+        type: 'boolean',
+        default: true,
+        isNullable: false,
+        comment: 'False for non-revenue flights such as repositioning',
+      }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TABLE "trips" ADD CONSTRAINT "CHK_trips_type" CHECK (type IN ('PASSENGER', 'REPOSITIONING'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "trips" DROP CONSTRAINT "CHK_trips_type"`);
+    await queryRunner.dropColumn('trips', 'is_revenue');
+    await queryRunner.dropColumn('trips', 'type');
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTripOverlapExclusion1760000000006 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // btree_gist lets a GiST index combine plain equality (spaceship_id) with range overlap
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS btree_gist`);
+
+    // Any two non-cancelled trips of the same spaceship must not overlap in [departure, arrival)
+    await queryRunner.query(
+      `ALTER TABLE "trips" ADD CONSTRAINT "EXCL_trips_spaceship_no_overlap" EXCLUDE USING gist ("spaceship_id" WITH =, tstzrange("departure_at", "arrival_at", '[)') WITH &&) WHERE ("status" <> 'CANCELLED')`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "trips" DROP CONSTRAINT "EXCL_trips_spaceship_no_overlap"`);
+  }
+}
@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateMaintenanceWindows1760000000007 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'maintenance_windows',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique maintenance window identifier',
+          },
+          {
+            name: 'spaceship_id',
+            type: 'varchar',
+            isNullable: false,
+            comment: 'Spaceship taken out of service',
+          },
+          {
+            name: 'starts_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Start of the maintenance',
+          },
+          {
+            name: 'ends_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'End of the maintenance',
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '200',
+            isNullable: true,
+            comment: 'What the maintenance is for',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'SCHEDULED'",
+            comment: 'Current status of the maintenance window',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'maintenance_windows',
+      new TableForeignKey({
+        columnNames: ['spaceship_id'],
+        referencedTableName: 'spaceships',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'maintenance_windows',
+      new TableIndex({ columnNames: ['spaceship_id', 'starts_at'] }),
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "maintenance_windows" ADD CONSTRAINT "CHK_maintenance_windows_status" CHECK (status IN ('SCHEDULED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "maintenance_windows" ADD CONSTRAINT "CHK_maintenance_windows_period" CHECK (ends_at > starts_at)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('maintenance_windows', true, true, true);
+  }
+}
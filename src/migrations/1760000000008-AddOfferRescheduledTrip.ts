@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey } from 'typeorm';
+
+export class AddOfferRescheduledTrip1760000000008 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'trip_offers',
+      new TableColumn({
+        name: 'rescheduled_trip_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Existing trip the offer moves when accepted, instead of creating a new one',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'trip_offers',
+      new TableForeignKey({
+        columnNames: ['rescheduled_trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const tripOffersTable = await queryRunner.getTable('trip_offers');
+    const foreignKey = tripOffersTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('rescheduled_trip_id') !== -1);
+    if (foreignKey) await queryRunner.dropForeignKey('trip_offers', foreignKey);
+
+    await queryRunner.dropColumn('trip_offers', 'rescheduled_trip_id');
+  }
+}
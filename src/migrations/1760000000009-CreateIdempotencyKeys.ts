@@ -0,0 +1,86 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateIdempotencyKeys1760000000009 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'idempotency_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique record identifier',
+          },
+          {
+            name: 'key',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Idempotency-Key header sent by the client',
+          },
+          {
+            name: 'scope',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Endpoint the key was used on, e.g. POST /trips/request',
+          },
+          {
+            name: 'fingerprint',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+            comment: 'SHA-256 of the request body the key was first used with',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'IN_PROGRESS'",
+            comment: 'Whether the original request is still running',
+          },
+          {
+            name: 'response_body',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Body of the original response, replayed to retries',
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Time after which the key can be reused',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('idempotency_keys', [
+      new TableIndex({ columnNames: ['scope', 'key'], isUnique: true }),
+      new TableIndex({ columnNames: ['expires_at'] }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TABLE "idempotency_keys" ADD CONSTRAINT "CHK_idempotency_keys_status" CHECK (status IN ('IN_PROGRESS', 'COMPLETED'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('idempotency_keys', true, true, true);
+  }
+}
@@ -0,0 +1,102 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+const OWNED_TABLES = [
+  { table: 'bookings', comment: 'Customer account that owns the booking' },
+  { table: 'trip_offers', comment: 'Customer account the offer was made to' },
+  { table: 'itineraries', comment: 'Customer account that owns the itinerary' },
+];
+
+export class CreateUsers1760000000010 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'users',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique user identifier',
+          },
+          {
+            name: 'email',
+            type: 'varchar',
+            length: '254',
+            isNullable: false,
+            isUnique: true,
+            comment: 'Login email address, stored lowercase',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Display name',
+          },
+          {
+            name: 'password_hash',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'scrypt hash of the password with its salt',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Existing rows predate accounts and stay unowned
+    for (const { table, comment } of OWNED_TABLES) {
+      await queryRunner.addColumn(
+        table,
+        new TableColumn({
+          name: 'user_id',
+          type: 'uuid',
+          isNullable: true,
+          comment,
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        table,
+        new TableForeignKey({
+          columnNames: ['user_id'],
+          referencedTableName: 'users',
+          referencedColumnNames: ['id'],
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    await queryRunner.createIndex('bookings', new TableIndex({ columnNames: ['user_id'] }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const { table } of OWNED_TABLES) {
+      const ownedTable = await queryRunner.getTable(table);
+      const foreignKey = ownedTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('user_id') !== -1);
+      if (foreignKey) await queryRunner.dropForeignKey(table, foreignKey);
+
+      const index = ownedTable?.indices.find((idx) => idx.columnNames.length === 1 && idx.columnNames[0] === 'user_id');
+      if (index) await queryRunner.dropIndex(table, index);
+
+      await queryRunner.dropColumn(table, 'user_id');
+    }
+
+    await queryRunner.dropTable('users');
+  }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey } from 'typeorm';
+
+export class AddUserRolesAndTripCancellation1760000000011 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'role',
+        type: 'varchar',
+        default: "'CUSTOMER'",
+        isNullable: false,
+        comment: 'Access level: customers manage their own bookings, operators and admins run the service',
+      }),
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD CONSTRAINT "CHK_users_role" CHECK (role IN ('CUSTOMER', 'OPERATOR', 'ADMIN'))`,
+    );
+
+    await queryRunner.addColumns('trips', [
+      new TableColumn({
+        name: 'cancelled_at',
+        type: 'timestamptz',
+        isNullable: true,
+        comment: 'Time the trip was cancelled',
+      }),
+      new TableColumn({
+        name: 'cancelled_by_user_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Operator who cancelled the trip; null when it was cancelled by its passengers',
+      }),
+      new TableColumn({
+        name: 'cancellation_reason',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+        comment: 'Reason given by the operator who cancelled the trip',
+      }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'trips',
+      new TableForeignKey({
+        columnNames: ['cancelled_by_user_id'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const tripsTable = await queryRunner.getTable('trips');
+    const foreignKey = tripsTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('cancelled_by_user_id') !== -1);
+    if (foreignKey) await queryRunner.dropForeignKey('trips', foreignKey);
+
+    await queryRunner.dropColumn('trips', 'cancellation_reason');
+    await queryRunner.dropColumn('trips', 'cancelled_by_user_id');
+    await queryRunner.dropColumn('trips', 'cancelled_at');
+
+    await queryRunner.query(`ALTER TABLE "users" DROP CONSTRAINT "CHK_users_role"`);
+    await queryRunner.dropColumn('users', 'role');
+  }
+}
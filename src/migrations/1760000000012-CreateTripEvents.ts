@@ -0,0 +1,115 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateTripEvents1760000000012 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'trip_events',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique event identifier',
+          },
+          {
+            name: 'trip_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Trip the event happened to',
+          },
+          {
+            name: 'type',
+            type: 'varchar',
+            isNullable: false,
+            comment: 'What happened to the trip',
+          },
+          {
+            name: 'from_status',
+            type: 'varchar',
+            isNullable: true,
+            comment: 'Status before the event; null when the trip was created',
+          },
+          {
+            name: 'to_status',
+            type: 'varchar',
+            isNullable: false,
+            comment: 'Status after the event',
+          },
+          {
+            name: 'actor_user_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'User who caused the event; null for the system',
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+            comment: 'Why the change was made',
+          },
+          {
+            name: 'details',
+            type: 'jsonb',
+            isNullable: true,
+            comment: 'Event specifics, such as the previous times and spaceship of a rescheduled trip',
+          },
+          {
+            name: 'occurred_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Time the event happened',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'trip_events',
+      new TableForeignKey({
+        columnNames: ['trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'trip_events',
+      new TableForeignKey({
+        columnNames: ['actor_user_id'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex('trip_events', new TableIndex({ columnNames: ['trip_id', 'occurred_at'] }));
+
+    await queryRunner.query(
+      `ALTER TABLE "trip_events" ADD CONSTRAINT "CHK_trip_events_type" CHECK (type IN ('CREATED', 'STATUS_CHANGED', 'RESCHEDULED'))`,
+    );
+
+    // Give existing trips a best-effort history: when they were created, and how they reached their current status
+    await queryRunner.query(
+      `INSERT INTO "trip_events" ("trip_id", "type", "from_status", "to_status", "actor_user_id", "reason", "details", "occurred_at")
+       SELECT "id", 'CREATED', NULL, 'SCHEDULED', NULL, NULL, '{"backfilled": true}', "created_at" FROM "trips"`,
+    );
+
+    await queryRunner.query(
+      `INSERT INTO "trip_events" ("trip_id", "type", "from_status", "to_status", "actor_user_id", "reason", "details", "occurred_at")
+       SELECT "id", 'STATUS_CHANGED', 'SCHEDULED', "status", "cancelled_by_user_id", "cancellation_reason",
+              '{"backfilled": true}', COALESCE("cancelled_at", "updated_at")
+       FROM "trips" WHERE "status" <> 'SCHEDULED'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('trip_events', true, true, true);
+  }
+}
@@ -0,0 +1,197 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateWebhooks1760000000013 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique subscription identifier',
+          },
+          {
+            name: 'url',
+            type: 'varchar',
+            length: '2048',
+            isNullable: false,
+            comment: 'Partner endpoint events are POSTed to',
+          },
+          {
+            name: 'secret',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+            comment: 'Shared secret used to sign deliveries with HMAC-SHA256',
+          },
+          {
+            name: 'event_types',
+            type: 'varchar',
+            isArray: true,
+            isNullable: false,
+            comment: 'Event types the partner wants to receive',
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '200',
+            isNullable: true,
+            comment: 'Who the subscription is for',
+          },
+          {
+            name: 'active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+            comment: 'Inactive subscriptions stop receiving new events',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Subscription creation time',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Last modification time',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'webhook_deliveries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique delivery identifier',
+          },
+          {
+            name: 'subscription_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Subscription the event is delivered to',
+          },
+          {
+            name: 'event_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Event identifier, shared by the deliveries of one event to every subscription',
+          },
+          {
+            name: 'event_type',
+            type: 'varchar',
+            isNullable: false,
+            comment: 'Type of the event',
+          },
+          {
+            name: 'payload',
+            type: 'jsonb',
+            isNullable: false,
+            comment: 'Body POSTed to the subscriber',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'PENDING'",
+            isNullable: false,
+            comment: 'PENDING until the subscriber accepts it, DEAD once retries are exhausted',
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+            comment: 'Delivery attempts made so far',
+          },
+          {
+            name: 'next_attempt_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Earliest time of the next attempt',
+          },
+          {
+            name: 'last_attempt_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'Time of the most recent attempt',
+          },
+          {
+            name: 'last_response_status',
+            type: 'int',
+            isNullable: true,
+            comment: 'HTTP status returned by the most recent attempt',
+          },
+          {
+            name: 'last_error',
+            type: 'varchar',
+            length: '1000',
+            isNullable: true,
+            comment: 'Why the most recent attempt failed',
+          },
+          {
+            name: 'delivered_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'Time the subscriber accepted the event',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Time the event was written to the outbox',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Last modification time',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'webhook_deliveries',
+      new TableForeignKey({
+        columnNames: ['subscription_id'],
+        referencedTableName: 'webhook_subscriptions',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex('webhook_deliveries', new TableIndex({ columnNames: ['status', 'next_attempt_at'] }));
+
+    await queryRunner.createIndex(
+      'webhook_deliveries',
+      new TableIndex({ columnNames: ['subscription_id', 'created_at'] }),
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "CHK_webhook_deliveries_status" CHECK (status IN ('PENDING', 'DELIVERED', 'DEAD'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webhook_deliveries', true, true, true);
+    await queryRunner.dropTable('webhook_subscriptions', true, true, true);
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddFares1760000000014 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Bookings made before pricing existed keep a null fare
+    await queryRunner.addColumns('bookings', [
+      new TableColumn({
+        name: 'fare_amount',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: true,
+        comment: 'Total fare quoted for all seats when booked; later price changes do not affect it',
+      }),
+      new TableColumn({
+        name: 'fare_currency',
+        type: 'varchar',
+        length: '3',
+        isNullable: true,
+        comment: 'ISO 4217 currency of the fare',
+      }),
+    ]);
+
+    await queryRunner.addColumns('trip_offers', [
+      new TableColumn({
+        name: 'fare_amount',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: true,
+        comment: 'Total fare quoted with the offer, honoured when it is accepted',
+      }),
+      new TableColumn({
+        name: 'fare_currency',
+        type: 'varchar',
+        length: '3',
+        isNullable: true,
+        comment: 'ISO 4217 currency of the fare',
+      }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TABLE "bookings" ADD CONSTRAINT "CHK_bookings_fare_amount" CHECK (fare_amount IS NULL OR fare_amount >= 0)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "bookings" DROP CONSTRAINT "CHK_bookings_fare_amount"`);
+    await queryRunner.dropColumns('trip_offers', ['fare_amount', 'fare_currency']);
+    await queryRunner.dropColumns('bookings', ['fare_amount', 'fare_currency']);
+  }
+}
@@ -0,0 +1,270 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreatePayments1760000000015 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "trips" DROP CONSTRAINT "CHK_trips_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "trips" ADD CONSTRAINT "CHK_trips_status" CHECK (status IN ('PENDING_PAYMENT', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "bookings" DROP CONSTRAINT "CHK_bookings_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "bookings" ADD CONSTRAINT "CHK_bookings_status" CHECK (status IN ('PENDING_PAYMENT', 'CONFIRMED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.addColumn(
+      'bookings',
+      new TableColumn({
+        name: 'payment_due_at',
+        type: 'timestamptz',
+        isNullable: true,
+        comment: 'Deadline for paying a PENDING_PAYMENT booking before its seats are released',
+      }),
+    );
+
+    await queryRunner.createIndex('bookings', new TableIndex({ columnNames: ['status', 'payment_due_at'] }));
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'payments',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique payment identifier, also the idempotency key sent to the gateway',
+          },
+          {
+            name: 'booking_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Booking the payment is for',
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+            comment: 'Amount charged, the fare of the booking',
+          },
+          {
+            name: 'currency',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'ISO 4217 currency of the amount',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'PENDING'",
+            isNullable: false,
+            comment: 'PENDING while the gateway is called, CAPTURED once the money is taken',
+          },
+          {
+            name: 'gateway',
+            type: 'varchar',
+            length: '50',
+            isNullable: false,
+            comment: 'Gateway the payment went through',
+          },
+          {
+            name: 'gateway_reference',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Gateway reference of the authorization, used to capture and refund it',
+          },
+          {
+            name: 'refunded_amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            default: 0,
+            isNullable: false,
+            comment: 'Total of the refunds issued against the payment',
+          },
+          {
+            name: 'failure_reason',
+            type: 'varchar',
+            length: '500',
+            isNullable: true,
+            comment: 'Why the gateway refused the payment',
+          },
+          {
+            name: 'captured_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'Time the money was taken',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Payment creation time',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Last modification time',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'refunds',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique refund identifier, also the idempotency key sent to the gateway',
+          },
+          {
+            name: 'payment_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Payment the money is returned from',
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+            comment: 'Amount returned to the customer',
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '500',
+            isNullable: false,
+            comment: 'Why the refund was issued',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'PENDING'",
+            isNullable: false,
+            comment: 'PENDING until the gateway accepts it, FAILED once retries are exhausted',
+          },
+          {
+            name: 'attempts',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+            comment: 'Gateway attempts made so far',
+          },
+          {
+            name: 'next_attempt_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Earliest time of the next attempt',
+          },
+          {
+            name: 'last_error',
+            type: 'varchar',
+            length: '1000',
+            isNullable: true,
+            comment: 'Why the most recent attempt failed',
+          },
+          {
+            name: 'gateway_reference',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+            comment: 'Gateway reference of the refund once accepted',
+          },
+          {
+            name: 'refunded_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'Time the gateway accepted the refund',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Time the refund was issued',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Last modification time',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'payments',
+      new TableForeignKey({
+        columnNames: ['booking_id'],
+        referencedTableName: 'bookings',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'refunds',
+      new TableForeignKey({
+        columnNames: ['payment_id'],
+        referencedTableName: 'payments',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.createIndex('payments', new TableIndex({ columnNames: ['booking_id'] }));
+    await queryRunner.createIndex('refunds', new TableIndex({ columnNames: ['status', 'next_attempt_at'] }));
+    await queryRunner.createIndex('refunds', new TableIndex({ columnNames: ['payment_id'] }));
+
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD CONSTRAINT "CHK_payments_status" CHECK (status IN ('PENDING', 'CAPTURED', 'FAILED', 'REFUNDED', 'PARTIALLY_REFUNDED'))`,
+    );
+    await queryRunner.query(`ALTER TABLE "payments" ADD CONSTRAINT "CHK_payments_amount" CHECK (amount > 0)`);
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD CONSTRAINT "CHK_payments_refunded_amount" CHECK (refunded_amount >= 0 AND refunded_amount <= amount)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refunds" ADD CONSTRAINT "CHK_refunds_status" CHECK (status IN ('PENDING', 'SUCCEEDED', 'FAILED'))`,
+    );
+    await queryRunner.query(`ALTER TABLE "refunds" ADD CONSTRAINT "CHK_refunds_amount" CHECK (amount > 0)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('refunds', true, true, true);
+    await queryRunner.dropTable('payments', true, true, true);
+
+    // Unpaid bookings and trips have no place in the old statuses
+    await queryRunner.query(`UPDATE "bookings" SET "status" = 'CANCELLED' WHERE "status" = 'PENDING_PAYMENT'`);
+    await queryRunner.query(`UPDATE "trips" SET "status" = 'CANCELLED' WHERE "status" = 'PENDING_PAYMENT'`);
+
+    await queryRunner.dropIndex('bookings', new TableIndex({ columnNames: ['status', 'payment_due_at'] }));
+    await queryRunner.dropColumn('bookings', 'payment_due_at');
+
+    await queryRunner.query(`ALTER TABLE "bookings" DROP CONSTRAINT "CHK_bookings_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "bookings" ADD CONSTRAINT "CHK_bookings_status" CHECK (status IN ('CONFIRMED', 'CANCELLED'))`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "trips" DROP CONSTRAINT "CHK_trips_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "trips" ADD CONSTRAINT "CHK_trips_status" CHECK (status IN ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'))`,
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateCancellationPolicies1760000000016 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'cancellation_policies',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique policy identifier',
+          },
+          {
+            name: 'version',
+            type: 'int',
+            isNullable: false,
+            comment: 'Policy version; the highest version applies to new trips',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+            comment: 'Name shown to customers',
+          },
+          {
+            name: 'tiers',
+            type: 'jsonb',
+            isNullable: false,
+            comment: 'Fee tiers ordered from the earliest cancellation to the latest; the last one starts at 0 hours',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Time the version was published',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'cancellation_policies',
+      new TableIndex({ columnNames: ['version'], isUnique: true }),
+    );
+    await queryRunner.query(
+      `ALTER TABLE "cancellation_policies" ADD CONSTRAINT "CHK_cancellation_policies_version" CHECK (version > 0)`,
+    );
+
+    // Free until 48 hours before departure, half the fare until 2 hours before, then non-refundable
+    await queryRunner.query(
+      `INSERT INTO "cancellation_policies" ("version", "name", "tiers") VALUES (1, 'Standard', $1::jsonb)`,
+      [
+        JSON.stringify([
+          { minHoursBefore: 48, feePercent: 0 },
+          { minHoursBefore: 2, feePercent: 50 },
+          { minHoursBefore: 0, feePercent: 100 },
+        ]),
+      ],
+    );
+
+    // Trips booked before this migration keep free cancellation until departure
+    await queryRunner.addColumn(
+      'trips',
+      new TableColumn({
+        name: 'cancellation_policy_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Cancellation policy version the trip was booked under; null for trips booked before policies',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'trips',
+      new TableForeignKey({
+        columnNames: ['cancellation_policy_id'],
+        referencedTableName: 'cancellation_policies',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.addColumns('bookings', [
+      new TableColumn({
+        name: 'cancelled_at',
+        type: 'timestamptz',
+        isNullable: true,
+        comment: 'Time the booking was cancelled',
+      }),
+      new TableColumn({
+        name: 'cancellation_reason',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+        comment: 'Why the booking was cancelled, as given by whoever cancelled it',
+      }),
+      new TableColumn({
+        name: 'cancellation_fee',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: true,
+        comment: 'Part of the payment kept under the cancellation policy',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('bookings', 'cancellation_fee');
+    await queryRunner.dropColumn('bookings', 'cancellation_reason');
+    await queryRunner.dropColumn('bookings', 'cancelled_at');
+
+    const trips = await queryRunner.getTable('trips');
+    const foreignKey = trips?.foreignKeys.find((fk) => fk.columnNames.indexOf('cancellation_policy_id') !== -1);
+    if (foreignKey) {
+      await queryRunner.dropForeignKey('trips', foreignKey);
+    }
+    await queryRunner.dropColumn('trips', 'cancellation_policy_id');
+
+    await queryRunner.dropTable('cancellation_policies', true, true, true);
+  }
+}
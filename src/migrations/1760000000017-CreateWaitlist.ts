@@ -0,0 +1,172 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateWaitlist1760000000017 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'waitlist_entries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: 'uuid',
+            comment: 'Unique waitlist entry identifier',
+          },
+          {
+            name: 'user_id',
+            type: 'uuid',
+            isNullable: false,
+            comment: 'Customer waiting for the trip',
+          },
+          {
+            name: 'departure_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Departure airport IATA code',
+          },
+          {
+            name: 'destination_location_code',
+            type: 'varchar',
+            length: '3',
+            isNullable: false,
+            comment: 'Destination airport IATA code',
+          },
+          {
+            name: 'earliest_departure_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Start of the departure window in UTC',
+          },
+          {
+            name: 'latest_departure_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'End of the departure window in UTC; the entry expires once it passes',
+          },
+          {
+            name: 'seats',
+            type: 'int',
+            default: 1,
+            isNullable: false,
+            comment: 'Number of seats wanted',
+          },
+          {
+            name: 'passenger_name',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+            comment: 'Name of the lead passenger',
+          },
+          {
+            name: 'priority',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+            comment:
+              'Higher priorities are served first; entries of equal priority are served first come, first served',
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            default: "'WAITING'",
+            isNullable: false,
+            comment: 'Current status of the entry',
+          },
+          {
+            name: 'next_check_at',
+            type: 'timestamptz',
+            isNullable: false,
+            comment: 'Earliest time the entry is matched against free capacity again',
+          },
+          {
+            name: 'trip_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Trip the customer was booked on',
+          },
+          {
+            name: 'booking_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Booking made for the customer, awaiting payment',
+          },
+          {
+            name: 'offer_id',
+            type: 'uuid',
+            isNullable: true,
+            comment: 'Hold offered to the customer when the seats could not be booked outright',
+          },
+          {
+            name: 'fulfilled_at',
+            type: 'timestamptz',
+            isNullable: true,
+            comment: 'Time the customer was booked or offered a hold',
+          },
+          {
+            name: 'created_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Time the customer joined the waitlist',
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamptz',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+            comment: 'Last modification time',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['user_id'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['offer_id'],
+        referencedTableName: 'trip_offers',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.createIndex('waitlist_entries', new TableIndex({ columnNames: ['status', 'next_check_at'] }));
+    await queryRunner.createIndex('waitlist_entries', new TableIndex({ columnNames: ['user_id'] }));
+
+    await queryRunner.query(
+      `ALTER TABLE "waitlist_entries" ADD CONSTRAINT "CHK_waitlist_entries_status" CHECK (status IN ('WAITING', 'BOOKED', 'OFFERED', 'EXPIRED', 'CANCELLED'))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "waitlist_entries" ADD CONSTRAINT "CHK_waitlist_entries_seats" CHECK (seats >= 1)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "waitlist_entries" ADD CONSTRAINT "CHK_waitlist_entries_window" CHECK (earliest_departure_at <= latest_departure_at)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('waitlist_entries', true, true, true);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddItineraryPayment1760000000018 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "itineraries" DROP CONSTRAINT "CHK_itineraries_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "itineraries" ADD CONSTRAINT "CHK_itineraries_status" CHECK (status IN ('PENDING_PAYMENT', 'CONFIRMED', 'CANCELLED'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Unpaid itineraries have no place in the old statuses
+    await queryRunner.query(`UPDATE "itineraries" SET "status" = 'CANCELLED' WHERE "status" = 'PENDING_PAYMENT'`);
+
+    await queryRunner.query(`ALTER TABLE "itineraries" DROP CONSTRAINT "CHK_itineraries_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "itineraries" ADD CONSTRAINT "CHK_itineraries_status" CHECK (status IN ('CONFIRMED', 'CANCELLED'))`,
+    );
+  }
+}
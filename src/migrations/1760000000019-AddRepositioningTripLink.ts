@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey } from 'typeorm';
+
+export class AddRepositioningTripLink1760000000019 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'trips',
+      new TableColumn({
+        name: 'repositioning_trip_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Empty flight that brings the spaceship to the departure location for this trip',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'trips',
+      new TableForeignKey({
+        columnNames: ['repositioning_trip_id'],
+        referencedTableName: 'trips',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Until now the link was only kept in the history of the passenger trip
+    await queryRunner.query(
+      `UPDATE "trips" SET "repositioning_trip_id" = ("trip_events"."details"->>'repositioningTripId')::uuid
+       FROM "trip_events"
+       WHERE "trip_events"."trip_id" = "trips"."id"
+         AND "trip_events"."type" = 'CREATED'
+         AND "trip_events"."details" ? 'repositioningTripId'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const tripsTable = await queryRunner.getTable('trips');
+    const foreignKey = tripsTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('repositioning_trip_id') !== -1);
+    if (foreignKey) await queryRunner.dropForeignKey('trips', foreignKey);
+
+    await queryRunner.dropColumn('trips', 'repositioning_trip_id');
+  }
+}
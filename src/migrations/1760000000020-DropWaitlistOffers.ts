@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey } from 'typeorm';
+
+export class DropWaitlistOffers1760000000020 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The waitlist only books the departure it found now; an offered hold was either accepted or has lapsed
+    await queryRunner.query(`UPDATE "waitlist_entries" SET "status" = 'EXPIRED' WHERE "status" = 'OFFERED'`);
+
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" DROP CONSTRAINT "CHK_waitlist_entries_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "waitlist_entries" ADD CONSTRAINT "CHK_waitlist_entries_status" CHECK (status IN ('WAITING', 'BOOKED', 'EXPIRED', 'CANCELLED'))`,
+    );
+
+    const waitlistTable = await queryRunner.getTable('waitlist_entries');
+    const foreignKey = waitlistTable?.foreignKeys.find((fk) => fk.columnNames.indexOf('offer_id') !== -1);
+    if (foreignKey) await queryRunner.dropForeignKey('waitlist_entries', foreignKey);
+
+    await queryRunner.dropColumn('waitlist_entries', 'offer_id');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'waitlist_entries',
+      new TableColumn({
+        name: 'offer_id',
+        type: 'uuid',
+        isNullable: true,
+        comment: 'Hold offered to the customer when the seats could not be booked outright',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['offer_id'],
+        referencedTableName: 'trip_offers',
+        referencedColumnNames: ['id'],
+      }),
+    );
+
+    await queryRunner.query(`ALTER TABLE "waitlist_entries" DROP CONSTRAINT "CHK_waitlist_entries_status"`);
+    await queryRunner.query(
+      `ALTER TABLE "waitlist_entries" ADD CONSTRAINT "CHK_waitlist_entries_status" CHECK (status IN ('WAITING', 'BOOKED', 'OFFERED', 'EXPIRED', 'CANCELLED'))`,
+    );
+  }
+}
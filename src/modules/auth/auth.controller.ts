@@ -0,0 +1,62 @@
+import { Body, Controller, HttpCode, HttpStatus, Logger, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AuthService } from '@/modules/auth/auth.service';
+import { RegisterDto } from '@/modules/auth/dto/register.dto';
+import { LoginDto } from '@/modules/auth/dto/login.dto';
+import { AuthResponseDto } from '@/modules/auth/dto/auth-response.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('register')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register a customer account',
+    description: 'Creates an account and returns an access token for it',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Account created',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request data',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'An account with this email already exists',
+    type: ErrorResponseDto,
+  })
+  async register(@Body() dto: RegisterDto): Promise<AuthResponseDto> {
+    this.logger.log(`POST /auth/register - ${dto.email}`);
+    return this.authService.register(dto);
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in',
+    description: 'Exchanges email and password for a bearer access token',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logged in',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid email or password',
+    type: ErrorResponseDto,
+  })
+  async login(@Body() dto: LoginDto): Promise<AuthResponseDto> {
+    this.logger.log(`POST /auth/login - ${dto.email}`);
+    return this.authService.login(dto);
+  }
+}
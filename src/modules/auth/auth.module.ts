@@ -0,0 +1,36 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { UserModule } from '@/modules/user/user.module';
+import { AuthService } from '@/modules/auth/auth.service';
+import { AuthController } from '@/modules/auth/auth.controller';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+
+// Global so any controller can apply the guards without importing this module
+@Global()
+@Module({
+  imports: [
+    UserModule,
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const secret = configService.get<string>('JWT_SECRET');
+        if (!secret) {
+          throw new Error('JWT_SECRET environment variable is not defined');
+        }
+
+        return {
+          secret,
+          signOptions: {
+            expiresIn: Number(configService.get<string>('JWT_EXPIRES_IN_MINUTES', '60')) * 60,
+          },
+        };
+      },
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, JwtAuthGuard, RolesGuard],
+  exports: [JwtModule, JwtAuthGuard, RolesGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,59 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User, UserRole } from '../user/user.entity';
+import { UserService } from '../user/user.service';
+import { RegisterDto } from './dto/register.dto';
+import { LoginDto } from './dto/login.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { PasswordHasher } from './password-hasher';
+
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly expiresInSeconds: number;
+
+  constructor(
+    private userService: UserService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {
+    this.expiresInSeconds = Number(this.configService.get<string>('JWT_EXPIRES_IN_MINUTES', '60')) * 60;
+  }
+
+  async register(dto: RegisterDto): Promise<AuthResponseDto> {
+    const passwordHash = await PasswordHasher.hash(dto.password);
+    const user = await this.userService.create({ email: dto.email, name: dto.name, passwordHash });
+    return this.issueToken(user);
+  }
+
+  async login(dto: LoginDto): Promise<AuthResponseDto> {
+    const user = await this.userService.findByEmailWithPassword(dto.email);
+
+    // Same error for unknown email and wrong password so accounts cannot be enumerated
+    if (!user || !(await PasswordHasher.verify(dto.password, user.passwordHash))) {
+      this.logger.warn(`Failed login for ${dto.email.toLowerCase()}`);
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    return this.issueToken(user);
+  }
+
+  private async issueToken(user: User): Promise<AuthResponseDto> {
+    const payload: JwtPayload = { sub: user.id, email: user.email, role: user.role };
+    const accessToken = await this.jwtService.signAsync(payload);
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: this.expiresInSeconds,
+      user: this.userService.toDto(user),
+    };
+  }
+}
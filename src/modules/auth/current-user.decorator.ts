@@ -0,0 +1,22 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { UserRole } from '../user/user.entity';
+
+/**
+ * Identity of the caller, resolved from a verified access token
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export type AuthenticatedRequest = Request & { user?: AuthenticatedUser };
+
+/**
+ * Inject the authenticated caller into a handler. Only valid behind JwtAuthGuard.
+ */
+export const CurrentUser = createParamDecorator((_data: unknown, context: ExecutionContext): AuthenticatedUser => {
+  const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+  return request.user!;
+});
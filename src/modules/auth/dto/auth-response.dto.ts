@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserDto } from '@/modules/user/dto/user.dto';
+
+export class AuthResponseDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: string;
+
+  @ApiProperty({ example: 3600, description: 'Seconds until the token expires' })
+  expiresIn: number;
+
+  @ApiProperty({ type: UserDto })
+  user: UserDto;
+}
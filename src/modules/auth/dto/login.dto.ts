@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, Length } from 'class-validator';
+
+export class LoginDto {
+  @ApiProperty({
+    example: 'ada@example.com',
+    description: 'Login email address',
+  })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  @ApiProperty({
+    example: 'correct horse battery staple',
+    description: 'Password',
+  })
+  @IsString()
+  @Length(1, 128)
+  password: string;
+}
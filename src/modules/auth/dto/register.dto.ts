@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, Length } from 'class-validator';
+
+export class RegisterDto {
+  @ApiProperty({
+    example: 'ada@example.com',
+    description: 'Login email address',
+  })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+
+  @ApiProperty({
+    example: 'correct horse battery staple',
+    description: 'Password',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsString()
+  @Length(8, 128, { message: 'Password must be between 8 and 128 characters' })
+  password: string;
+
+  @ApiProperty({
+    example: 'Ada Lovelace',
+    description: 'Display name',
+    maxLength: 100,
+  })
+  @IsString()
+  @Length(1, 100)
+  name: string;
+}
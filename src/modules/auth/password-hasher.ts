@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export class PasswordHasher {
+  private static readonly KEY_LENGTH = 64;
+  private static readonly SALT_LENGTH = 16;
+
+  /**
+   * Hash a password as `scrypt$<salt>$<key>` with a fresh random salt
+   */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(PasswordHasher.SALT_LENGTH);
+    const key = await scryptAsync(password, salt, PasswordHasher.KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+  }
+
+  static async verify(password: string, stored: string): Promise<boolean> {
+    const [algorithm, saltHex, keyHex] = stored.split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !keyHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(keyHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '@/modules/user/user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Roles that run the service rather than travel on it
+ */
+export const STAFF_ROLES = [UserRole.OPERATOR, UserRole.ADMIN];
+
+/**
+ * Restrict a controller or handler to the given roles. Handler roles replace controller roles.
+ * Requires JwtAuthGuard and RolesGuard, in that order.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+export function isStaff(user: { role: UserRole }): boolean {
+  return STAFF_ROLES.includes(user.role);
+}
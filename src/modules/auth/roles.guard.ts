@@ -0,0 +1,29 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../user/user.entity';
+import { ROLES_KEY } from './roles.decorator';
+import { AuthenticatedRequest } from './current-user.decorator';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    // No @Roles means any authenticated user
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException('You do not have permission to perform this action');
+    }
+
+    return true;
+  }
+}
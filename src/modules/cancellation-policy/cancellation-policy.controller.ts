@@ -0,0 +1,104 @@
+import { Body, Controller, Get, Logger, NotFoundException, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { CancellationPolicyService } from '@/modules/cancellation-policy/cancellation-policy.service';
+import { CancellationPolicy } from '@/modules/cancellation-policy/cancellation-policy.entity';
+import { CreateCancellationPolicyDto } from '@/modules/cancellation-policy/dto/create-cancellation-policy.dto';
+import { CancellationPolicyDto } from '@/modules/cancellation-policy/dto/cancellation-policy.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { UserRole } from '@/modules/user/user.entity';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles } from '@/modules/auth/roles.decorator';
+
+@ApiTags('cancellation-policies')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('cancellation-policies')
+export class CancellationPolicyController {
+  private readonly logger = new Logger(CancellationPolicyController.name);
+
+  constructor(private readonly cancellationPolicyService: CancellationPolicyService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List cancellation policy versions', description: 'Newest version first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Every published version',
+    type: [CancellationPolicyDto],
+  })
+  async getPolicies(): Promise<CancellationPolicyDto[]> {
+    this.logger.log('GET /cancellation-policies');
+    const policies = await this.cancellationPolicyService.findAll();
+    return policies.map((policy) => this.toDto(policy));
+  }
+
+  @Get('current')
+  @ApiOperation({ summary: 'Get the cancellation policy new trips are booked under' })
+  @ApiResponse({
+    status: 200,
+    description: 'Current policy version',
+    type: CancellationPolicyDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'No policy has been published',
+    type: ErrorResponseDto,
+  })
+  async getCurrentPolicy(): Promise<CancellationPolicyDto> {
+    this.logger.log('GET /cancellation-policies/current');
+    const policy = await this.cancellationPolicyService.findCurrent();
+
+    if (!policy) {
+      throw new NotFoundException('No cancellation policy has been published');
+    }
+
+    return this.toDto(policy);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Publish a new cancellation policy version',
+    description:
+      'The new version applies to trips booked from now on. Existing trips keep the version they were booked under.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Policy version published',
+    type: CancellationPolicyDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid tiers',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only admins can publish cancellation policies',
+    type: ErrorResponseDto,
+  })
+  async createPolicy(@Body() dto: CreateCancellationPolicyDto): Promise<CancellationPolicyDto> {
+    this.logger.log(`POST /cancellation-policies - ${JSON.stringify(dto)}`);
+    return this.toDto(await this.cancellationPolicyService.create(dto));
+  }
+
+  private toDto(policy: CancellationPolicy): CancellationPolicyDto {
+    return {
+      id: policy.id,
+      version: policy.version,
+      name: policy.name,
+      tiers: policy.tiers,
+      createdAt: policy.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index, Check } from 'typeorm';
+
+/**
+ * Fee charged when cancelling at least minHoursBefore hours before departure
+ */
+export interface CancellationTier {
+  minHoursBefore: number;
+  feePercent: number;
+}
+
+@Entity('cancellation_policies')
+@Index(['version'], { unique: true })
+@Check(`"version" > 0`)
+export class CancellationPolicy {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique policy identifier',
+  })
+  id: string;
+
+  @Column({
+    type: 'int',
+    comment: 'Policy version; the highest version applies to new trips',
+  })
+  version: number;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Name shown to customers',
+  })
+  name: string;
+
+  @Column({
+    type: 'jsonb',
+    comment: 'Fee tiers ordered from the earliest cancellation to the latest; the last one starts at 0 hours',
+  })
+  tiers: CancellationTier[];
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Time the version was published',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CancellationPolicy } from '@/modules/cancellation-policy/cancellation-policy.entity';
+import { CancellationPolicyRepository } from '@/modules/cancellation-policy/cancellation-policy.repository';
+import { CancellationPolicyService } from '@/modules/cancellation-policy/cancellation-policy.service';
+import { CancellationPolicyController } from '@/modules/cancellation-policy/cancellation-policy.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CancellationPolicy])],
+  controllers: [CancellationPolicyController],
+  providers: [CancellationPolicyService, CancellationPolicyRepository],
+  exports: [CancellationPolicyService],
+})
+export class CancellationPolicyModule {}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { CancellationPolicy } from '@/modules/cancellation-policy/cancellation-policy.entity';
+
+@Injectable()
+export class CancellationPolicyRepository extends Repository<CancellationPolicy> {
+  constructor(private dataSource: DataSource) {
+    super(CancellationPolicy, dataSource.createEntityManager());
+  }
+}
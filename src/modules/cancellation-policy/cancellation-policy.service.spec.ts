@@ -0,0 +1,136 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DataSource, EntityManager } from 'typeorm';
+import { CancellationPolicy } from './cancellation-policy.entity';
+import { CancellationPolicyRepository } from './cancellation-policy.repository';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { mockDataSource } from '@common/testing';
+
+describe('CancellationPolicyService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const now = new Date('2030-01-15T10:00:00.000Z');
+
+  const standard = Object.assign(new CancellationPolicy(), {
+    id: 'policy-1',
+    version: 1,
+    name: 'Standard',
+    tiers: [
+      { minHoursBefore: 48, feePercent: 0 },
+      { minHoursBefore: 2, feePercent: 50 },
+      { minHoursBefore: 0, feePercent: 100 },
+    ],
+  });
+
+  let service: CancellationPolicyService;
+  let manager: { findOne: jest.Mock; create: jest.Mock; save: jest.Mock };
+  let dataSource: ReturnType<typeof mockDataSource<typeof manager>>;
+
+  beforeEach(async () => {
+    manager = {
+      findOne: jest.fn().mockResolvedValue(standard),
+      create: jest.fn((_entity: unknown, fields: Partial<CancellationPolicy>) => ({ ...fields })),
+      save: jest.fn((_entity: unknown, policy: CancellationPolicy) => Promise.resolve(policy)),
+    };
+    dataSource = mockDataSource(manager);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        CancellationPolicyService,
+        { provide: CancellationPolicyRepository, useValue: {} },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get(CancellationPolicyService);
+  });
+
+  describe('create', () => {
+    it('publishes the next version with tiers from the earliest cancellation to the latest', async () => {
+      const policy = await service.create({
+        name: 'Flexible',
+        tiers: [
+          { minHoursBefore: 0, feePercent: 25 },
+          { minHoursBefore: 24, feePercent: 0 },
+        ],
+      });
+
+      expect(policy).toMatchObject({
+        version: 2,
+        name: 'Flexible',
+        tiers: [
+          { minHoursBefore: 24, feePercent: 0 },
+          { minHoursBefore: 0, feePercent: 25 },
+        ],
+      });
+      expect(dataSource.queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('starts at version 1 when no policy exists yet', async () => {
+      manager.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({ name: 'First', tiers: [{ minHoursBefore: 0, feePercent: 0 }] }),
+      ).resolves.toMatchObject({ version: 1 });
+    });
+
+    it.each([
+      ['no tier starts at departure', [{ minHoursBefore: 24, feePercent: 0 }], 'The last tier must start at 0 hours'],
+      [
+        'two tiers start at the same time',
+        [
+          { minHoursBefore: 24, feePercent: 0 },
+          { minHoursBefore: 24, feePercent: 10 },
+          { minHoursBefore: 0, feePercent: 50 },
+        ],
+        'Tiers must start at different hours',
+      ],
+      [
+        'fees go down closer to departure',
+        [
+          { minHoursBefore: 24, feePercent: 50 },
+          { minHoursBefore: 0, feePercent: 10 },
+        ],
+        'Fees cannot go down',
+      ],
+    ])('refuses tiers where %s', async (_case, tiers, message) => {
+      const attempt = service.create({ name: 'Broken', tiers });
+
+      await expect(attempt).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+      await expect(attempt).rejects.toThrow(message);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('feeForTrip', () => {
+    const tripDeparting = (hoursFromNow: number) => ({
+      cancellationPolicyId: 'policy-1',
+      departureAt: new Date(now.getTime() + hoursFromNow * HOUR_MS),
+    });
+
+    it.each([
+      [72, 0],
+      [48, 0],
+      [10, 50],
+      [1, 100],
+      [-3, 100],
+    ])('charges a trip departing in %i hours %i percent', async (hours, feePercent) => {
+      const fee = await service.feeForTrip(tripDeparting(hours), now, manager as unknown as EntityManager);
+
+      expect(fee).toMatchObject({ policy: standard, hoursBeforeDeparture: hours, feePercent });
+    });
+
+    it('reads the version the trip was booked under', async () => {
+      await service.feeForTrip(tripDeparting(10), now, manager as unknown as EntityManager);
+
+      const [, options] = manager.findOne.mock.calls[0] as [unknown, { where: { id: string } }];
+      expect(options.where.id).toBe('policy-1');
+    });
+
+    it('lets trips booked before policies existed cancel for free', async () => {
+      const fee = await service.feeForTrip({ ...tripDeparting(1), cancellationPolicyId: null }, now);
+
+      expect(fee).toEqual({ policy: null, hoursBeforeDeparture: 1, feePercent: 0 });
+      expect(manager.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { CancellationPolicy, CancellationTier } from './cancellation-policy.entity';
+import { CancellationPolicyRepository } from './cancellation-policy.repository';
+import { CreateCancellationPolicyDto } from './dto/create-cancellation-policy.dto';
+
+export interface CancellationFee {
+  // Null for trips booked before cancellation policies existed, which stay free to cancel until departure
+  policy: CancellationPolicy | null;
+  hoursBeforeDeparture: number;
+  feePercent: number;
+}
+
+@Injectable()
+export class CancellationPolicyService {
+  private readonly logger = new Logger(CancellationPolicyService.name);
+
+  constructor(
+    private policyRepository: CancellationPolicyRepository,
+    private dataSource: DataSource,
+  ) {}
+
+  async findAll(): Promise<CancellationPolicy[]> {
+    return this.policyRepository.find({ order: { version: 'DESC' } });
+  }
+
+  /**
+   * The policy new trips are booked under: the highest version
+   */
+  async findCurrent(manager: EntityManager = this.dataSource.manager): Promise<CancellationPolicy | null> {
+    return manager.findOne(CancellationPolicy, { where: {}, order: { version: 'DESC' } });
+  }
+
+  async findById(id: string): Promise<CancellationPolicy> {
+    const policy = await this.policyRepository.findOne({ where: { id } });
+
+    if (!policy) {
+      throw new NotFoundException(`Cancellation policy ${id} not found`);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Publish a new policy version for trips booked from now on
+   * Earlier versions are never changed: trips keep the version they were booked under
+   */
+  async create(dto: CreateCancellationPolicyDto): Promise<CancellationPolicy> {
+    const tiers = this.validateTiers(dto.tiers);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    let policy: CancellationPolicy;
+    try {
+      const current = await this.findCurrent(queryRunner.manager);
+      policy = await queryRunner.manager.save(
+        CancellationPolicy,
+        queryRunner.manager.create(CancellationPolicy, {
+          version: (current?.version ?? 0) + 1,
+          name: dto.name,
+          tiers,
+        }),
+      );
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Cancellation policy version ${policy.version} published`);
+    return policy;
+  }
+
+  /**
+   * Fee for cancelling a trip now, from the policy version it was booked under
+   * Cancelling after the last tier's start is charged the last tier's fee
+   */
+  async feeForTrip(
+    trip: { cancellationPolicyId: string | null; departureAt: Date },
+    now: Date = new Date(),
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<CancellationFee> {
+    const policy = trip.cancellationPolicyId
+      ? await manager.findOne(CancellationPolicy, { where: { id: trip.cancellationPolicyId } })
+      : null;
+    const hoursBeforeDeparture = (trip.departureAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+    if (!policy) {
+      return { policy: null, hoursBeforeDeparture, feePercent: 0 };
+    }
+
+    const tier =
+      policy.tiers.find((candidate) => hoursBeforeDeparture >= candidate.minHoursBefore) ??
+      policy.tiers[policy.tiers.length - 1];
+
+    return { policy, hoursBeforeDeparture, feePercent: tier.feePercent };
+  }
+
+  /**
+   * Order tiers from the earliest cancellation to the latest and check they describe every moment up to departure
+   */
+  private validateTiers(tiers: CancellationTier[]): CancellationTier[] {
+    const ordered = [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+
+    if (ordered[ordered.length - 1].minHoursBefore !== 0) {
+      throw new BadRequestException('The last tier must start at 0 hours before departure');
+    }
+
+    for (let index = 1; index < ordered.length; index++) {
+      if (ordered[index].minHoursBefore === ordered[index - 1].minHoursBefore) {
+        throw new BadRequestException('Tiers must start at different hours before departure');
+      }
+
+      if (ordered[index].feePercent < ordered[index - 1].feePercent) {
+        throw new BadRequestException('Fees cannot go down closer to departure');
+      }
+    }
+
+    return ordered.map((tier) => ({ minHoursBefore: tier.minHoursBefore, feePercent: tier.feePercent }));
+  }
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CancellationTierDto } from '@/modules/cancellation-policy/dto/create-cancellation-policy.dto';
+
+export class CancellationPolicyDto {
+  @ApiProperty({ example: '2f4e6d8c-0b1a-4c3e-9d5f-7a6b8c9d0e1f' })
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  version: number;
+
+  @ApiProperty({ example: 'Standard' })
+  name: string;
+
+  @ApiProperty({ type: [CancellationTierDto], description: 'From the earliest cancellation to the latest' })
+  tiers: CancellationTierDto[];
+
+  @ApiProperty({ example: '2025-01-01T00:00:00.000Z' })
+  createdAt: string;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNumber,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class CancellationTierDto {
+  @ApiProperty({ example: 48, description: 'Tier applies when cancelling at least this many hours before departure' })
+  @IsNumber()
+  @Min(0)
+  minHoursBefore: number;
+
+  @ApiProperty({ example: 0, description: 'Share of the paid fare kept as a fee, in percent' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  feePercent: number;
+}
+
+export class CreateCancellationPolicyDto {
+  @ApiProperty({ example: 'Standard', maxLength: 100 })
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @ApiProperty({
+    type: [CancellationTierDto],
+    example: [
+      { minHoursBefore: 48, feePercent: 0 },
+      { minHoursBefore: 2, feePercent: 50 },
+      { minHoursBefore: 0, feePercent: 100 },
+    ],
+    description: 'Fee tiers; one must start at 0 hours, and fees cannot go down closer to departure',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => CancellationTierDto)
+  tiers: CancellationTierDto[];
+}
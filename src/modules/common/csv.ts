@@ -0,0 +1,24 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * RFC 4180 rows for spreadsheet exports
+ * Text that a spreadsheet would read as a formula is prefixed with a quote, so exported data cannot run code
+ */
+export class Csv {
+  static row(values: CsvValue[]): string {
+    return values.map((value) => this.field(value)).join(',') + '\r\n';
+  }
+
+  private static field(value: CsvValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,42 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpStatus, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { QueryFailedError } from 'typeorm';
+
+// Postgres SQLSTATE codes that mean "someone else got there first"
+const EXCLUSION_VIOLATION = '23P01';
+const SERIALIZATION_FAILURE = '40001';
+
+/**
+ * Turns database conflicts raised by concurrent bookings into 409 responses
+ * Any other query failure is reported as a 500 without leaking SQL details
+ */
+@Catch(QueryFailedError)
+export class QueryFailedFilter implements ExceptionFilter {
+  private readonly logger = new Logger(QueryFailedFilter.name);
+
+  catch(exception: QueryFailedError & { code?: string }, host: ArgumentsHost): void {
+    const context = host.switchToHttp();
+    const response = context.getResponse<Response>();
+    const request = context.getRequest<Request>();
+
+    let statusCode = HttpStatus.INTERNAL_SERVER_ERROR;
+    let message = 'Internal server error';
+
+    if (exception.code === EXCLUSION_VIOLATION) {
+      statusCode = HttpStatus.CONFLICT;
+      message = 'The spaceship is already booked for an overlapping trip';
+    } else if (exception.code === SERIALIZATION_FAILURE) {
+      statusCode = HttpStatus.CONFLICT;
+      message = 'The booking conflicted with a concurrent request. Please try again.';
+    } else {
+      this.logger.error(exception.message, exception.stack);
+    }
+
+    response.status(statusCode).json({
+      statusCode,
+      message,
+      timestamp: new Date().toISOString(),
+      path: request.url,
+    });
+  }
+}
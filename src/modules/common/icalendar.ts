@@ -0,0 +1,107 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+  geo?: { latitude: number; longitude: number };
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date;
+}
+
+/**
+ * Minimal RFC 5545 writer: one VCALENDAR of VEVENTs, with escaped text, folded lines and CRLF endings
+ */
+export class ICalendar {
+  private static readonly PRODUCT_ID = '-//Space Booking//Trips//EN';
+  private static readonly MAX_LINE_OCTETS = 75;
+
+  static build(events: CalendarEvent[], options: { name?: string; now?: Date } = {}): string {
+    const stamp = this.formatDate(options.now ?? new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+    ];
+
+    if (options.name) {
+      lines.push(`X-WR-CALNAME:${this.escape(options.name)}`);
+    }
+
+    for (const event of events) {
+      lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+      lines.push(`DTSTART:${this.formatDate(event.start)}`, `DTEND:${this.formatDate(event.end)}`);
+      lines.push(`SUMMARY:${this.escape(event.summary)}`);
+
+      if (event.location) {
+        lines.push(`LOCATION:${this.escape(event.location)}`);
+      }
+
+      if (event.description) {
+        lines.push(`DESCRIPTION:${this.escape(event.description)}`);
+      }
+
+      if (event.geo) {
+        lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+      }
+
+      lines.push(`STATUS:${event.status}`);
+
+      if (event.lastModified) {
+        lines.push(`LAST-MODIFIED:${this.formatDate(event.lastModified)}`);
+      }
+
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map((line) => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * UTC date-time in the basic format, e.g. 20250115T100000Z
+   */
+  private static formatDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Split lines longer than 75 octets, continuing them on lines that start with a space
+   * Never splits inside a multi-byte character
+   */
+  private static fold(line: string): string {
+    if (Buffer.byteLength(line) <= this.MAX_LINE_OCTETS) {
+      return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+    for (const char of line) {
+      const octets = Buffer.byteLength(char);
+      // Continuation lines lose one octet to the leading space
+      const limit = parts.length === 0 ? this.MAX_LINE_OCTETS : this.MAX_LINE_OCTETS - 1;
+      if (currentOctets + octets > limit) {
+        parts.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
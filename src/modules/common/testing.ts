@@ -0,0 +1,48 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Stand-ins shared by the unit tests; not part of the application build
+ */
+
+/**
+ * ConfigService that answers from the given settings and falls back to each caller's default
+ */
+export const mockConfigService = (settings: Record<string, string> = {}) =>
+  ({ get: (key: string, fallback?: string) => settings[key] ?? fallback }) as unknown as ConfigService;
+
+/**
+ * Query builder whose every method chains, except the terminal ones given, which resolve what their function returns
+ */
+export const mockQueryBuilder = (terminals: Record<string, (...args: unknown[]) => unknown> = {}) => {
+  const methods: Record<string, jest.Mock> = {};
+  const builder: Record<string, jest.Mock> = new Proxy(methods, {
+    get: (target, method) => {
+      // Not thenable, so awaiting the builder by mistake fails loudly instead of hanging
+      if (typeof method !== 'string' || method === 'then') {
+        return undefined;
+      }
+
+      target[method] ??=
+        method in terminals
+          ? jest.fn((...args: unknown[]) => Promise.resolve(terminals[method](...args)))
+          : jest.fn(() => builder);
+      return target[method];
+    },
+  });
+  return builder;
+};
+
+/**
+ * DataSource whose query runners all share the given entity manager, so a test sees every transaction's writes
+ */
+export const mockDataSource = <M extends object>(manager: M) => {
+  const queryRunner = {
+    manager,
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+  };
+  return { manager, queryRunner, createQueryRunner: jest.fn(() => queryRunner) };
+};
@@ -36,6 +36,65 @@ export class DistanceCalculator {
 
     return distances[`${from}-${to}`] || null;
   }
+
+  /**
+   * Point a given fraction of the way along the great circle between two points
+   * Longitudes are normalised to [-180, 180], so routes over the antimeridian wrap instead of crossing the globe
+   */
+  static interpolate(
+    lat1: number,
+    lon1: number,
+    lat2: number,
+    lon2: number,
+    fraction: number,
+  ): { latitude: number; longitude: number } {
+    const lat1Rad = this.toRadians(lat1);
+    const lon1Rad = this.toRadians(lon1);
+    const lat2Rad = this.toRadians(lat2);
+    const lon2Rad = this.toRadians(lon2);
+
+    const angularDistance = this.calculateDistance(lat1, lon1, lat2, lon2) / this.EARTH_RADIUS_MILES;
+    const sinDistance = Math.sin(angularDistance);
+
+    // Same point (or antipodes, where every great circle fits): there is no single path to follow
+    if (sinDistance < 1e-12) {
+      return { latitude: lat1, longitude: lon1 };
+    }
+
+    const a = Math.sin((1 - fraction) * angularDistance) / sinDistance;
+    const b = Math.sin(fraction * angularDistance) / sinDistance;
+
+    const x = a * Math.cos(lat1Rad) * Math.cos(lon1Rad) + b * Math.cos(lat2Rad) * Math.cos(lon2Rad);
+    const y = a * Math.cos(lat1Rad) * Math.sin(lon1Rad) + b * Math.cos(lat2Rad) * Math.sin(lon2Rad);
+    const z = a * Math.sin(lat1Rad) + b * Math.sin(lat2Rad);
+
+    return {
+      latitude: this.toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      longitude: this.toDegrees(Math.atan2(y, x)),
+    };
+  }
+
+  /**
+   * Initial compass bearing from the first point towards the second, in degrees clockwise from north (0-360)
+   */
+  static calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const lat1Rad = this.toRadians(lat1);
+    const lat2Rad = this.toRadians(lat2);
+    const deltaLon = this.toRadians(lon2 - lon1);
+
+    const y = Math.sin(deltaLon) * Math.cos(lat2Rad);
+    const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLon);
+
+    return (this.toDegrees(Math.atan2(y, x)) + 360) % 360;
+  }
+
+  private static toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+
+  private static toDegrees(radians: number): number {
+    return radians * (180 / Math.PI);
+  }
 }
 
 export class TimeCalculator {
@@ -67,39 +126,42 @@ export class TimeCalculator {
       destinationLon: number;
     },
     currentTime: Date = new Date(),
-  ): { latitude: number; longitude: number; progress: number } {
+  ): { latitude: number; longitude: number; heading: number; progress: number } {
     const totalTime = trip.arrivalAt.getTime() - trip.departureAt.getTime();
     const elapsedTime = currentTime.getTime() - trip.departureAt.getTime();
 
-    // If before departure, at departure location
-    if (elapsedTime <= 0) {
-      return {
-        latitude: trip.departureLat,
-        longitude: trip.departureLon,
-        progress: 0,
-      };
-    }
-
-    // If after arrival, at destination
-    if (elapsedTime >= totalTime) {
-      return {
-        latitude: trip.destinationLat,
-        longitude: trip.destinationLon,
-        progress: 1,
-      };
-    }
-
-    // Calculate progress (0 to 1)
-    const progress = elapsedTime / totalTime;
-
-    // Linear interpolation for position
-    // This is simplified - actual flight paths follow great circles
-    const currentLat = trip.departureLat + (trip.destinationLat - trip.departureLat) * progress;
-    const currentLon = trip.departureLon + (trip.destinationLon - trip.departureLon) * progress;
+    // Progress (0 to 1), clamped to the departure and destination before and after the flight
+    const progress = Math.min(Math.max(totalTime > 0 ? elapsedTime / totalTime : 1, 0), 1);
+
+    // Ships fly the great circle, so the heading changes along the way
+    const position = DistanceCalculator.interpolate(
+      trip.departureLat,
+      trip.departureLon,
+      trip.destinationLat,
+      trip.destinationLon,
+      progress,
+    );
+    const heading =
+      progress < 1
+        ? DistanceCalculator.calculateBearing(
+            position.latitude,
+            position.longitude,
+            trip.destinationLat,
+            trip.destinationLon,
+          )
+        : (DistanceCalculator.calculateBearing(
+            trip.destinationLat,
+            trip.destinationLon,
+            trip.departureLat,
+            trip.departureLon,
+          ) +
+            180) %
+          360;
 
     return {
-      latitude: Math.round(currentLat * 1000000) / 1000000, // 6 decimal places
-      longitude: Math.round(currentLon * 1000000) / 1000000,
+      latitude: Math.round(position.latitude * 1000000) / 1000000, // 6 decimal places
+      longitude: Math.round(position.longitude * 1000000) / 1000000,
+      heading: Math.round(heading * 10) / 10,
       progress: Math.round(progress * 100) / 100,
     };
   }
@@ -0,0 +1,133 @@
+import { performance } from 'perf_hooks';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager } from 'typeorm';
+import { getDataSource } from '../../config/database.config';
+import { SpaceshipAvailabilityService } from '../../modules/spaceship/spaceship-availability.service';
+
+const SPACESHIPS = Number(process.env.BENCHMARK_SPACESHIPS ?? 1000);
+const TRIPS_PER_SPACESHIP = Number(process.env.BENCHMARK_TRIPS_PER_SPACESHIP ?? 100);
+const LOCATIONS = 50;
+const ITERATIONS = Number(process.env.BENCHMARK_ITERATIONS ?? 50);
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Run a query repeatedly and report latency percentiles in milliseconds
+ */
+async function measure(label: string, run: () => Promise<unknown>): Promise<void> {
+  // Warm up caches and plans before timing
+  await run();
+
+  const timings: number[] = [];
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = performance.now();
+    await run();
+    timings.push(performance.now() - start);
+  }
+
+  timings.sort((a, b) => a - b);
+  const percentile = (p: number) => timings[Math.min(timings.length - 1, Math.floor((p / 100) * timings.length))];
+  console.log(
+    `${label.padEnd(40)} p50 ${percentile(50).toFixed(1)}ms  p95 ${percentile(95).toFixed(1)}ms  max ${timings[timings.length - 1].toFixed(1)}ms`,
+  );
+}
+
+/**
+ * Fill the fleet with back-to-back trips: every ship flies a 2 hour leg every 6 hours,
+ * hopping between locations, with half of its schedule in the past and half ahead
+ */
+async function generateFleet(manager: EntityManager, now: Date): Promise<void> {
+  await manager.query(
+    `INSERT INTO locations (code, latitude, longitude)
+     SELECT 'Z' || chr(65 + n / 26) || chr(65 + n % 26), 25 + (n % 25), -120 + n
+     FROM generate_series(0, $1 - 1) AS n`,
+    [LOCATIONS],
+  );
+
+  await manager.query(
+    `INSERT INTO spaceships (id, name, current_location_code, seat_capacity)
+     SELECT 'BM-' || lpad(n::text, 5, '0'), 'Benchmark ' || n,
+            'Z' || chr(65 + (n % $2) / 26) || chr(65 + (n % $2) % 26), 4 + (n % 9)
+     FROM generate_series(0, $1 - 1) AS n`,
+    [SPACESHIPS, LOCATIONS],
+  );
+
+  await manager.query(
+    `INSERT INTO trips (spaceship_id, departure_location_code, destination_location_code, departure_at, arrival_at, status)
+     SELECT 'BM-' || lpad(s::text, 5, '0'),
+            'Z' || chr(65 + ((s + k) % $3) / 26) || chr(65 + ((s + k) % $3) % 26),
+            'Z' || chr(65 + ((s + k + 1) % $3) / 26) || chr(65 + ((s + k + 1) % $3) % 26),
+            $4::timestamptz + (k - $2 / 2) * INTERVAL '6 hours',
+            $4::timestamptz + (k - $2 / 2) * INTERVAL '6 hours' + INTERVAL '2 hours',
+            CASE WHEN k < $2 / 2 THEN 'COMPLETED' ELSE 'SCHEDULED' END
+     FROM generate_series(0, $1 - 1) AS s, generate_series(0, $2 - 1) AS k`,
+    [SPACESHIPS, TRIPS_PER_SPACESHIP, LOCATIONS, now],
+  );
+
+  await manager.query('ANALYZE locations');
+  await manager.query('ANALYZE spaceships');
+  await manager.query('ANALYZE trips');
+}
+
+async function benchmark() {
+  const dataSource = getDataSource();
+  await dataSource.initialize();
+
+  // Everything runs in one transaction that is rolled back, so the database is left untouched
+  const queryRunner = dataSource.createQueryRunner();
+  await queryRunner.connect();
+  await queryRunner.startTransaction();
+
+  try {
+    const manager = queryRunner.manager;
+    const availability = new SpaceshipAvailabilityService(dataSource, new ConfigService());
+    const now = new Date();
+
+    console.log(`⏳ Generating ${SPACESHIPS} spaceships and ${SPACESHIPS * TRIPS_PER_SPACESHIP} trips...`);
+    const generationStart = performance.now();
+    await generateFleet(manager, now);
+    console.log(`✅ Generated in ${((performance.now() - generationStart) / 1000).toFixed(1)}s`);
+    console.log(`📊 ${ITERATIONS} iterations per query\n`);
+
+    // Between two legs every ship has 4 idle hours, so a 1 hour flight fits in the gaps
+    const inGap = new Date(now.getTime() + 3 * HOUR_MS);
+
+    await measure('findCandidates at a location', () =>
+      availability.findCandidates({ locationCode: 'ZAB', earliestDeparture: inGap, durationMs: HOUR_MS }, manager),
+    );
+
+    await measure('findCandidates over the next 24h', () =>
+      availability.findCandidates(
+        {
+          locationCode: 'ZAB',
+          earliestDeparture: now,
+          latestDeparture: new Date(now.getTime() + 24 * HOUR_MS),
+          durationMs: HOUR_MS,
+          minSeats: 6,
+        },
+        manager,
+      ),
+    );
+
+    await measure('findCandidates earliest, open-ended', () =>
+      availability.findCandidates(
+        { locationCode: 'ZAB', earliestDeparture: now, latestDeparture: null, durationMs: 3 * HOUR_MS, limit: 1 },
+        manager,
+      ),
+    );
+
+    await measure('getIdleWindows for the fleet over 24h', () =>
+      availability.getIdleWindows({ start: now, end: new Date(now.getTime() + 24 * HOUR_MS) }, {}, manager),
+    );
+
+    await measure('getFleetPositions', () => availability.getFleetPositions(inGap, undefined, manager));
+  } catch (error) {
+    console.error('❌ Error running availability benchmark:', error);
+    process.exitCode = 1;
+  } finally {
+    await queryRunner.rollbackTransaction();
+    await queryRunner.release();
+    await dataSource.destroy();
+  }
+}
+
+void benchmark();
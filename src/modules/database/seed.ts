@@ -1,5 +1,7 @@
 import { Location } from '../../modules/location/location.entity';
 import { Spaceship } from '../../modules/spaceship/spaceship.entity';
+import { User, UserRole } from '../../modules/user/user.entity';
+import { PasswordHasher } from '../../modules/auth/password-hasher';
 import { getDataSource } from '../../config/database.config';
 
 async function seed() {
@@ -25,12 +27,28 @@ async function seed() {
     // Seed spaceships
     const spaceshipRepo = dataSource.getRepository(Spaceship);
     const spaceships = await spaceshipRepo.save([
-      { id: 'SS-001', name: 'Galactic Voyager', currentLocationCode: 'JFK' },
-      { id: 'SS-002', name: 'Star Hopper', currentLocationCode: 'JFK' },
-      { id: 'SS-003', name: 'Cosmic Cruiser', currentLocationCode: 'SFO' },
+      { id: 'SS-001', name: 'Galactic Voyager', currentLocationCode: 'JFK', seatCapacity: 12 },
+      { id: 'SS-002', name: 'Star Hopper', currentLocationCode: 'JFK', seatCapacity: 4 },
+      { id: 'SS-003', name: 'Cosmic Cruiser', currentLocationCode: 'SFO', seatCapacity: 8 },
     ]);
     console.log(`✅ Seeded ${spaceships.length} spaceships`);
 
+    // Seed the first admin, who can then promote operators through the API
+    const adminEmail = process.env.SEED_ADMIN_EMAIL?.toLowerCase();
+    const adminPassword = process.env.SEED_ADMIN_PASSWORD;
+    if (adminEmail && adminPassword) {
+      const userRepo = dataSource.getRepository(User);
+      const existing = await userRepo.findOne({ where: { email: adminEmail } });
+      await userRepo.save({
+        ...existing,
+        email: adminEmail,
+        name: existing?.name ?? 'Administrator',
+        passwordHash: await PasswordHasher.hash(adminPassword),
+        role: UserRole.ADMIN,
+      });
+      console.log(`✅ Seeded admin ${adminEmail}`);
+    }
+
     console.log('🎉 Database seeding completed!');
   } catch (error) {
     console.error('❌ Error seeding database:', error);
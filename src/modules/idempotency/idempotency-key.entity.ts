@@ -0,0 +1,75 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+export enum IdempotencyKeyStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED',
+}
+
+@Entity('idempotency_keys')
+@Index(['scope', 'key'], { unique: true }) // One record per key and endpoint
+@Index(['expiresAt']) // Optimize expiry sweeps
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique record identifier',
+  })
+  id: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    comment: 'Idempotency-Key header sent by the client',
+  })
+  key: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Endpoint the key was used on, e.g. POST /trips/request',
+  })
+  scope: string;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    comment: 'SHA-256 of the request body the key was first used with',
+  })
+  fingerprint: string;
+
+  @Column({
+    type: 'enum',
+    enum: IdempotencyKeyStatus,
+    default: IdempotencyKeyStatus.IN_PROGRESS,
+    comment: 'Whether the original request is still running',
+  })
+  status: IdempotencyKeyStatus;
+
+  @Column({
+    name: 'response_body',
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Body of the original response, replayed to retries',
+  })
+  responseBody: unknown;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'expires_at',
+    comment: 'Time after which the key can be reused',
+  })
+  expiresAt: Date;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Time the key was first seen',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
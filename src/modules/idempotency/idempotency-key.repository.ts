@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { IdempotencyKey } from '@/modules/idempotency/idempotency-key.entity';
+
+@Injectable()
+export class IdempotencyKeyRepository extends Repository<IdempotencyKey> {
+  constructor(private dataSource: DataSource) {
+    super(IdempotencyKey, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,57 @@
+import { BadRequestException, CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Response } from 'express';
+import { Observable, catchError, concatMap, from, of, switchMap, throwError } from 'rxjs';
+import { IdempotencyService } from './idempotency.service';
+import { AuthenticatedRequest } from '../auth/current-user.decorator';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Makes a POST endpoint safe to retry when the client sends an Idempotency-Key header
+ * The first request with a key runs and its response is stored; retries with the same body get that
+ * response back, retries with a different body get a 422 and concurrent duplicates get a 409.
+ * Keys are scoped to the caller, so two customers can never replay each other's responses.
+ * Requests without the header run as usual.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (key.length === 0 || key.length > 255) {
+      throw new BadRequestException(`${IDEMPOTENCY_KEY_HEADER} must be between 1 and 255 characters`);
+    }
+
+    const scope = `${request.method} ${request.path} ${request.user?.id ?? 'anonymous'}`;
+    const fingerprint = this.idempotencyService.fingerprint(request.body);
+
+    return from(this.idempotencyService.claim(scope, key, fingerprint)).pipe(
+      switchMap((claim) => {
+        if (claim.replay) {
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(claim.body);
+        }
+
+        // Only a failed request releases the key; once it has succeeded a retry must never run it again
+        return next.handle().pipe(
+          catchError((error: unknown) =>
+            from(this.idempotencyService.release(claim.recordId)).pipe(switchMap(() => throwError(() => error))),
+          ),
+          concatMap(async (body: unknown) => {
+            await this.idempotencyService.complete(claim.recordId, body);
+            return body;
+          }),
+        );
+      }),
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IdempotencyKey } from '@/modules/idempotency/idempotency-key.entity';
+import { IdempotencyKeyRepository } from '@/modules/idempotency/idempotency-key.repository';
+import { IdempotencyService } from '@/modules/idempotency/idempotency.service';
+import { IdempotencyInterceptor } from '@/modules/idempotency/idempotency.interceptor';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([IdempotencyKey])],
+  providers: [IdempotencyService, IdempotencyKeyRepository, IdempotencyInterceptor],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
@@ -0,0 +1,145 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { IdempotencyKey, IdempotencyKeyStatus } from './idempotency-key.entity';
+import { IdempotencyKeyRepository } from './idempotency-key.repository';
+import { IdempotencyService } from './idempotency.service';
+import { mockConfigService, mockQueryBuilder } from '@common/testing';
+
+describe('IdempotencyService', () => {
+  const scope = 'POST /trips user-1';
+  const key = 'key-1';
+
+  let service: IdempotencyService;
+  let inserted: { id: string }[][];
+  let existing: IdempotencyKey | null;
+  let builder: ReturnType<typeof mockQueryBuilder>;
+  let repository: { createQueryBuilder: jest.Mock; findOne: jest.Mock; delete: jest.Mock; update: jest.Mock };
+
+  beforeEach(async () => {
+    inserted = [];
+    existing = null;
+
+    // Each insert takes the next result; an empty one means the unique index turned it away
+    builder = mockQueryBuilder({ execute: () => ({ raw: inserted.shift() ?? [] }) });
+
+    repository = {
+      createQueryBuilder: jest.fn(() => builder),
+      findOne: jest.fn(() => Promise.resolve(existing)),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: IdempotencyKeyRepository, useValue: repository },
+        { provide: ConfigService, useValue: mockConfigService() },
+      ],
+    }).compile();
+
+    service = module.get(IdempotencyService);
+  });
+
+  const record = (overrides: Partial<IdempotencyKey>): IdempotencyKey =>
+    Object.assign(new IdempotencyKey(), {
+      id: 'record-1',
+      scope,
+      key,
+      fingerprint: 'fingerprint-1',
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseBody: { tripId: 'trip-1' },
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      ...overrides,
+    });
+
+  describe('claim', () => {
+    it('claims a key nobody has used yet', async () => {
+      inserted.push([{ id: 'record-1' }]);
+
+      await expect(service.claim(scope, key, 'fingerprint-1')).resolves.toEqual({
+        replay: false,
+        recordId: 'record-1',
+      });
+    });
+
+    it('replays the stored response for a retry with the same body', async () => {
+      existing = record({});
+
+      await expect(service.claim(scope, key, 'fingerprint-1')).resolves.toEqual({
+        replay: true,
+        body: { tripId: 'trip-1' },
+      });
+    });
+
+    it('answers 422 when the key was used with a different body', async () => {
+      existing = record({});
+
+      await expect(service.claim(scope, key, 'fingerprint-2')).rejects.toMatchObject({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+      });
+    });
+
+    it('leases a new claim for a few minutes only', async () => {
+      inserted.push([{ id: 'record-1' }]);
+
+      await service.claim(scope, key, 'fingerprint-1');
+
+      const [values] = builder.values.mock.calls[0] as [Partial<IdempotencyKey>];
+      expect(values.status).toBe(IdempotencyKeyStatus.IN_PROGRESS);
+      expect(values.expiresAt!.getTime()).toBeLessThanOrEqual(Date.now() + 5 * 60 * 1000);
+    });
+
+    it('answers 409 while the first request with the key is still running', async () => {
+      existing = record({ status: IdempotencyKeyStatus.IN_PROGRESS, responseBody: null });
+
+      await expect(service.claim(scope, key, 'fingerprint-1')).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+    });
+
+    it('claims an expired key afresh', async () => {
+      existing = record({ expiresAt: new Date(Date.now() - 1000) });
+      inserted.push([], [{ id: 'record-2' }]);
+
+      await expect(service.claim(scope, key, 'fingerprint-2')).resolves.toEqual({
+        replay: false,
+        recordId: 'record-2',
+      });
+      expect(repository.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('takes over a key left in progress once its lease has run out', async () => {
+      existing = record({ status: IdempotencyKeyStatus.IN_PROGRESS, responseBody: null, expiresAt: new Date() });
+      inserted.push([], [{ id: 'record-2' }]);
+
+      await expect(service.claim(scope, key, 'fingerprint-1')).resolves.toEqual({
+        replay: false,
+        recordId: 'record-2',
+      });
+    });
+
+    it('gives up with 409 when the key keeps changing hands', async () => {
+      await expect(service.claim(scope, key, 'fingerprint-1')).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+      expect(repository.createQueryBuilder).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it('completes a claim with the response to replay for the full key lifetime', async () => {
+    await service.complete('record-1', { tripId: 'trip-1' });
+
+    const [where, changes] = repository.update.mock.calls[0] as [unknown, Partial<IdempotencyKey>];
+    expect(where).toEqual({ id: 'record-1' });
+    expect(changes).toMatchObject({ status: IdempotencyKeyStatus.COMPLETED, responseBody: { tripId: 'trip-1' } });
+    expect(changes.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+  });
+
+  it('fingerprints bodies the same whatever the key order', () => {
+    expect(service.fingerprint({ seats: 2, route: { from: 'JFK', to: 'LAX' } })).toBe(
+      service.fingerprint({ route: { to: 'LAX', from: 'JFK' }, seats: 2, passengerName: undefined }),
+    );
+    expect(service.fingerprint({ seats: 2 })).not.toBe(service.fingerprint({ seats: 3 }));
+  });
+});
@@ -0,0 +1,137 @@
+import { ConflictException, Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { LessThanOrEqual } from 'typeorm';
+import { IdempotencyKey, IdempotencyKeyStatus } from './idempotency-key.entity';
+import { IdempotencyKeyRepository } from './idempotency-key.repository';
+import { DateUtils } from '@common/utils';
+
+export type IdempotencyClaim = { replay: false; recordId: string } | { replay: true; body: unknown };
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly keyTtlMs: number;
+  private readonly inProgressLeaseMs: number;
+
+  constructor(
+    private idempotencyKeyRepository: IdempotencyKeyRepository,
+    configService: ConfigService,
+  ) {
+    this.keyTtlMs = Number(configService.get<string>('IDEMPOTENCY_KEY_TTL_HOURS', '24')) * 60 * 60 * 1000;
+    this.inProgressLeaseMs =
+      Number(configService.get<string>('IDEMPOTENCY_IN_PROGRESS_LEASE_MINUTES', '5')) * 60 * 1000;
+  }
+
+  /**
+   * Claim a key for a request, or get the response the key already produced
+   * The unique (scope, key) index makes the claim atomic: of two concurrent requests only one inserts,
+   * the other sees the record still in progress and is turned away.
+   * A claim is only leased for a few minutes until it completes, so a key left in progress by a request that
+   * crashed or could not store its response is taken over afterwards instead of blocking retries for a day.
+   */
+  async claim(scope: string, key: string, fingerprint: string, attempt: number = 1): Promise<IdempotencyClaim> {
+    const result = await this.idempotencyKeyRepository
+      .createQueryBuilder()
+      .insert()
+      .into(IdempotencyKey)
+      .values({
+        scope,
+        key,
+        fingerprint,
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        expiresAt: DateUtils.addMilliseconds(new Date(), this.inProgressLeaseMs),
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    const [inserted] = result.raw as { id: string }[];
+    if (inserted) {
+      return { replay: false, recordId: inserted.id };
+    }
+
+    const existing = await this.idempotencyKeyRepository.findOne({ where: { scope, key } });
+
+    // The record expired, its lease ran out, or it was released between the insert and the lookup: claim it afresh
+    if (!existing || existing.expiresAt <= new Date()) {
+      if (existing) {
+        await this.idempotencyKeyRepository.delete({ id: existing.id, expiresAt: LessThanOrEqual(new Date()) });
+      }
+
+      if (attempt < 3) {
+        return this.claim(scope, key, fingerprint, attempt + 1);
+      }
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException('Idempotency-Key was already used with a different request body');
+    }
+
+    if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+      throw new ConflictException('A request with this Idempotency-Key is still being processed');
+    }
+
+    this.logger.log(`Replaying ${scope} for Idempotency-Key ${key}`);
+    return { replay: true, body: existing.responseBody };
+  }
+
+  /**
+   * Store the response of a claimed request so retries get it back for the full key lifetime
+   */
+  async complete(recordId: string, body: unknown): Promise<void> {
+    await this.idempotencyKeyRepository.update(
+      { id: recordId },
+      {
+        status: IdempotencyKeyStatus.COMPLETED,
+        responseBody: body as object,
+        expiresAt: DateUtils.addMilliseconds(new Date(), this.keyTtlMs),
+      },
+    );
+  }
+
+  /**
+   * Forget a claimed key whose request failed, so the client can retry it
+   */
+  async release(recordId: string): Promise<void> {
+    await this.idempotencyKeyRepository.delete({ id: recordId });
+  }
+
+  /**
+   * Hash a request body independently of key order
+   */
+  fingerprint(body: unknown): string {
+    return createHash('sha256').update(this.canonicalize(body)).digest('hex');
+  }
+
+  /**
+   * Purge expired keys
+   * Runs every hour
+   */
+  @Cron('0 * * * *')
+  async purgeExpiredKeys(): Promise<void> {
+    const result = await this.idempotencyKeyRepository.delete({ expiresAt: LessThanOrEqual(new Date()) });
+
+    if (result.affected) {
+      this.logger.log(`Purged ${result.affected} expired idempotency key(s)`);
+    }
+  }
+
+  private canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, item]) => `${JSON.stringify(name)}:${this.canonicalize(item)}`);
+      return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
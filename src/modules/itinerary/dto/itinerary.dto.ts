@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ItineraryLegDto {
+  @ApiProperty({ example: 0, description: 'Position of the leg, starting at 0' })
+  legIndex: number;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+    nullable: true,
+    description: 'Trip flown on this leg. Null for planned legs that will create a new trip.',
+  })
+  tripId: string | null;
+
+  @ApiProperty({ example: 'a3bb189e-8bf9-3888-9912-ace4e6543002', required: false })
+  bookingId?: string;
+
+  @ApiProperty({ example: 'SS-001' })
+  spaceshipId: string;
+
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'SFO' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T12:35:00.000Z' })
+  arrivalAt: string;
+
+  @ApiProperty({
+    example: 45,
+    required: false,
+    description: 'Minutes between arriving on the previous leg and departing on this one',
+  })
+  connectionMinutes?: number;
+
+  @ApiProperty({ example: 'SCHEDULED', required: false })
+  status?: string;
+
+  @ApiProperty({ example: 1250.5, required: false, description: 'Fare charged for the leg. Absent for plans.' })
+  fare?: number;
+}
+
+export class ItineraryDto {
+  @ApiProperty({
+    example: '9b2f6c1e-3f0a-4f55-8d5e-2b1f0c7e4a11',
+    required: false,
+    description: 'Itinerary ID. Absent for plans that have not been booked.',
+  })
+  itineraryId?: string;
+
+  @ApiProperty({ example: 'CONFIRMED', enum: ['PLANNED', 'PENDING_PAYMENT', 'CONFIRMED', 'CANCELLED'] })
+  status: string;
+
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T13:55:00.000Z' })
+  arrivalAt: string;
+
+  @ApiProperty({ example: 235 })
+  totalDurationMinutes: number;
+
+  @ApiProperty({ example: 1 })
+  seats: number;
+
+  @ApiProperty({
+    example: 3120.75,
+    required: false,
+    description: 'Total of the leg fares, paid in one go with POST /itineraries/:id/payment. Absent for plans.',
+  })
+  totalFare?: number;
+
+  @ApiProperty({ example: 'USD', required: false })
+  currency?: string;
+
+  @ApiProperty({
+    example: '2025-01-15T09:15:00.000Z',
+    nullable: true,
+    required: false,
+    description: 'Deadline for paying the itinerary; every leg is released once it passes. Null once paid.',
+  })
+  paymentDueAt?: string | null;
+
+  @ApiProperty({ type: [ItineraryLegDto] })
+  legs: ItineraryLegDto[];
+}
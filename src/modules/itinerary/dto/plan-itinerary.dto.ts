@@ -0,0 +1,3 @@
+import { RequestTripDto } from '@/modules/trip/dto/request-trip.dto';
+
+export class PlanItineraryDto extends RequestTripDto {}
@@ -0,0 +1,121 @@
+import { IdleWindow } from '@modules/spaceship/spaceship-availability.service';
+import { ItineraryPlanInput, planFastestLegs } from './itinerary-planner';
+
+const HOUR_MS = 60 * 60 * 1000;
+const departureAt = new Date('2030-01-15T10:00:00.000Z');
+const at = (hours: number) => new Date(departureAt.getTime() + hours * HOUR_MS);
+
+/**
+ * Every route takes two hours except the long haul between the coasts, which takes five
+ */
+const travelTimeMs = (from: string, to: string) =>
+  [from, to].sort().join('-') === 'JFK-LAX' ? 5 * HOUR_MS : 2 * HOUR_MS;
+
+const idleWindow = (spaceshipId: string, locationCode: string, overrides: Partial<IdleWindow> = {}): IdleWindow => ({
+  spaceshipId,
+  seatCapacity: 10,
+  locationCode,
+  idleFrom: null,
+  idleUntil: null,
+  ...overrides,
+});
+
+const plan = (overrides: Partial<ItineraryPlanInput>) =>
+  planFastestLegs({
+    origin: 'JFK',
+    destination: 'LAX',
+    departureAt,
+    locationCodes: ['JFK', 'LAX', 'ORD'],
+    maxLegs: 3,
+    minConnectionMs: HOUR_MS,
+    travelTimeMs,
+    joinableTrips: [],
+    idleWindows: [],
+    ...overrides,
+  });
+
+describe('planFastestLegs', () => {
+  it('flies direct on a new trip when a spaceship is idle at the origin', () => {
+    const legs = plan({ idleWindows: [idleWindow('ship-1', 'JFK')] });
+
+    expect(legs).toEqual([
+      {
+        departureLocationCode: 'JFK',
+        destinationLocationCode: 'LAX',
+        departureAt,
+        arrivalAt: at(5),
+        spaceshipId: 'ship-1',
+        tripId: null,
+      },
+    ]);
+  });
+
+  it('joins a trip with seats left when it leaves no later than a new one could', () => {
+    const legs = plan({
+      idleWindows: [idleWindow('ship-1', 'JFK', { idleFrom: at(1) })],
+      joinableTrips: [
+        {
+          id: 'trip-1',
+          spaceshipId: 'ship-2',
+          departureLocationCode: 'JFK',
+          destinationLocationCode: 'LAX',
+          departureAt: at(1),
+          arrivalAt: at(6),
+        },
+      ],
+    });
+
+    expect(legs).toMatchObject([{ tripId: 'trip-1', spaceshipId: 'ship-2', departureAt: at(1) }]);
+  });
+
+  it('connects through a hub when that arrives first, leaving the minimum connection time', () => {
+    const legs = plan({
+      idleWindows: [
+        idleWindow('ship-1', 'JFK', { idleUntil: at(3) }),
+        idleWindow('ship-2', 'ORD'),
+        idleWindow('ship-3', 'JFK', { idleFrom: at(4) }),
+      ],
+    });
+
+    expect(legs).toMatchObject([
+      { departureLocationCode: 'JFK', destinationLocationCode: 'ORD', spaceshipId: 'ship-1', arrivalAt: at(2) },
+      { departureLocationCode: 'ORD', destinationLocationCode: 'LAX', spaceshipId: 'ship-2', departureAt: at(3) },
+    ]);
+  });
+
+  it('skips idle windows too short for the flight', () => {
+    const legs = plan({
+      locationCodes: ['JFK', 'LAX'],
+      idleWindows: [
+        idleWindow('ship-1', 'JFK', { idleUntil: at(4) }),
+        idleWindow('ship-2', 'JFK', { idleFrom: at(6), idleUntil: at(11) }),
+      ],
+    });
+
+    expect(legs).toMatchObject([{ spaceshipId: 'ship-2', departureAt: at(6), arrivalAt: at(11) }]);
+  });
+
+  it('puts the smallest ship that fits on a new trip, then the one idle the longest', () => {
+    const legs = plan({
+      locationCodes: ['JFK', 'LAX'],
+      idleWindows: [
+        idleWindow('ship-big', 'JFK', { seatCapacity: 40 }),
+        idleWindow('ship-recent', 'JFK', { seatCapacity: 8, idleFrom: at(-1) }),
+        idleWindow('ship-parked', 'JFK', { seatCapacity: 8, idleFrom: at(-24) }),
+      ],
+    });
+
+    expect(legs).toMatchObject([{ spaceshipId: 'ship-parked' }]);
+  });
+
+  it('stops at the maximum number of legs', () => {
+    const idleWindows = [idleWindow('ship-1', 'JFK', { idleUntil: at(3) }), idleWindow('ship-2', 'ORD')];
+
+    expect(plan({ idleWindows, maxLegs: 2 })).toHaveLength(2);
+    expect(plan({ idleWindows, maxLegs: 1 })).toBeNull();
+  });
+
+  it('finds nothing when no spaceship can fly and no trip has seats', () => {
+    expect(plan({ idleWindows: [idleWindow('ship-1', 'LAX')] })).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { IdleWindow } from '@modules/spaceship/spaceship-availability.service';
+import { LegOptionDto } from '@modules/trip/dto/leg-option.dto';
+
+/**
+ * Everything an itinerary search needs, loaded once up front
+ * Joinable trips must already have the requested seats left and idle windows must fit the party.
+ */
+export interface ItineraryPlanInput {
+  origin: string;
+  destination: string;
+  departureAt: Date;
+  /** Locations a leg may start or end at, origin and destination included */
+  locationCodes: string[];
+  maxLegs: number;
+  minConnectionMs: number;
+  travelTimeMs: (fromCode: string, toCode: string) => number;
+  joinableTrips: {
+    id: string;
+    spaceshipId: string;
+    departureLocationCode: string;
+    destinationLocationCode: string;
+    departureAt: Date;
+    arrivalAt: Date;
+  }[];
+  idleWindows: IdleWindow[];
+}
+
+/**
+ * Fastest chain of legs from the origin to the destination, or null when there is none
+ * Runs rounds of a RAPTOR search: round n finds the earliest arrival at every location in at most n legs.
+ * Each leg is the earlier of a joinable trip and a new trip on the spaceship that can leave first,
+ * picked the way the availability query ranks candidates. Nothing is reserved; booking re-checks every leg.
+ */
+export function planFastestLegs(input: ItineraryPlanInput): LegOptionDto[] | null {
+  const tripsByRoute = new Map<string, ItineraryPlanInput['joinableTrips']>();
+  for (const trip of input.joinableTrips) {
+    const route = `${trip.departureLocationCode}-${trip.destinationLocationCode}`;
+    tripsByRoute.set(route, [...(tripsByRoute.get(route) ?? []), trip]);
+  }
+  for (const trips of tripsByRoute.values()) {
+    trips.sort((a, b) => a.departureAt.getTime() - b.departureAt.getTime());
+  }
+
+  const windowsByLocation = new Map<string, IdleWindow[]>();
+  for (const window of input.idleWindows) {
+    windowsByLocation.set(window.locationCode, [...(windowsByLocation.get(window.locationCode) ?? []), window]);
+  }
+
+  const findLeg = (from: string, to: string, readyAt: Date): LegOptionDto | null => {
+    const durationMs = input.travelTimeMs(from, to);
+    const trip = tripsByRoute.get(`${from}-${to}`)?.find((candidate) => candidate.departureAt >= readyAt);
+    const newTrip = earliestNewTrip(windowsByLocation.get(from) ?? [], readyAt, durationMs);
+
+    if (trip && (!newTrip || trip.departureAt <= newTrip.departureAt)) {
+      return {
+        departureLocationCode: from,
+        destinationLocationCode: to,
+        departureAt: trip.departureAt,
+        arrivalAt: trip.arrivalAt,
+        spaceshipId: trip.spaceshipId,
+        tripId: trip.id,
+      };
+    }
+
+    if (!newTrip) {
+      return null;
+    }
+
+    return {
+      departureLocationCode: from,
+      destinationLocationCode: to,
+      departureAt: newTrip.departureAt,
+      arrivalAt: new Date(newTrip.departureAt.getTime() + durationMs),
+      spaceshipId: newTrip.spaceshipId,
+      tripId: null,
+    };
+  };
+
+  type Label = { arrivalAt: Date; legs: LegOptionDto[] };
+  const best = new Map<string, Label>();
+  let frontier = new Map<string, Label>([[input.origin, { arrivalAt: input.departureAt, legs: [] }]]);
+
+  for (let round = 0; round < input.maxLegs && frontier.size > 0; round++) {
+    const improved = new Map<string, Label>();
+
+    for (const [from, label] of frontier) {
+      const readyAt =
+        label.legs.length === 0 ? input.departureAt : new Date(label.arrivalAt.getTime() + input.minConnectionMs);
+
+      for (const to of input.locationCodes) {
+        if (to === from || to === input.origin) continue;
+
+        const leg = findLeg(from, to, readyAt);
+        if (!leg) continue;
+
+        const current = best.get(to);
+        if (current && current.arrivalAt <= leg.arrivalAt) continue;
+
+        const candidate = { arrivalAt: leg.arrivalAt, legs: [...label.legs, leg] };
+        best.set(to, candidate);
+
+        if (to !== input.destination) {
+          improved.set(to, candidate);
+        }
+      }
+    }
+
+    frontier = improved;
+  }
+
+  return best.get(input.destination)?.legs ?? null;
+}
+
+/**
+ * Spaceship that can leave first from its idle window, smallest ship that fits and longest idle breaking ties
+ */
+function earliestNewTrip(
+  windows: IdleWindow[],
+  readyAt: Date,
+  durationMs: number,
+): { spaceshipId: string; departureAt: Date } | null {
+  let best: { window: IdleWindow; departureAt: Date } | null = null;
+
+  for (const window of windows) {
+    const departureAt = window.idleFrom && window.idleFrom > readyAt ? window.idleFrom : readyAt;
+    if (window.idleUntil && departureAt.getTime() + durationMs > window.idleUntil.getTime()) continue;
+
+    if (!best || compareCandidates({ window, departureAt }, best) < 0) {
+      best = { window, departureAt };
+    }
+  }
+
+  return best && { spaceshipId: best.window.spaceshipId, departureAt: best.departureAt };
+}
+
+function compareCandidates(
+  a: { window: IdleWindow; departureAt: Date },
+  b: { window: IdleWindow; departureAt: Date },
+): number {
+  return (
+    a.departureAt.getTime() - b.departureAt.getTime() ||
+    a.window.seatCapacity - b.window.seatCapacity ||
+    (a.window.idleFrom?.getTime() ?? -Infinity) - (b.window.idleFrom?.getTime() ?? -Infinity) ||
+    a.window.spaceshipId.localeCompare(b.window.spaceshipId)
+  );
+}
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiGoneResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { ItineraryService } from '@/modules/itinerary/itinerary.service';
+import { PlanItineraryDto } from '@/modules/itinerary/dto/plan-itinerary.dto';
+import { ItineraryDto } from '@/modules/itinerary/dto/itinerary.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { PayBookingDto } from '@/modules/payment/dto/pay-booking.dto';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { AuthenticatedUser, CurrentUser } from '@/modules/auth/current-user.decorator';
+
+@ApiTags('itineraries')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard)
+@Controller('itineraries')
+export class ItineraryController {
+  private readonly logger = new Logger(ItineraryController.name);
+
+  constructor(private readonly itineraryService: ItineraryService) {}
+
+  @Post('plan')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Plan an itinerary',
+    description:
+      'Finds the fastest arrival between two locations, connecting through intermediate spaceports when needed. Nothing is booked.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Fastest itinerary found',
+    type: ItineraryDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid request or no availability',
+    type: ErrorResponseDto,
+  })
+  async planItinerary(@Body() dto: PlanItineraryDto): Promise<ItineraryDto> {
+    this.logger.log(`POST /itineraries/plan - ${JSON.stringify(dto)}`);
+    return this.itineraryService.plan(dto);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Book an itinerary',
+    description:
+      'Plans the fastest itinerary and reserves every leg atomically. The legs await payment until paymentDueAt; pay for all of them with POST /itineraries/:id/payment or they are released together.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Itinerary booked',
+    type: ItineraryDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid request or no availability',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'A leg was taken while booking; plan again',
+    type: ErrorResponseDto,
+  })
+  async bookItinerary(@Body() dto: PlanItineraryDto, @CurrentUser() user: AuthenticatedUser): Promise<ItineraryDto> {
+    this.logger.log(`POST /itineraries - ${JSON.stringify(dto)}`);
+    return this.itineraryService.book(dto, user.id);
+  }
+
+  @Post(':id/payment')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pay for an itinerary',
+    description:
+      'Charges the fare of every leg to the payment method and confirms the whole itinerary. When a charge fails, the legs already charged are refunded and the itinerary keeps waiting for payment until its deadline.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Itinerary ID (UUID)',
+    example: '9b2f6c1e-3f0a-4f55-8d5e-2b1f0c7e4a11',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Every leg paid and the itinerary confirmed',
+    type: ItineraryDto,
+  })
+  @ApiResponse({
+    status: 402,
+    description: 'The gateway declined a payment',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Itinerary not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Itinerary is already paid, or another payment for it is in progress',
+    type: ErrorResponseDto,
+  })
+  @ApiGoneResponse({
+    description: 'The itinerary was released, before or while it was paid; payments already taken are refunded',
+    type: ErrorResponseDto,
+  })
+  async payItinerary(
+    @Param('id', new ParseUUIDPipe()) itineraryId: string,
+    @Body() dto: PayBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ItineraryDto> {
+    this.logger.log(`POST /itineraries/${itineraryId}/payment`);
+    return this.itineraryService.pay(itineraryId, dto, user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an itinerary with all of its legs' })
+  @ApiParam({
+    name: 'id',
+    description: 'Itinerary ID (UUID)',
+    example: '9b2f6c1e-3f0a-4f55-8d5e-2b1f0c7e4a11',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Itinerary retrieved',
+    type: ItineraryDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Itinerary not found',
+    type: ErrorResponseDto,
+  })
+  async getItinerary(
+    @Param('id', new ParseUUIDPipe()) itineraryId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ItineraryDto> {
+    this.logger.log(`GET /itineraries/${itineraryId}`);
+    return this.itineraryService.findById(itineraryId, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancel an itinerary',
+    description: 'Cancels the booking on every leg. Refused once any leg has departed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Itinerary ID (UUID)',
+    example: '9b2f6c1e-3f0a-4f55-8d5e-2b1f0c7e4a11',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Itinerary successfully cancelled',
+  })
+  @ApiBadRequestResponse({
+    description: 'Itinerary cannot be cancelled (already cancelled or a leg departed)',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Itinerary not found',
+    type: ErrorResponseDto,
+  })
+  async cancelItinerary(
+    @Param('id', new ParseUUIDPipe()) itineraryId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    this.logger.log(`DELETE /itineraries/${itineraryId}`);
+    await this.itineraryService.cancel(itineraryId, user.id);
+  }
+}
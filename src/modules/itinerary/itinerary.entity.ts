@@ -0,0 +1,101 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Booking } from '@modules/trip/booking.entity';
+import { User } from '@modules/user/user.entity';
+
+export enum ItineraryStatus {
+  PENDING_PAYMENT = 'PENDING_PAYMENT',
+  CONFIRMED = 'CONFIRMED',
+  CANCELLED = 'CANCELLED',
+}
+
+@Entity('itineraries')
+export class Itinerary {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique itinerary identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'departure_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Origin airport IATA code',
+  })
+  departureLocationCode: string;
+
+  @Column({
+    name: 'destination_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Final destination airport IATA code',
+  })
+  destinationLocationCode: string;
+
+  @Column({
+    name: 'passenger_name',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Name of the lead passenger',
+  })
+  passengerName: string | null;
+
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Number of seats reserved on every leg',
+  })
+  seats: number;
+
+  @Column({
+    type: 'enum',
+    enum: ItineraryStatus,
+    default: ItineraryStatus.CONFIRMED,
+    comment: 'Current status of the itinerary',
+  })
+  status: ItineraryStatus;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Customer account that owns the itinerary',
+  })
+  userId: string | null;
+
+  // Relations
+  @OneToMany(() => Booking, (booking) => booking.itinerary)
+  bookings: Booking[];
+
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Itinerary booking creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
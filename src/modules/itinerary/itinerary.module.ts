@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ItineraryController } from '@/modules/itinerary/itinerary.controller';
+import { ItineraryService } from '@/modules/itinerary/itinerary.service';
+import { Itinerary } from '@/modules/itinerary/itinerary.entity';
+import { ItineraryRepository } from '@/modules/itinerary/itinerary.repository';
+import { TripModule } from '@/modules/trip/trip.module';
+import { LocationModule } from '@/modules/location/location.module';
+import { PaymentModule } from '@/modules/payment/payment.module';
+import { SpaceshipModule } from '@/modules/spaceship/spaceship.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Itinerary]), TripModule, LocationModule, SpaceshipModule, PaymentModule],
+  controllers: [ItineraryController],
+  providers: [ItineraryService, ItineraryRepository],
+})
+export class ItineraryModule {}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { Itinerary } from '@/modules/itinerary/itinerary.entity';
+
+@Injectable()
+export class ItineraryRepository extends Repository<Itinerary> {
+  constructor(private dataSource: DataSource) {
+    super(Itinerary, dataSource.createEntityManager());
+  }
+}
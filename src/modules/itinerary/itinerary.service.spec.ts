@@ -0,0 +1,145 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { Payment, PaymentStatus } from '../payment/payment.entity';
+import { Location } from '../location/location.entity';
+import { LocationRepository } from '../location/location.repository';
+import { LocationService } from '../location/location.service';
+import { PaymentService } from '../payment/payment.service';
+import { IdleWindow } from '../spaceship/spaceship-availability.service';
+import { SpaceshipService } from '../spaceship/spaceship.service';
+import { Booking, BookingStatus } from '../trip/booking.entity';
+import { TripService } from '../trip/trip.service';
+import { Itinerary, ItineraryStatus } from './itinerary.entity';
+import { ItineraryRepository } from './itinerary.repository';
+import { ItineraryService } from './itinerary.service';
+import { mockConfigService, mockDataSource } from '@common/testing';
+
+describe('ItineraryService', () => {
+  const locations = [
+    { code: 'DEN', latitude: 39.8561, longitude: -104.6737 },
+    { code: 'JFK', latitude: 40.6413, longitude: -73.7781 },
+    { code: 'LAX', latitude: 33.9416, longitude: -118.4085 },
+    { code: 'MIA', latitude: 25.7959, longitude: -80.287 },
+    { code: 'ORD', latitude: 41.9742, longitude: -87.9073 },
+  ] as Location[];
+  const request = {
+    departureLocationCode: 'JFK',
+    destinationLocationCode: 'LAX',
+    departureAt: '2030-01-15T10:00:00.000Z',
+    seats: 2,
+  };
+
+  let service: ItineraryService;
+  let tripService: {
+    validateTripRequest: jest.Mock;
+    findJoinableTrips: jest.Mock;
+    startBookingPayment: jest.Mock;
+    settlePayment: jest.Mock;
+  };
+  let spaceshipService: { findIdleWindows: jest.Mock };
+  let paymentService: { capture: jest.Mock; abandon: jest.Mock; issueRefund: jest.Mock };
+  let manager: { findOne: jest.Mock; findOneOrFail: jest.Mock; find: jest.Mock; save: jest.Mock };
+
+  beforeEach(async () => {
+    tripService = {
+      validateTripRequest: jest.fn().mockResolvedValue(undefined),
+      findJoinableTrips: jest.fn().mockResolvedValue([]),
+      startBookingPayment: jest.fn(),
+      settlePayment: jest.fn(),
+    };
+    spaceshipService = { findIdleWindows: jest.fn().mockResolvedValue([]) };
+    paymentService = { capture: jest.fn(), abandon: jest.fn(), issueRefund: jest.fn().mockResolvedValue([]) };
+    manager = { findOne: jest.fn(), findOneOrFail: jest.fn(), find: jest.fn(), save: jest.fn() };
+
+    const settings: Record<string, string> = { MAX_ITINERARY_HUBS: '2' };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ItineraryService,
+        LocationService,
+        { provide: LocationRepository, useValue: { find: jest.fn().mockResolvedValue(locations) } },
+        { provide: ItineraryRepository, useValue: {} },
+        { provide: TripService, useValue: tripService },
+        { provide: SpaceshipService, useValue: spaceshipService },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: DataSource, useValue: mockDataSource(manager) },
+        { provide: ConfigService, useValue: mockConfigService(settings) },
+      ],
+    }).compile();
+
+    service = module.get(ItineraryService);
+  });
+
+  describe('plan', () => {
+    it('loads availability once for the endpoints and the best-placed hubs only', async () => {
+      const parked: IdleWindow = {
+        spaceshipId: 'ship-1',
+        seatCapacity: 4,
+        locationCode: 'JFK',
+        idleFrom: null,
+        idleUntil: null,
+      };
+      spaceshipService.findIdleWindows.mockResolvedValue([parked]);
+
+      const itinerary = await service.plan(request);
+
+      expect(tripService.findJoinableTrips).toHaveBeenCalledTimes(1);
+      expect(spaceshipService.findIdleWindows).toHaveBeenCalledTimes(1);
+      const [locationCodes, , seats] = tripService.findJoinableTrips.mock.calls[0] as [string[], Date, number];
+      expect([...locationCodes].sort()).toEqual(['DEN', 'JFK', 'LAX', 'ORD']);
+      expect(seats).toBe(2);
+
+      expect(itinerary.legs).toMatchObject([
+        { departureLocationCode: 'JFK', destinationLocationCode: 'LAX', spaceshipId: 'ship-1', tripId: null },
+      ]);
+    });
+
+    it('answers 400 when no spaceship or trip can take the party', async () => {
+      await expect(service.plan(request)).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+    });
+  });
+
+  describe('pay', () => {
+    const legs = [0, 1].map((legIndex) =>
+      Object.assign(new Booking(), {
+        id: `booking-${legIndex}`,
+        tripId: `trip-${legIndex}`,
+        legIndex,
+        status: BookingStatus.PENDING_PAYMENT,
+      }),
+    );
+    const claims = legs.map((booking) =>
+      Object.assign(new Payment(), { id: `payment-${booking.legIndex}`, bookingId: booking.id }),
+    );
+
+    beforeEach(() => {
+      const itinerary = Object.assign(new Itinerary(), { id: 'itinerary-1', status: ItineraryStatus.PENDING_PAYMENT });
+      manager.findOne.mockResolvedValue(itinerary);
+      manager.findOneOrFail.mockResolvedValue(itinerary);
+      manager.find.mockResolvedValue(legs);
+      tripService.startBookingPayment.mockImplementation((_manager: unknown, booking: Booking) =>
+        Promise.resolve(claims[booking.legIndex ?? 0]),
+      );
+      paymentService.capture.mockImplementation((payment: Payment) =>
+        Promise.resolve({ ...payment, status: PaymentStatus.CAPTURED }),
+      );
+    });
+
+    it('refunds every leg charged when the legs cannot be confirmed', async () => {
+      const conflict = new Error('could not serialize access');
+      tripService.settlePayment.mockRejectedValue(conflict);
+
+      await expect(service.pay('itinerary-1', { paymentMethod: 'tok_visa' }, 'user-1')).rejects.toBe(conflict);
+
+      const refunded = paymentService.issueRefund.mock.calls.map(
+        ([, bookingId, , options]: [unknown, string, string, { paymentId: string }]) => [bookingId, options.paymentId],
+      );
+      expect(refunded).toEqual([
+        ['booking-0', 'payment-0'],
+        ['booking-1', 'payment-1'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,519 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  GoneException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, In } from 'typeorm';
+import { Itinerary, ItineraryStatus } from './itinerary.entity';
+import { ItineraryRepository } from './itinerary.repository';
+import { PlanItineraryDto } from './dto/plan-itinerary.dto';
+import { ItineraryDto, ItineraryLegDto } from './dto/itinerary.dto';
+import { TripService } from '../trip/trip.service';
+import { LocationService } from '../location/location.service';
+import { LocationDto } from '../location/dto/location.dto';
+import { SpaceshipService } from '../spaceship/spaceship.service';
+import { LegOptionDto } from '../trip/dto/leg-option.dto';
+import { Booking, BookingStatus, SEAT_HOLDING_BOOKING_STATUSES } from '../trip/booking.entity';
+import { PaymentService } from '../payment/payment.service';
+import { Payment } from '../payment/payment.entity';
+import { PayBookingDto } from '../payment/dto/pay-booking.dto';
+import { DateUtils, TimeCalculator } from '@common/utils';
+import { planFastestLegs } from './itinerary-planner';
+
+@Injectable()
+export class ItineraryService {
+  private readonly logger = new Logger(ItineraryService.name);
+  private readonly minConnectionMs: number;
+  private readonly maxLegs: number;
+  private readonly maxHubs: number;
+
+  constructor(
+    private itineraryRepository: ItineraryRepository,
+    private tripService: TripService,
+    private locationService: LocationService,
+    private spaceshipService: SpaceshipService,
+    private paymentService: PaymentService,
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.minConnectionMs = Number(configService.get<string>('MIN_CONNECTION_MINUTES', '45')) * 60 * 1000;
+    this.maxLegs = Number(configService.get<string>('MAX_ITINERARY_LEGS', '3'));
+    this.maxHubs = Number(configService.get<string>('MAX_ITINERARY_HUBS', '8'));
+  }
+
+  /**
+   * Plan the fastest itinerary between two locations without booking it
+   */
+  async plan(dto: PlanItineraryDto): Promise<ItineraryDto> {
+    const legs = await this.findFastestLegs(dto);
+    return this.toDto(
+      {
+        status: 'PLANNED',
+        departureLocationCode: dto.departureLocationCode,
+        destinationLocationCode: dto.destinationLocationCode,
+        seats: dto.seats ?? 1,
+      },
+      legs.map((leg, index) => this.toLegDto(leg, index)),
+    );
+  }
+
+  /**
+   * Plan and book an itinerary
+   * Every leg is reserved in one transaction, so either all seats are booked or none are.
+   * The legs await payment until one shared deadline and are released together if it passes
+   */
+  async book(dto: PlanItineraryDto, userId: string): Promise<ItineraryDto> {
+    const legs = await this.findFastestLegs(dto);
+    const seats = dto.seats ?? 1;
+    const paymentDueAt = this.tripService.paymentDueAt(legs[0].departureAt);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const itinerary = await queryRunner.manager.save(
+        Itinerary,
+        this.itineraryRepository.create({
+          departureLocationCode: dto.departureLocationCode,
+          destinationLocationCode: dto.destinationLocationCode,
+          passengerName: dto.passengerName ?? null,
+          seats,
+          status: ItineraryStatus.PENDING_PAYMENT,
+          userId,
+        }),
+      );
+
+      const bookedLegs: ItineraryLegDto[] = [];
+      let currency: string | null = null;
+      for (const [legIndex, leg] of legs.entries()) {
+        const { trip, booking } = await this.tripService.reserveLeg(queryRunner.manager, leg, {
+          userId,
+          passengerName: itinerary.passengerName,
+          seats,
+          itineraryId: itinerary.id,
+          legIndex,
+          paymentDueAt,
+        });
+
+        bookedLegs.push({
+          ...this.toLegDto(leg, legIndex),
+          tripId: trip.id,
+          bookingId: booking.id,
+          status: trip.status,
+          fare: Number(booking.fareAmount),
+        });
+        currency = booking.fareCurrency;
+      }
+
+      await queryRunner.commitTransaction();
+
+      this.logger.log(`Itinerary ${itinerary.id} booked with ${bookedLegs.length} leg(s)`);
+
+      return this.toDto({ ...itinerary, itineraryId: itinerary.id, paymentDueAt, currency }, bookedLegs);
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async findById(itineraryId: string, userId: string): Promise<ItineraryDto> {
+    const itinerary = await this.itineraryRepository.findOne({
+      where: { id: itineraryId, userId },
+      relations: ['bookings', 'bookings.trip'],
+    });
+
+    if (!itinerary) {
+      throw new NotFoundException('Itinerary not found');
+    }
+
+    const legs = [...itinerary.bookings]
+      .sort((a, b) => (a.legIndex ?? 0) - (b.legIndex ?? 0))
+      .map((booking) => ({
+        legIndex: booking.legIndex ?? 0,
+        tripId: booking.tripId,
+        bookingId: booking.id,
+        spaceshipId: booking.trip.spaceshipId,
+        departureLocationCode: booking.trip.departureLocationCode,
+        destinationLocationCode: booking.trip.destinationLocationCode,
+        departureAt: booking.trip.departureAt.toISOString(),
+        arrivalAt: booking.trip.arrivalAt.toISOString(),
+        status: booking.status === BookingStatus.CANCELLED ? BookingStatus.CANCELLED : booking.trip.status,
+        fare: booking.fareAmount === null ? undefined : Number(booking.fareAmount),
+      }));
+    const paymentDueAt =
+      itinerary.status === ItineraryStatus.PENDING_PAYMENT
+        ? (itinerary.bookings.find((booking) => booking.paymentDueAt)?.paymentDueAt ?? null)
+        : null;
+
+    const currency = itinerary.bookings.find((booking) => booking.fareCurrency)?.fareCurrency ?? null;
+
+    return this.toDto({ ...itinerary, itineraryId: itinerary.id, paymentDueAt, currency }, legs);
+  }
+
+  /**
+   * Pay for every leg of an itinerary awaiting payment
+   * Each leg is charged its own fare, so a leg cancelled later is refunded like any other booking. All legs are
+   * claimed before the gateway is called; when a charge fails the legs already charged are refunded, and when the
+   * itinerary was released while paying, or the legs could not be confirmed, every charge is refunded
+   */
+  async pay(itineraryId: string, dto: PayBookingDto, userId: string): Promise<ItineraryDto> {
+    const payments = await this.claimLegPayments(itineraryId, userId);
+
+    const captured: Payment[] = [];
+    try {
+      for (const payment of payments) {
+        captured.push(await this.paymentService.capture(payment, dto.paymentMethod));
+      }
+    } catch (error) {
+      await this.abortLegPayments(payments, captured);
+      throw error;
+    }
+
+    let released: HttpException | null;
+    try {
+      released = await this.settleLegPayments(itineraryId, payments, userId);
+    } catch (error) {
+      await this.abortLegPayments(payments, captured, 'The itinerary could not be confirmed');
+      throw error;
+    }
+
+    if (released) {
+      throw released;
+    }
+
+    this.logger.log(`Itinerary ${itineraryId} paid with ${payments.length} payment(s)`);
+    return this.findById(itineraryId, userId);
+  }
+
+  /**
+   * Cancel every leg of an itinerary in one transaction
+   */
+  async cancel(itineraryId: string, userId: string): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const itinerary = await queryRunner.manager.findOne(Itinerary, {
+        where: { id: itineraryId, userId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!itinerary) {
+        throw new NotFoundException('Itinerary not found');
+      }
+
+      if (itinerary.status === ItineraryStatus.CANCELLED) {
+        throw new BadRequestException('Itinerary is already cancelled');
+      }
+
+      const bookings = await queryRunner.manager.find(Booking, {
+        where: { itineraryId, status: In(SEAT_HOLDING_BOOKING_STATUSES) },
+        order: { legIndex: 'ASC' },
+      });
+
+      for (const booking of bookings) {
+        await this.tripService.releaseBooking(queryRunner.manager, booking, userId);
+      }
+
+      itinerary.status = ItineraryStatus.CANCELLED;
+      await queryRunner.manager.save(Itinerary, itinerary);
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Itinerary ${itineraryId} cancelled successfully`);
+  }
+
+  /**
+   * Claim every unpaid leg of an itinerary for payment
+   * Read committed like a single booking's claim, so a concurrent attempt sees the claims once it gets the lock
+   */
+  private async claimLegPayments(itineraryId: string, userId: string): Promise<Payment[]> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const itinerary = await queryRunner.manager.findOne(Itinerary, {
+        where: { id: itineraryId, userId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!itinerary) {
+        throw new NotFoundException('Itinerary not found');
+      }
+
+      if (itinerary.status === ItineraryStatus.CONFIRMED) {
+        throw new ConflictException('Itinerary is already paid');
+      }
+
+      if (itinerary.status === ItineraryStatus.CANCELLED) {
+        throw new GoneException('The itinerary was cancelled or its payment deadline has passed');
+      }
+
+      const bookings = await queryRunner.manager.find(Booking, {
+        where: { itineraryId, status: BookingStatus.PENDING_PAYMENT },
+        order: { legIndex: 'ASC' },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const payments: Payment[] = [];
+      for (const booking of bookings) {
+        payments.push(await this.tripService.startBookingPayment(queryRunner.manager, booking));
+      }
+
+      await queryRunner.commitTransaction();
+      return payments;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Undo a partly taken itinerary payment: refund the legs already charged and drop the claims not yet sent
+   * The leg whose charge failed was already marked FAILED by the payment service
+   */
+  private async abortLegPayments(
+    payments: Payment[],
+    captured: Payment[],
+    reason = 'Another leg of the itinerary could not be charged',
+  ): Promise<void> {
+    for (const payment of payments.slice(captured.length + 1)) {
+      await this.paymentService.abandon(payment, reason);
+    }
+
+    if (captured.length === 0) {
+      return;
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      for (const payment of captured) {
+        await this.paymentService.issueRefund(queryRunner.manager, payment.bookingId, reason, {
+          paymentId: payment.id,
+        });
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Confirm every leg once all of them are charged, unless the itinerary was released in the meantime
+   * A released itinerary has its remaining legs released and every charge refunded; the error to raise after
+   * committing is returned
+   */
+  private async settleLegPayments(
+    itineraryId: string,
+    payments: Payment[],
+    userId: string,
+  ): Promise<HttpException | null> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const manager = queryRunner.manager;
+      const itinerary = await manager.findOneOrFail(Itinerary, {
+        where: { id: itineraryId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const bookings = await manager.find(Booking, {
+        where: { id: In(payments.map((payment) => payment.bookingId)) },
+        order: { legIndex: 'ASC' },
+      });
+
+      let released: HttpException | null = null;
+      if (
+        itinerary.status === ItineraryStatus.PENDING_PAYMENT &&
+        bookings.every((booking) => booking.status === BookingStatus.PENDING_PAYMENT)
+      ) {
+        for (const booking of bookings) {
+          const payment = payments.find((candidate) => candidate.bookingId === booking.id);
+          if (payment) {
+            await this.tripService.settlePayment(manager, booking.tripId, booking.id, payment, userId);
+          }
+        }
+
+        itinerary.status = ItineraryStatus.CONFIRMED;
+      } else {
+        for (const booking of bookings) {
+          const payment = payments.find((candidate) => candidate.bookingId === booking.id);
+          if (booking.status === BookingStatus.CANCELLED) {
+            if (payment) {
+              await this.paymentService.issueRefund(manager, booking.id, 'Paid after the itinerary was released', {
+                paymentId: payment.id,
+              });
+            }
+          } else {
+            // Refunds whatever was paid for the leg
+            await this.tripService.releaseBooking(manager, booking, userId, undefined, {
+              waiveFee: true,
+              reason: 'Itinerary released while it was being paid',
+            });
+          }
+        }
+
+        itinerary.status = ItineraryStatus.CANCELLED;
+        released = new GoneException(
+          'The itinerary was released while the payment was being taken; the payments will be refunded',
+        );
+      }
+
+      await manager.save(Itinerary, itinerary);
+      await queryRunner.commitTransaction();
+      return released;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Earliest-arrival search over the location graph
+   * Loads the joinable trips and idle spaceships once and plans in memory, so the cost of a search
+   * does not grow with the number of routes it tries. Stops are limited to the best-placed hubs.
+   */
+  private async findFastestLegs(dto: PlanItineraryDto): Promise<LegOptionDto[]> {
+    await this.tripService.validateTripRequest(dto);
+
+    const origin = dto.departureLocationCode;
+    const destination = dto.destinationLocationCode;
+    const requestedDeparture = DateUtils.parseISOString(dto.departureAt);
+    const seats = dto.seats ?? 1;
+
+    const hubs = this.candidateHubs(await this.locationService.findAll(), origin, destination);
+    const locationCodes = hubs.map((location) => location.code);
+    const [joinableTrips, idleWindows] = await Promise.all([
+      this.tripService.findJoinableTrips(locationCodes, requestedDeparture, seats),
+      this.spaceshipService.findIdleWindows(requestedDeparture, seats),
+    ]);
+
+    const locations = new Map(hubs.map((location) => [location.code, location]));
+    const travelTimes = new Map<string, number>();
+    const legs = planFastestLegs({
+      origin,
+      destination,
+      departureAt: requestedDeparture,
+      locationCodes,
+      maxLegs: this.maxLegs,
+      minConnectionMs: this.minConnectionMs,
+      travelTimeMs: (from, to) => {
+        const route = `${from}-${to}`;
+        if (!travelTimes.has(route)) {
+          const distance = this.locationService.distanceBetween(locations.get(from)!, locations.get(to)!);
+          travelTimes.set(route, TimeCalculator.calculateTravelTime(distance));
+        }
+        return travelTimes.get(route)!;
+      },
+      joinableTrips,
+      idleWindows,
+    });
+
+    if (!legs) {
+      throw new BadRequestException('No itinerary available for this route. All spaceships are fully booked.');
+    }
+
+    this.logger.log(
+      `Planned ${origin} -> ${destination} in ${legs.length} leg(s), arriving ${legs[legs.length - 1].arrivalAt.toISOString()}`,
+    );
+    return legs;
+  }
+
+  /**
+   * The origin, the destination and the locations that add the least distance as a stop between them
+   * Bounds the search, so it stays fast however many locations there are
+   */
+  private candidateHubs(locations: LocationDto[], origin: string, destination: string): LocationDto[] {
+    const from = locations.find((location) => location.code === origin)!;
+    const to = locations.find((location) => location.code === destination)!;
+    const detour = (location: LocationDto) =>
+      this.locationService.distanceBetween(from, location) + this.locationService.distanceBetween(location, to);
+
+    const stops = locations
+      .filter((location) => location.code !== origin && location.code !== destination)
+      .sort((a, b) => detour(a) - detour(b))
+      .slice(0, this.maxHubs);
+
+    return [from, to, ...stops];
+  }
+
+  private toLegDto(leg: LegOptionDto, legIndex: number): ItineraryLegDto {
+    return {
+      legIndex,
+      tripId: leg.tripId,
+      spaceshipId: leg.spaceshipId,
+      departureLocationCode: leg.departureLocationCode,
+      destinationLocationCode: leg.destinationLocationCode,
+      departureAt: leg.departureAt.toISOString(),
+      arrivalAt: leg.arrivalAt.toISOString(),
+    };
+  }
+
+  private toDto(
+    itinerary: {
+      itineraryId?: string;
+      status: string;
+      departureLocationCode: string;
+      destinationLocationCode: string;
+      seats: number;
+      paymentDueAt?: Date | null;
+      currency?: string | null;
+    },
+    legs: ItineraryLegDto[],
+  ): ItineraryDto {
+    for (let i = 1; i < legs.length; i++) {
+      const connectionMs = new Date(legs[i].departureAt).getTime() - new Date(legs[i - 1].arrivalAt).getTime();
+      legs[i].connectionMinutes = Math.round(connectionMs / 60000);
+    }
+
+    const departureAt = legs[0]?.departureAt ?? '';
+    const arrivalAt = legs[legs.length - 1]?.arrivalAt ?? '';
+
+    return {
+      itineraryId: itinerary.itineraryId,
+      status: itinerary.status,
+      departureLocationCode: itinerary.departureLocationCode,
+      destinationLocationCode: itinerary.destinationLocationCode,
+      departureAt,
+      arrivalAt,
+      totalDurationMinutes: legs.length
+        ? Math.round((new Date(arrivalAt).getTime() - new Date(departureAt).getTime()) / 60000)
+        : 0,
+      seats: itinerary.seats,
+      totalFare: legs.every((leg) => leg.fare !== undefined)
+        ? Math.round(legs.reduce((total, leg) => total + (leg.fare ?? 0) * 100, 0)) / 100
+        : undefined,
+      currency: itinerary.currency ?? undefined,
+      paymentDueAt: itinerary.paymentDueAt === undefined ? undefined : (itinerary.paymentDueAt?.toISOString() ?? null),
+      legs,
+    };
+  }
+}
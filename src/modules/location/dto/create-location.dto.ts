@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsLatitude, IsLongitude, IsString, Matches } from 'class-validator';
+
+export class CreateLocationDto {
+  @ApiProperty({
+    example: 'ORD',
+    description: 'IATA code of the spaceport',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsString()
+  @Matches(/^[A-Za-z]{3}$/, { message: 'Location code must be exactly 3 letters' })
+  code: string;
+
+  @ApiProperty({ example: 41.9742, minimum: -90, maximum: 90 })
+  @IsLatitude({ message: 'Latitude must be between -90 and 90' })
+  latitude: number;
+
+  @ApiProperty({ example: -87.9073, minimum: -180, maximum: 180 })
+  @IsLongitude({ message: 'Longitude must be between -180 and 180' })
+  longitude: number;
+}
@@ -1,6 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
 export class DistanceCalculationDto {
+  @ApiProperty({ example: 'JFK' })
   fromCode: string;
+
+  @ApiProperty({ example: 'LAX' })
   toCode: string;
+
+  @ApiProperty({ example: 2475.79 })
   distanceMiles: number;
+
+  @ApiProperty({ example: 149 })
   estimatedTravelTimeMinutes: number;
 }
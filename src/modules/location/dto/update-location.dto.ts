@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsLatitude, IsLongitude, IsOptional } from 'class-validator';
+
+export class UpdateLocationDto {
+  @ApiProperty({ example: 41.9742, minimum: -90, maximum: 90, required: false })
+  @IsOptional()
+  @IsLatitude({ message: 'Latitude must be between -90 and 90' })
+  latitude?: number;
+
+  @ApiProperty({ example: -87.9073, minimum: -180, maximum: 180, required: false })
+  @IsOptional()
+  @IsLongitude({ message: 'Longitude must be between -180 and 180' })
+  longitude?: number;
+}
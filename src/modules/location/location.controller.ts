@@ -0,0 +1,199 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+} from '@nestjs/swagger';
+import { LocationService } from '@modules/location/location.service';
+import { LocationDto } from '@modules/location/dto/location.dto';
+import { CreateLocationDto } from '@modules/location/dto/create-location.dto';
+import { UpdateLocationDto } from '@modules/location/dto/update-location.dto';
+import { DistanceCalculationDto } from '@modules/location/dto/distance-calculation.dto';
+import { ErrorResponseDto } from '@modules/trip/dto/trip-response.dto';
+import { UserRole } from '@modules/user/user.entity';
+import { JwtAuthGuard } from '@modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@modules/auth/roles.guard';
+import { Roles } from '@modules/auth/roles.decorator';
+
+@ApiTags('locations')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('locations')
+export class LocationController {
+  private readonly logger = new Logger(LocationController.name);
+
+  constructor(private readonly locationService: LocationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List locations' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of locations',
+    type: [LocationDto],
+  })
+  async getAllLocations(): Promise<LocationDto[]> {
+    this.logger.log('GET /locations');
+    return this.locationService.findAll();
+  }
+
+  @Get(':code')
+  @ApiOperation({ summary: 'Get a location' })
+  @ApiParam({ name: 'code', description: 'IATA code', example: 'JFK' })
+  @ApiResponse({
+    status: 200,
+    description: 'Location retrieved',
+    type: LocationDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Location not found',
+    type: ErrorResponseDto,
+  })
+  async getLocation(@Param('code') code: string): Promise<LocationDto> {
+    this.logger.log(`GET /locations/${code}`);
+    return this.locationService.findOne(code);
+  }
+
+  @Get(':code/distances')
+  @ApiOperation({
+    summary: 'Get distances from a location',
+    description: 'Returns the distance and estimated travel time to every other location, nearest first',
+  })
+  @ApiParam({ name: 'code', description: 'IATA code', example: 'JFK' })
+  @ApiResponse({
+    status: 200,
+    description: 'Distances from the location',
+    type: [DistanceCalculationDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Location not found',
+    type: ErrorResponseDto,
+  })
+  async getDistancesFrom(@Param('code') code: string): Promise<DistanceCalculationDto[]> {
+    this.logger.log(`GET /locations/${code}/distances`);
+    return this.locationService.getDistancesFrom(code);
+  }
+
+  @Get(':from/distance/:to')
+  @ApiOperation({
+    summary: 'Get distance between two locations',
+    description: 'Returns the great-circle distance and estimated travel time',
+  })
+  @ApiParam({ name: 'from', description: 'IATA code of the origin', example: 'JFK' })
+  @ApiParam({ name: 'to', description: 'IATA code of the destination', example: 'LAX' })
+  @ApiResponse({
+    status: 200,
+    description: 'Distance between the locations',
+    type: DistanceCalculationDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Location not found',
+    type: ErrorResponseDto,
+  })
+  async getDistance(@Param('from') fromCode: string, @Param('to') toCode: string): Promise<DistanceCalculationDto> {
+    this.logger.log(`GET /locations/${fromCode}/distance/${toCode}`);
+    return this.locationService.calculateDistance(fromCode, toCode);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a location' })
+  @ApiResponse({
+    status: 201,
+    description: 'Location created',
+    type: LocationDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid code or coordinates',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'A location with this code already exists',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only admins can manage locations',
+    type: ErrorResponseDto,
+  })
+  async createLocation(@Body() dto: CreateLocationDto): Promise<LocationDto> {
+    this.logger.log(`POST /locations - ${JSON.stringify(dto)}`);
+    return this.locationService.create(dto);
+  }
+
+  @Patch(':code')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update location coordinates' })
+  @ApiParam({ name: 'code', description: 'IATA code', example: 'JFK' })
+  @ApiResponse({
+    status: 200,
+    description: 'Location updated',
+    type: LocationDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid coordinates',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Location not found',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only admins can manage locations',
+    type: ErrorResponseDto,
+  })
+  async updateLocation(@Param('code') code: string, @Body() dto: UpdateLocationDto): Promise<LocationDto> {
+    this.logger.log(`PATCH /locations/${code} - ${JSON.stringify(dto)}`);
+    return this.locationService.update(code, dto);
+  }
+
+  @Delete(':code')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a location',
+    description: 'Deletes a location that no spaceship or trip refers to',
+  })
+  @ApiParam({ name: 'code', description: 'IATA code', example: 'JFK' })
+  @ApiResponse({
+    status: 204,
+    description: 'Location deleted',
+  })
+  @ApiNotFoundResponse({
+    description: 'Location not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Location is referenced by spaceships or trips',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only admins can manage locations',
+    type: ErrorResponseDto,
+  })
+  async deleteLocation(@Param('code') code: string): Promise<void> {
+    this.logger.log(`DELETE /locations/${code}`);
+    await this.locationService.remove(code);
+  }
+}
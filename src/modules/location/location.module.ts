@@ -3,9 +3,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { LocationService } from '@modules/location/location.service';
 import { Location } from '@modules/location/location.entity';
 import { LocationRepository } from '@modules/location/location.repository';
+import { LocationController } from '@modules/location/location.controller';
 
 @Module({
   imports: [TypeOrmModule.forFeature([Location])],
+  controllers: [LocationController],
   providers: [LocationService, LocationRepository],
   exports: [LocationService],
 })
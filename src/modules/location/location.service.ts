@@ -1,13 +1,19 @@
 // src/modules/location/location.service.ts
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { Location } from './location.entity';
 import { LocationDto } from './dto/location.dto';
 import { DistanceCalculationDto } from './dto/distance-calculation.dto';
+import { CreateLocationDto } from './dto/create-location.dto';
+import { UpdateLocationDto } from './dto/update-location.dto';
+import { Spaceship } from '../spaceship/spaceship.entity';
+import { Trip } from '../trip/trip.entity';
 import { DistanceCalculator, TimeCalculator } from '@common/utils';
 import { LocationRepository } from './location.repository';
 
 @Injectable()
 export class LocationService {
+  private readonly logger = new Logger(LocationService.name);
+
   constructor(private locationRepository: LocationRepository) {}
 
   async findAll(): Promise<LocationDto[]> {
@@ -15,7 +21,11 @@ export class LocationService {
       order: { code: 'ASC' },
     });
 
-    return locations.map(this.toDto);
+    return locations.map((location) => this.toDto(location));
+  }
+
+  async findOne(code: string): Promise<LocationDto> {
+    return this.toDto(await this.findByCode(code));
   }
 
   async findByCode(code: string): Promise<Location> {
@@ -65,13 +75,7 @@ export class LocationService {
     }
 
     const [fromLocation, toLocation] = await Promise.all([this.findByCode(fromCode), this.findByCode(toCode)]);
-
-    const distance = DistanceCalculator.calculateDistance(
-      Number(fromLocation.latitude),
-      Number(fromLocation.longitude),
-      Number(toLocation.latitude),
-      Number(toLocation.longitude),
-    );
+    const distance = this.distanceBetween(this.toDto(fromLocation), this.toDto(toLocation));
 
     return {
       fromCode: fromLocation.code,
@@ -81,6 +85,16 @@ export class LocationService {
     };
   }
 
+  /**
+   * Distance in miles between two locations already loaded, without touching the database
+   */
+  distanceBetween(from: LocationDto, to: LocationDto): number {
+    return (
+      DistanceCalculator.getPreCalculatedDistance(from.code, to.code) ??
+      DistanceCalculator.calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude)
+    );
+  }
+
   async getDistancesFrom(fromCode: string): Promise<DistanceCalculationDto[]> {
     const fromLocation = await this.findByCode(fromCode);
     const allLocations = await this.locationRepository.find();
@@ -98,6 +112,72 @@ export class LocationService {
     return distances.sort((a, b) => a.distanceMiles - b.distanceMiles);
   }
 
+  /**
+   * Other locations within a radius of a location, nearest first
+   */
+  async getNearbyLocations(fromCode: string, radiusMiles: number): Promise<DistanceCalculationDto[]> {
+    const distances = await this.getDistancesFrom(fromCode);
+    return distances.filter((distance) => distance.distanceMiles <= radiusMiles);
+  }
+
+  async create(dto: CreateLocationDto): Promise<LocationDto> {
+    const code = dto.code.toUpperCase();
+
+    if (await this.exists(code)) {
+      throw new ConflictException(`Location with code ${code} already exists`);
+    }
+
+    const location = await this.locationRepository.save(
+      this.locationRepository.create({
+        code,
+        latitude: dto.latitude,
+        longitude: dto.longitude,
+      }),
+    );
+
+    this.logger.log(`Location ${code} created`);
+    return this.toDto(location);
+  }
+
+  async update(code: string, dto: UpdateLocationDto): Promise<LocationDto> {
+    const location = await this.findByCode(code);
+
+    if (dto.latitude !== undefined) {
+      location.latitude = dto.latitude;
+    }
+
+    if (dto.longitude !== undefined) {
+      location.longitude = dto.longitude;
+    }
+
+    return this.toDto(await this.locationRepository.save(location));
+  }
+
+  /**
+   * Delete a location
+   * Refused while any spaceship is based there or any trip departs from or arrives at it
+   */
+  async remove(code: string): Promise<void> {
+    const location = await this.findByCode(code);
+    const manager = this.locationRepository.manager;
+
+    const [spaceshipCount, tripCount] = await Promise.all([
+      manager.count(Spaceship, { where: { currentLocationCode: location.code } }),
+      manager.count(Trip, {
+        where: [{ departureLocationCode: location.code }, { destinationLocationCode: location.code }],
+      }),
+    ]);
+
+    if (spaceshipCount > 0 || tripCount > 0) {
+      throw new ConflictException(
+        `Location ${location.code} is referenced by ${spaceshipCount} spaceship(s) and ${tripCount} trip(s) and cannot be deleted`,
+      );
+    }
+
+    await this.locationRepository.delete({ code: location.code });
+    this.logger.log(`Location ${location.code} deleted`);
+  }
+
   private toDto(location: Location): LocationDto {
     return {
       code: location.code,
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class PayBookingDto {
+  @ApiProperty({
+    example: 'tok_visa',
+    description:
+      'Payment method token from the gateway. The fake gateway declines tok_declined and tok_insufficient_funds and approves anything else',
+    maxLength: 255,
+  })
+  @IsString()
+  @Length(1, 255)
+  paymentMethod: string;
+}
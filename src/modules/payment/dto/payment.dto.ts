@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentStatus } from '@/modules/payment/payment.entity';
+import { RefundStatus } from '@/modules/payment/refund.entity';
+
+export class RefundDto {
+  @ApiProperty({ example: '6f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0' })
+  id: string;
+
+  @ApiProperty({ example: 443.23 })
+  amount: number;
+
+  @ApiProperty({ example: 'Cancelled by the customer' })
+  reason: string;
+
+  @ApiProperty({ enum: RefundStatus, example: RefundStatus.SUCCEEDED })
+  status: RefundStatus;
+
+  @ApiProperty({ example: '2025-01-10T08:00:30.000Z', nullable: true, description: 'Time the gateway accepted it' })
+  refundedAt: string | null;
+
+  @ApiProperty({ example: '2025-01-10T08:00:00.000Z' })
+  createdAt: string;
+}
+
+export class PaymentDto {
+  @ApiProperty({ example: '0b9c8d7e-6f5a-4b3c-9d2e-1f0a9b8c7d6e' })
+  id: string;
+
+  @ApiProperty({ example: 'a3bb189e-8bf9-3888-9912-ace4e6543002' })
+  bookingId: string;
+
+  @ApiProperty({ example: 886.45 })
+  amount: number;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ enum: PaymentStatus, example: PaymentStatus.CAPTURED })
+  status: PaymentStatus;
+
+  @ApiProperty({ example: 'fake', description: 'Gateway the payment went through' })
+  gateway: string;
+
+  @ApiProperty({ example: 0, description: 'Total of the refunds issued so far' })
+  refundedAmount: number;
+
+  @ApiProperty({ example: null, nullable: true, description: 'Why the gateway refused the payment' })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2025-01-09T14:00:05.000Z', nullable: true })
+  capturedAt: string | null;
+
+  @ApiProperty({ type: [RefundDto] })
+  refunds: RefundDto[];
+
+  @ApiProperty({ example: '2025-01-09T14:00:00.000Z' })
+  createdAt: string;
+}
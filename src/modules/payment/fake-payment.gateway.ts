@@ -0,0 +1,140 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { GatewayResult, PaymentGateway } from './payment-gateway';
+
+/**
+ * Payment methods with a scripted outcome; any other token is approved
+ */
+export const FAKE_PAYMENT_METHODS = {
+  APPROVED: 'tok_visa',
+  DECLINED: 'tok_declined',
+  INSUFFICIENT_FUNDS: 'tok_insufficient_funds',
+  CAPTURE_FAILS: 'tok_capture_fails',
+  REFUND_FAILS: 'tok_refund_fails',
+} as const;
+
+// Balances are kept in cents so that partial refunds add up exactly
+interface FakeCharge {
+  reference: string;
+  authorizedCents: number;
+  currency: string;
+  paymentMethod: string;
+  capturedCents: number;
+  refundedCents: number;
+  voided: boolean;
+}
+
+/**
+ * In-memory gateway for development and tests: no network calls and no real money
+ * Charges only live as long as the process, so restarting loses them
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+
+  private readonly logger = new Logger(FakePaymentGateway.name);
+  private readonly charges = new Map<string, FakeCharge>();
+  private readonly results = new Map<string, GatewayResult>();
+
+  authorize(request: {
+    amount: number;
+    currency: string;
+    paymentMethod: string;
+    idempotencyKey: string;
+  }): Promise<GatewayResult> {
+    return this.once(`authorize:${request.idempotencyKey}`, () => {
+      if (request.paymentMethod === FAKE_PAYMENT_METHODS.DECLINED) {
+        return { success: false, error: 'Card declined' };
+      }
+
+      if (request.paymentMethod === FAKE_PAYMENT_METHODS.INSUFFICIENT_FUNDS) {
+        return { success: false, error: 'Insufficient funds' };
+      }
+
+      const reference = `fake_auth_${randomUUID()}`;
+      this.charges.set(reference, {
+        reference,
+        authorizedCents: this.toCents(request.amount),
+        currency: request.currency,
+        paymentMethod: request.paymentMethod,
+        capturedCents: 0,
+        refundedCents: 0,
+        voided: false,
+      });
+
+      this.logger.log(`Authorized ${request.amount} ${request.currency} as ${reference}`);
+      return { success: true, reference };
+    });
+  }
+
+  capture(authorizationReference: string, amount: number, idempotencyKey: string): Promise<GatewayResult> {
+    return this.once(`capture:${idempotencyKey}`, () => {
+      const charge = this.charges.get(authorizationReference);
+
+      if (!charge || charge.voided) {
+        return { success: false, error: 'Authorization not found' };
+      }
+
+      if (charge.paymentMethod === FAKE_PAYMENT_METHODS.CAPTURE_FAILS) {
+        return { success: false, error: 'Capture failed' };
+      }
+
+      if (this.toCents(amount) > charge.authorizedCents - charge.capturedCents) {
+        return { success: false, error: 'Amount exceeds the authorization' };
+      }
+
+      charge.capturedCents += this.toCents(amount);
+      return { success: true, reference: authorizationReference };
+    });
+  }
+
+  void(authorizationReference: string): Promise<GatewayResult> {
+    const charge = this.charges.get(authorizationReference);
+
+    if (!charge) {
+      return Promise.resolve({ success: false, error: 'Authorization not found' });
+    }
+
+    charge.voided = true;
+    return Promise.resolve({ success: true, reference: authorizationReference });
+  }
+
+  refund(captureReference: string, amount: number, idempotencyKey: string): Promise<GatewayResult> {
+    return this.once(`refund:${idempotencyKey}`, () => {
+      const charge = this.charges.get(captureReference);
+
+      if (!charge) {
+        return { success: false, error: 'Charge not found' };
+      }
+
+      if (charge.paymentMethod === FAKE_PAYMENT_METHODS.REFUND_FAILS) {
+        return { success: false, error: 'Refund failed' };
+      }
+
+      if (this.toCents(amount) > charge.capturedCents - charge.refundedCents) {
+        return { success: false, error: 'Amount exceeds the captured balance' };
+      }
+
+      charge.refundedCents += this.toCents(amount);
+      this.logger.log(`Refunded ${amount} ${charge.currency} of ${captureReference}`);
+      return { success: true, reference: `fake_refund_${randomUUID()}` };
+    });
+  }
+
+  /**
+   * Replay the first result for a repeated idempotency key, as real gateways do
+   */
+  private once(key: string, call: () => GatewayResult): Promise<GatewayResult> {
+    const previous = this.results.get(key);
+    if (previous) {
+      return Promise.resolve(previous);
+    }
+
+    const result = call();
+    this.results.set(key, result);
+    return Promise.resolve(result);
+  }
+
+  private toCents(amount: number): number {
+    return Math.round(amount * 100);
+  }
+}
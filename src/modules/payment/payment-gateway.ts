@@ -0,0 +1,36 @@
+/**
+ * Injection token for the configured payment gateway
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+/**
+ * Outcome of a gateway call: the gateway's reference on success, otherwise why it was refused
+ */
+export type GatewayResult = { success: true; reference: string } | { success: false; error: string };
+
+/**
+ * A card processor the payment service charges and refunds through
+ * Amounts are in major currency units; every call that moves money takes an idempotency key,
+ * so retrying after a timeout never charges or refunds twice
+ */
+export interface PaymentGateway {
+  /** Short name stored on each payment, e.g. to tell providers apart in reports */
+  readonly name: string;
+
+  /** Reserve the amount on the payment method without taking it yet */
+  authorize(request: {
+    amount: number;
+    currency: string;
+    paymentMethod: string;
+    idempotencyKey: string;
+  }): Promise<GatewayResult>;
+
+  /** Take the money reserved by an authorization */
+  capture(authorizationReference: string, amount: number, idempotencyKey: string): Promise<GatewayResult>;
+
+  /** Release an authorization that will not be captured */
+  void(authorizationReference: string): Promise<GatewayResult>;
+
+  /** Return part or all of a captured amount */
+  refund(captureReference: string, amount: number, idempotencyKey: string): Promise<GatewayResult>;
+}
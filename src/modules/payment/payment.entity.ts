@@ -0,0 +1,132 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Check,
+} from 'typeorm';
+import { Booking } from '@modules/trip/booking.entity';
+import { Refund } from '@modules/payment/refund.entity';
+
+export enum PaymentStatus {
+  PENDING = 'PENDING',
+  CAPTURED = 'CAPTURED',
+  FAILED = 'FAILED',
+  REFUNDED = 'REFUNDED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+}
+
+@Entity('payments')
+@Index(['bookingId'])
+@Check(`"amount" > 0`)
+@Check(`"refunded_amount" >= 0 AND "refunded_amount" <= "amount"`)
+export class Payment {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique payment identifier, also the idempotency key sent to the gateway',
+  })
+  id: string;
+
+  @Column({
+    name: 'booking_id',
+    type: 'uuid',
+    comment: 'Booking the payment is for',
+  })
+  bookingId: string;
+
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    comment: 'Amount charged, the fare of the booking',
+  })
+  amount: number;
+
+  @Column({
+    type: 'varchar',
+    length: 3,
+    comment: 'ISO 4217 currency of the amount',
+  })
+  currency: string;
+
+  @Column({
+    type: 'enum',
+    enum: PaymentStatus,
+    default: PaymentStatus.PENDING,
+    comment: 'PENDING while the gateway is called, CAPTURED once the money is taken',
+  })
+  status: PaymentStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    comment: 'Gateway the payment went through',
+  })
+  gateway: string;
+
+  @Column({
+    name: 'gateway_reference',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Gateway reference of the authorization, used to capture and refund it',
+  })
+  gatewayReference: string | null;
+
+  @Column({
+    name: 'refunded_amount',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    default: 0,
+    comment: 'Total of the refunds issued against the payment',
+  })
+  refundedAmount: number;
+
+  @Column({
+    name: 'failure_reason',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'Why the gateway refused the payment',
+  })
+  failureReason: string | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'captured_at',
+    nullable: true,
+    comment: 'Time the money was taken',
+  })
+  capturedAt: Date | null;
+
+  // Relations
+  @ManyToOne(() => Booking, {
+    eager: false,
+    nullable: false,
+  })
+  @JoinColumn({ name: 'booking_id' })
+  booking: Booking;
+
+  @OneToMany(() => Refund, (refund) => refund.payment)
+  refunds: Refund[];
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Payment creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Payment } from '@/modules/payment/payment.entity';
+import { Refund } from '@/modules/payment/refund.entity';
+import { PaymentRepository } from '@/modules/payment/payment.repository';
+import { RefundRepository } from '@/modules/payment/refund.repository';
+import { PaymentService } from '@/modules/payment/payment.service';
+import { PAYMENT_GATEWAY, PaymentGateway } from '@/modules/payment/payment-gateway';
+import { FakePaymentGateway } from '@/modules/payment/fake-payment.gateway';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Payment, Refund])],
+  providers: [
+    PaymentService,
+    PaymentRepository,
+    RefundRepository,
+    {
+      // Real gateways plug in here, selected by PAYMENT_GATEWAY
+      provide: PAYMENT_GATEWAY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): PaymentGateway => {
+        const gateway = configService.get<string>('PAYMENT_GATEWAY', 'fake');
+
+        if (gateway === 'fake') {
+          return new FakePaymentGateway();
+        }
+
+        throw new Error(`Unknown payment gateway "${gateway}"`);
+      },
+    },
+  ],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
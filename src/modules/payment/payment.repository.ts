@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { Payment } from '@/modules/payment/payment.entity';
+
+@Injectable()
+export class PaymentRepository extends Repository<Payment> {
+  constructor(private dataSource: DataSource) {
+    super(Payment, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,219 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { DataSource, EntityManager } from 'typeorm';
+import { Booking } from '../trip/booking.entity';
+import { FAKE_PAYMENT_METHODS, FakePaymentGateway } from './fake-payment.gateway';
+import { PAYMENT_GATEWAY } from './payment-gateway';
+import { Payment, PaymentStatus } from './payment.entity';
+import { PaymentRepository } from './payment.repository';
+import { PaymentService } from './payment.service';
+import { Refund, RefundStatus } from './refund.entity';
+import { RefundRepository } from './refund.repository';
+import { mockConfigService } from '@common/testing';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let saved: Payment[];
+
+  const booking = { id: 'booking-1', fareAmount: 120.5, fareCurrency: 'USD' } as Booking;
+
+  beforeEach(async () => {
+    saved = [];
+    const paymentRepository = {
+      save: jest.fn((payment: Payment) => {
+        saved.push({ ...payment });
+        return Promise.resolve(payment);
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        { provide: PAYMENT_GATEWAY, useValue: new FakePaymentGateway() },
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: RefundRepository, useValue: {} },
+        { provide: DataSource, useValue: {} },
+        { provide: ConfigService, useValue: mockConfigService() },
+      ],
+    }).compile();
+
+    service = module.get(PaymentService);
+  });
+
+  describe('startPayment', () => {
+    const managerWith = (inFlight: Payment[]) => {
+      const manager = {
+        find: jest.fn().mockResolvedValue(inFlight),
+        create: jest.fn((_entity: unknown, fields: Partial<Payment>) => ({ ...fields })),
+        save: jest.fn((_entity: unknown, payment: Payment) => Promise.resolve(payment)),
+      };
+      return manager as typeof manager & EntityManager;
+    };
+
+    it('claims the booking with a PENDING payment for its fare', async () => {
+      const payment = await service.startPayment(managerWith([]), booking);
+
+      expect(payment).toMatchObject({
+        bookingId: booking.id,
+        amount: 120.5,
+        currency: 'USD',
+        status: PaymentStatus.PENDING,
+        gateway: 'fake',
+      });
+    });
+
+    it('refuses a second attempt while one is in flight', async () => {
+      const inFlight = { id: 'payment-1', status: PaymentStatus.PENDING, createdAt: new Date() } as Payment;
+
+      await expect(service.startPayment(managerWith([inFlight]), booking)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+    });
+
+    it('refuses a new attempt while a captured payment has not been applied to the booking', async () => {
+      const unapplied = {
+        id: 'payment-1',
+        status: PaymentStatus.CAPTURED,
+        createdAt: new Date(Date.now() - 10 * 60 * 1000),
+      } as Payment;
+
+      await expect(service.startPayment(managerWith([unapplied]), booking)).rejects.toMatchObject({
+        status: HttpStatus.CONFLICT,
+      });
+    });
+
+    it('gives up on an attempt older than the timeout', async () => {
+      const abandoned = {
+        id: 'payment-1',
+        status: PaymentStatus.PENDING,
+        createdAt: new Date(Date.now() - 10 * 60 * 1000),
+      } as Payment;
+
+      const payment = await service.startPayment(managerWith([abandoned]), booking);
+
+      expect(abandoned.status).toBe(PaymentStatus.FAILED);
+      expect(payment.status).toBe(PaymentStatus.PENDING);
+    });
+
+    it('refuses a booking without a fare', async () => {
+      await expect(
+        service.startPayment(managerWith([]), { ...booking, fareAmount: null } as Booking),
+      ).rejects.toMatchObject({ status: HttpStatus.BAD_REQUEST });
+    });
+  });
+
+  describe('capture', () => {
+    const claim = (): Payment =>
+      ({
+        id: 'payment-1',
+        bookingId: booking.id,
+        amount: 120.5,
+        currency: 'USD',
+        status: PaymentStatus.PENDING,
+        gatewayReference: null,
+        capturedAt: null,
+      }) as Payment;
+
+    it('takes the money on the payment method', async () => {
+      const payment = await service.capture(claim(), FAKE_PAYMENT_METHODS.APPROVED);
+
+      expect(payment.status).toBe(PaymentStatus.CAPTURED);
+      expect(payment.gatewayReference).toMatch(/^fake_auth_/);
+      expect(payment.capturedAt).toBeInstanceOf(Date);
+    });
+
+    it('captures under a key of its own, so that a retried capture never takes the money twice', async () => {
+      const capture = jest.spyOn(FakePaymentGateway.prototype, 'capture');
+
+      await service.capture(claim(), FAKE_PAYMENT_METHODS.APPROVED);
+
+      const [, amount, idempotencyKey] = capture.mock.calls[0];
+      expect([amount, idempotencyKey]).toEqual([120.5, 'payment-1:capture']);
+      capture.mockRestore();
+    });
+
+    it('keeps a declined payment as FAILED and answers 402', async () => {
+      await expect(service.capture(claim(), FAKE_PAYMENT_METHODS.DECLINED)).rejects.toMatchObject({
+        status: HttpStatus.PAYMENT_REQUIRED,
+      });
+      expect(saved.at(-1)).toMatchObject({ status: PaymentStatus.FAILED, failureReason: 'Card declined' });
+    });
+
+    it('fails when the authorization cannot be captured', async () => {
+      await expect(service.capture(claim(), FAKE_PAYMENT_METHODS.CAPTURE_FAILS)).rejects.toMatchObject({
+        status: HttpStatus.PAYMENT_REQUIRED,
+      });
+      expect(saved.at(-1)).toMatchObject({ status: PaymentStatus.FAILED, failureReason: 'Capture failed' });
+    });
+  });
+
+  describe('issueRefund', () => {
+    const capturedPayment = (id: string, amount: number, refundedAmount = 0): Payment =>
+      ({
+        id,
+        bookingId: booking.id,
+        amount,
+        currency: 'USD',
+        refundedAmount,
+        status: refundedAmount > 0 ? PaymentStatus.PARTIALLY_REFUNDED : PaymentStatus.CAPTURED,
+      }) as Payment;
+
+    const managerFor = (payments: Payment[]) => {
+      const manager = {
+        find: jest.fn().mockResolvedValue(payments),
+        create: jest.fn((_entity: unknown, fields: Partial<Refund>) => ({ ...fields })),
+        save: jest.fn((_entity: unknown, value: Payment | Refund) => Promise.resolve(value)),
+      };
+      return manager as typeof manager & EntityManager;
+    };
+
+    it('refunds everything left across every payment of the booking', async () => {
+      const payments = [capturedPayment('payment-1', 100, 40), capturedPayment('payment-2', 50)];
+      const refunds = await service.issueRefund(managerFor(payments), booking.id, 'Trip cancelled');
+
+      expect(refunds.map((refund) => [refund.paymentId, refund.amount])).toEqual([
+        ['payment-1', 60],
+        ['payment-2', 50],
+      ]);
+      expect(refunds.every((refund) => refund.status === RefundStatus.PENDING)).toBe(true);
+      expect(payments.map((payment) => payment.status)).toEqual([PaymentStatus.REFUNDED, PaymentStatus.REFUNDED]);
+    });
+
+    it('draws an amount down from the oldest payment first', async () => {
+      const payments = [capturedPayment('payment-1', 30), capturedPayment('payment-2', 50)];
+      const refunds = await service.issueRefund(managerFor(payments), booking.id, 'Booking cancelled', {
+        amount: 45.25,
+      });
+
+      expect(refunds.map((refund) => [refund.paymentId, refund.amount])).toEqual([
+        ['payment-1', 30],
+        ['payment-2', 15.25],
+      ]);
+      expect(payments[1]).toMatchObject({ refundedAmount: 15.25, status: PaymentStatus.PARTIALLY_REFUNDED });
+    });
+
+    it('caps an amount at what is left to refund', async () => {
+      const refunds = await service.issueRefund(
+        managerFor([capturedPayment('payment-1', 20, 15)]),
+        booking.id,
+        'Booking cancelled',
+        { amount: 100 },
+      );
+
+      expect(refunds.map((refund) => refund.amount)).toEqual([5]);
+    });
+
+    it('limits the refund to one payment when given its id', async () => {
+      const manager = managerFor([capturedPayment('payment-2', 50)]);
+      await service.issueRefund(manager, booking.id, 'Paid twice', { paymentId: 'payment-2' });
+
+      const [, options] = manager.find.mock.calls[0] as [unknown, { where: Record<string, unknown> }];
+      expect(options.where).toMatchObject({ bookingId: booking.id, id: 'payment-2' });
+    });
+
+    it('issues nothing when the booking was never paid', async () => {
+      await expect(service.issueRefund(managerFor([]), booking.id, 'Trip cancelled')).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { DataSource, EntityManager, In, LessThanOrEqual } from 'typeorm';
+import { Booking } from '../trip/booking.entity';
+import { Payment, PaymentStatus } from './payment.entity';
+import { Refund, RefundStatus } from './refund.entity';
+import { PaymentRepository } from './payment.repository';
+import { RefundRepository } from './refund.repository';
+import { GatewayResult, PAYMENT_GATEWAY, PaymentGateway } from './payment-gateway';
+
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+  private readonly refundMaxAttempts: number;
+  private readonly refundBackoffBaseMs: number;
+  private readonly attemptTimeoutMs: number;
+  private readonly batchSize = 50;
+
+  constructor(
+    @Inject(PAYMENT_GATEWAY)
+    private gateway: PaymentGateway,
+    private paymentRepository: PaymentRepository,
+    private refundRepository: RefundRepository,
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.refundMaxAttempts = Number(configService.get<string>('PAYMENT_REFUND_MAX_ATTEMPTS', '8'));
+    this.refundBackoffBaseMs = Number(configService.get<string>('PAYMENT_REFUND_BACKOFF_SECONDS', '60')) * 1000;
+    this.attemptTimeoutMs = Number(configService.get<string>('PAYMENT_ATTEMPT_TIMEOUT_SECONDS', '120')) * 1000;
+  }
+
+  /**
+   * Claim a booking for payment inside the caller's transaction, which must hold a lock on the booking row
+   * The claim is a PENDING payment for the fare; while one is in flight any other attempt on the booking is
+   * refused with 409 Conflict, so the customer is never charged twice. A claim older than the attempt timeout is
+   * taken to have been abandoned and no longer blocks a new attempt. A booking still awaiting payment that has a
+   * CAPTURED payment was charged without the booking being confirmed; it is refused too until that payment is
+   * refunded, rather than charged again.
+   */
+  async startPayment(manager: EntityManager, booking: Booking): Promise<Payment> {
+    if (booking.fareAmount === null || booking.fareCurrency === null) {
+      throw new BadRequestException('Booking has no fare to charge');
+    }
+
+    const unsettled = await manager.find(Payment, {
+      where: { bookingId: booking.id, status: In([PaymentStatus.PENDING, PaymentStatus.CAPTURED]) },
+    });
+
+    if (unsettled.some((payment) => payment.status === PaymentStatus.CAPTURED)) {
+      throw new ConflictException('A payment for this booking was taken but not applied yet; it will be refunded');
+    }
+
+    const inFlight = unsettled.filter((payment) => payment.status === PaymentStatus.PENDING);
+    const staleBefore = Date.now() - this.attemptTimeoutMs;
+
+    if (inFlight.some((payment) => payment.createdAt.getTime() > staleBefore)) {
+      throw new ConflictException('A payment for this booking is already in progress');
+    }
+
+    for (const payment of inFlight) {
+      payment.status = PaymentStatus.FAILED;
+      payment.failureReason = 'Abandoned before the gateway answered';
+      await manager.save(Payment, payment);
+    }
+
+    return manager.save(
+      Payment,
+      manager.create(Payment, {
+        bookingId: booking.id,
+        amount: Number(booking.fareAmount),
+        currency: booking.fareCurrency,
+        status: PaymentStatus.PENDING,
+        gateway: this.gateway.name,
+        gatewayReference: null,
+        refundedAmount: 0,
+        failureReason: null,
+        capturedAt: null,
+      }),
+    );
+  }
+
+  /**
+   * Take a claimed payment: authorize it on the payment method, then capture it straight away
+   * Call once the claim has committed. A refused authorization or capture is kept as a FAILED payment and reported
+   * as 402 Payment Required; an authorization that cannot be captured is voided so the customer's funds are released
+   */
+  async capture(payment: Payment, paymentMethod: string): Promise<Payment> {
+    const authorization = await this.gateway.authorize({
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      paymentMethod,
+      idempotencyKey: payment.id,
+    });
+
+    if (!authorization.success) {
+      return this.fail(payment, authorization.error);
+    }
+
+    payment.gatewayReference = authorization.reference;
+    const capture = await this.gateway.capture(
+      authorization.reference,
+      Number(payment.amount),
+      `${payment.id}:capture`,
+    );
+
+    if (!capture.success) {
+      await this.gateway.void(authorization.reference);
+      return this.fail(payment, capture.error);
+    }
+
+    payment.status = PaymentStatus.CAPTURED;
+    payment.capturedAt = new Date();
+    const savedPayment = await this.paymentRepository.save(payment);
+
+    this.logger.log(
+      `Payment ${payment.id} captured ${payment.amount} ${payment.currency} for booking ${payment.bookingId}`,
+    );
+    return savedPayment;
+  }
+
+  /**
+   * Give up on a claimed payment that will not be sent to the gateway, so that it stops blocking new attempts
+   */
+  async abandon(payment: Payment, reason: string): Promise<void> {
+    payment.status = PaymentStatus.FAILED;
+    payment.failureReason = reason.slice(0, 500);
+    await this.paymentRepository.save(payment);
+  }
+
+  /**
+   * Issue refunds against the captured payments of a booking inside the caller's transaction
+   * Payments are drawn down oldest capture first until the amount is covered; without an amount everything left
+   * is refunded, and an amount is capped at what is left. A payment id limits the refund to that one payment.
+   * Nothing is issued when the booking was never paid. The gateway is only called by the refund worker once the
+   * transaction commits.
+   */
+  async issueRefund(
+    manager: EntityManager,
+    bookingId: string,
+    reason: string,
+    options: { amount?: number; paymentId?: string } = {},
+  ): Promise<Refund[]> {
+    const payments = await manager.find(Payment, {
+      where: {
+        bookingId,
+        ...(options.paymentId ? { id: options.paymentId } : {}),
+        status: In([PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED]),
+      },
+      order: { capturedAt: 'ASC', id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    let remaining = options.amount === undefined ? Infinity : this.round(options.amount);
+    const refunds: Refund[] = [];
+
+    for (const payment of payments) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const refundable = this.round(Number(payment.amount) - Number(payment.refundedAmount));
+      const refundAmount = this.round(Math.min(remaining, refundable));
+
+      if (refundAmount <= 0) {
+        continue;
+      }
+
+      payment.refundedAmount = this.round(Number(payment.refundedAmount) + refundAmount);
+      payment.status =
+        payment.refundedAmount >= Number(payment.amount) ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED;
+      await manager.save(Payment, payment);
+
+      const refund = await manager.save(
+        Refund,
+        manager.create(Refund, {
+          paymentId: payment.id,
+          amount: refundAmount,
+          reason,
+          status: RefundStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastError: null,
+          gatewayReference: null,
+          refundedAt: null,
+        }),
+      );
+
+      this.logger.log(
+        `Refund ${refund.id} of ${refundAmount} ${payment.currency} issued against payment ${payment.id} for booking ${bookingId}`,
+      );
+      refunds.push(refund);
+      remaining = this.round(remaining - refundAmount);
+    }
+
+    return refunds;
+  }
+
+  /**
+   * What is left to refund on a booking: the captured amount less the refunds already issued
+   */
+  async getRefundableAmount(bookingId: string, manager: EntityManager = this.dataSource.manager): Promise<number> {
+    const payments = await manager.find(Payment, {
+      where: { bookingId, status: In([PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED]) },
+    });
+
+    return this.round(
+      payments.reduce((total, payment) => total + Number(payment.amount) - Number(payment.refundedAmount), 0),
+    );
+  }
+
+  /**
+   * Payments of a booking with their refunds, newest first
+   */
+  async findForBooking(bookingId: string): Promise<Payment[]> {
+    return this.paymentRepository.find({
+      where: { bookingId },
+      relations: ['refunds'],
+      order: { createdAt: 'DESC', refunds: { createdAt: 'ASC' } },
+    });
+  }
+
+  /**
+   * Send due refunds to the gateway (run every 30 seconds)
+   */
+  @Cron('*/30 * * * * *')
+  async processRefunds(): Promise<void> {
+    const refunds = await this.claimDueRefunds();
+
+    for (const refund of refunds) {
+      await this.attemptRefund(refund);
+    }
+  }
+
+  private async fail(payment: Payment, error: string): Promise<never> {
+    payment.status = PaymentStatus.FAILED;
+    payment.failureReason = error.slice(0, 500);
+    await this.paymentRepository.save(payment);
+
+    this.logger.log(`Payment ${payment.id} for booking ${payment.bookingId} failed: ${error}`);
+    throw new HttpException(`Payment failed: ${error}`, HttpStatus.PAYMENT_REQUIRED);
+  }
+
+  /**
+   * Lease a batch of due refunds so that concurrent workers never send the same one twice
+   */
+  private async claimDueRefunds(): Promise<Refund[]> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const now = new Date();
+      const refunds = await queryRunner.manager
+        .createQueryBuilder(Refund, 'refund')
+        .innerJoinAndSelect('refund.payment', 'payment')
+        .where({ status: RefundStatus.PENDING, nextAttemptAt: LessThanOrEqual(now) })
+        .orderBy('refund.nextAttemptAt', 'ASC')
+        .limit(this.batchSize)
+        .setLock('pessimistic_write', undefined, ['refund'])
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (refunds.length > 0) {
+        await queryRunner.manager.update(
+          Refund,
+          { id: In(refunds.map((refund) => refund.id)) },
+          { nextAttemptAt: new Date(now.getTime() + this.refundBackoffBaseMs) },
+        );
+      }
+
+      await queryRunner.commitTransaction();
+      return refunds;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async attemptRefund(refund: Refund): Promise<void> {
+    const attemptedAt = new Date();
+    const attempts = refund.attempts + 1;
+
+    let result: GatewayResult;
+    if (!refund.payment.gatewayReference) {
+      result = { success: false, error: 'Payment has no gateway reference' };
+    } else {
+      try {
+        result = await this.gateway.refund(refund.payment.gatewayReference, Number(refund.amount), refund.id);
+      } catch (caught) {
+        result = { success: false, error: caught instanceof Error ? caught.message : String(caught) };
+      }
+    }
+
+    if (result.success) {
+      await this.refundRepository.update(
+        { id: refund.id },
+        {
+          status: RefundStatus.SUCCEEDED,
+          attempts,
+          lastError: null,
+          gatewayReference: result.reference,
+          refundedAt: attemptedAt,
+        },
+      );
+      return;
+    }
+
+    const exhausted = attempts >= this.refundMaxAttempts;
+    await this.refundRepository.update(
+      { id: refund.id },
+      {
+        status: exhausted ? RefundStatus.FAILED : RefundStatus.PENDING,
+        attempts,
+        lastError: result.error.slice(0, 1000),
+        nextAttemptAt: new Date(attemptedAt.getTime() + this.refundBackoffBaseMs * 2 ** (attempts - 1)),
+      },
+    );
+
+    if (exhausted) {
+      this.logger.warn(
+        `Refund ${refund.id} failed after ${attempts} attempts and needs manual handling: ${result.error}`,
+      );
+    } else {
+      this.logger.log(`Refund ${refund.id} attempt ${attempts} failed: ${result.error}`);
+    }
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Check,
+} from 'typeorm';
+import { Payment } from '@modules/payment/payment.entity';
+
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
+@Entity('refunds')
+@Index(['status', 'nextAttemptAt']) // Optimize picking due refunds
+@Index(['paymentId'])
+@Check(`"amount" > 0`)
+export class Refund {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique refund identifier, also the idempotency key sent to the gateway',
+  })
+  id: string;
+
+  @Column({
+    name: 'payment_id',
+    type: 'uuid',
+    comment: 'Payment the money is returned from',
+  })
+  paymentId: string;
+
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    comment: 'Amount returned to the customer',
+  })
+  amount: number;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    comment: 'Why the refund was issued',
+  })
+  reason: string;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING,
+    comment: 'PENDING until the gateway accepts it, FAILED once retries are exhausted',
+  })
+  status: RefundStatus;
+
+  @Column({
+    type: 'int',
+    default: 0,
+    comment: 'Gateway attempts made so far',
+  })
+  attempts: number;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'next_attempt_at',
+    comment: 'Earliest time of the next attempt',
+  })
+  nextAttemptAt: Date;
+
+  @Column({
+    name: 'last_error',
+    type: 'varchar',
+    length: 1000,
+    nullable: true,
+    comment: 'Why the most recent attempt failed',
+  })
+  lastError: string | null;
+
+  @Column({
+    name: 'gateway_reference',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: 'Gateway reference of the refund once accepted',
+  })
+  gatewayReference: string | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'refunded_at',
+    nullable: true,
+    comment: 'Time the gateway accepted the refund',
+  })
+  refundedAt: Date | null;
+
+  // Relations
+  @ManyToOne(() => Payment, (payment) => payment.refunds, {
+    eager: false,
+    nullable: false,
+  })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Time the refund was issued',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
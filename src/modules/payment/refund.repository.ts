@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { Refund } from '@/modules/payment/refund.entity';
+
+@Injectable()
+export class RefundRepository extends Repository<Refund> {
+  constructor(private dataSource: DataSource) {
+    super(Refund, dataSource.createEntityManager());
+  }
+}
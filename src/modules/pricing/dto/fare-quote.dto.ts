@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FareDto {
+  @ApiProperty({ example: 886.45, description: 'Total for every seat on the booking' })
+  amount: number;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+}
+
+export class FareBreakdownDto {
+  @ApiProperty({ example: 99 })
+  baseFare: number;
+
+  @ApiProperty({ example: 618.95, description: 'Per-mile part of the per-seat fare' })
+  distanceFare: number;
+
+  @ApiProperty({ example: 1.15, description: 'Early booking discount or late booking surcharge' })
+  leadTimeMultiplier: number;
+
+  @ApiProperty({ example: 1, description: 'Peak or off-peak departure hour' })
+  timeOfDayMultiplier: number;
+
+  @ApiProperty({ example: 1.1, description: 'Surcharge when most of the fleet is flying at departure' })
+  utilizationMultiplier: number;
+
+  @ApiProperty({ example: 0.62, description: 'Share of active spaceships flying at the departure time' })
+  fleetUtilization: number;
+}
+
+export class FareQuoteDto {
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: 1 })
+  seats: number;
+
+  @ApiProperty({ example: 2475.79 })
+  distanceMiles: number;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 886.45 })
+  farePerSeat: number;
+
+  @ApiProperty({ example: 886.45 })
+  totalFare: number;
+
+  @ApiProperty({ type: FareBreakdownDto })
+  breakdown: FareBreakdownDto;
+
+  @ApiProperty({ example: '2025-01-10T09:00:00.000Z', description: 'Prices move with demand; book to lock the fare' })
+  quotedAt: string;
+}
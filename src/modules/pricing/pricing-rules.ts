@@ -0,0 +1,73 @@
+/**
+ * Rule tables the fare is computed from
+ * Tiers are checked in order and the first match wins, so list them from the most specific down
+ */
+export interface PricingRules {
+  /** ISO 4217 code every fare is quoted in */
+  currency: string;
+  /** Flat part of the per-seat fare */
+  baseFare: number;
+  /** Per-seat price of each mile flown */
+  perMile: number;
+  /** Per-seat floor after every multiplier is applied */
+  minimumFare: number;
+  /** Discounts for booking early, surcharges for booking late */
+  leadTime: { minHoursBefore: number; multiplier: number }[];
+  /** Peak and off-peak departure hours in UTC; ranges may wrap past midnight */
+  timeOfDay: { fromHour: number; toHour: number; multiplier: number }[];
+  /** Surcharges when most of the fleet is already flying at departure */
+  utilization: { minUtilization: number; multiplier: number }[];
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  currency: 'USD',
+  baseFare: 99,
+  perMile: 0.25,
+  minimumFare: 149,
+  leadTime: [
+    { minHoursBefore: 30 * 24, multiplier: 0.85 },
+    { minHoursBefore: 7 * 24, multiplier: 1 },
+    { minHoursBefore: 48, multiplier: 1.15 },
+    { minHoursBefore: 0, multiplier: 1.35 },
+  ],
+  timeOfDay: [
+    { fromHour: 6, toHour: 9, multiplier: 1.15 },
+    { fromHour: 16, toHour: 19, multiplier: 1.15 },
+    { fromHour: 22, toHour: 6, multiplier: 0.9 },
+  ],
+  utilization: [
+    { minUtilization: 0.9, multiplier: 1.5 },
+    { minUtilization: 0.75, multiplier: 1.25 },
+    { minUtilization: 0.5, multiplier: 1.1 },
+  ],
+};
+
+/**
+ * Overlay rules read from JSON on the defaults, failing fast on anything the engine could not price with
+ */
+export function mergePricingRules(overrides: Partial<PricingRules>): PricingRules {
+  const rules: PricingRules = { ...DEFAULT_PRICING_RULES, ...overrides };
+
+  if (!/^[A-Z]{3}$/.test(rules.currency)) {
+    throw new Error('Pricing rules: currency must be a 3-letter ISO 4217 code');
+  }
+
+  for (const key of ['baseFare', 'perMile', 'minimumFare'] as const) {
+    if (typeof rules[key] !== 'number' || rules[key] < 0) {
+      throw new Error(`Pricing rules: ${key} must be a non-negative number`);
+    }
+  }
+
+  const tiers: [string, { multiplier: number }[]][] = [
+    ['leadTime', rules.leadTime],
+    ['timeOfDay', rules.timeOfDay],
+    ['utilization', rules.utilization],
+  ];
+  for (const [name, table] of tiers) {
+    if (!Array.isArray(table) || table.some((tier) => typeof tier.multiplier !== 'number' || tier.multiplier <= 0)) {
+      throw new Error(`Pricing rules: ${name} must be a list of tiers with positive multipliers`);
+    }
+  }
+
+  return rules;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PricingService } from '@/modules/pricing/pricing.service';
+import { LocationModule } from '@/modules/location/location.module';
+import { SpaceshipModule } from '@/modules/spaceship/spaceship.module';
+
+@Module({
+  imports: [LocationModule, SpaceshipModule],
+  providers: [PricingService],
+  exports: [PricingService],
+})
+export class PricingModule {}
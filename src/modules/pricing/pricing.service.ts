@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { LocationService } from '../location/location.service';
+import { SpaceshipService } from '../spaceship/spaceship.service';
+import { DEFAULT_PRICING_RULES, PricingRules, mergePricingRules } from './pricing-rules';
+
+export interface FareQuote {
+  currency: string;
+  farePerSeat: number;
+  totalFare: number;
+  seats: number;
+  distanceMiles: number;
+  breakdown: {
+    baseFare: number;
+    distanceFare: number;
+    leadTimeMultiplier: number;
+    timeOfDayMultiplier: number;
+    utilizationMultiplier: number;
+    fleetUtilization: number;
+  };
+}
+
+@Injectable()
+export class PricingService {
+  private readonly logger = new Logger(PricingService.name);
+  private readonly rules: PricingRules;
+
+  constructor(
+    private locationService: LocationService,
+    private spaceshipService: SpaceshipService,
+    configService: ConfigService,
+  ) {
+    const rulesPath = configService.get<string>('PRICING_RULES_PATH');
+    this.rules = rulesPath
+      ? mergePricingRules(JSON.parse(readFileSync(rulesPath, 'utf8')) as Partial<PricingRules>)
+      : DEFAULT_PRICING_RULES;
+
+    if (rulesPath) {
+      this.logger.log(`Pricing rules loaded from ${rulesPath}`);
+    }
+  }
+
+  /**
+   * Price a trip from its distance, how far ahead it is booked, the departure hour and how busy the fleet is then
+   */
+  async quote(
+    trip: { departureLocationCode: string; destinationLocationCode: string; departureAt: Date; seats: number },
+    now: Date = new Date(),
+  ): Promise<FareQuote> {
+    const [distance, fleetUtilization] = await Promise.all([
+      this.locationService.calculateDistance(trip.departureLocationCode, trip.destinationLocationCode),
+      this.spaceshipService.getFleetUtilization(trip.departureAt),
+    ]);
+
+    const hoursBefore = (trip.departureAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+    const leadTimeMultiplier = this.rules.leadTime.find((tier) => hoursBefore >= tier.minHoursBefore)?.multiplier ?? 1;
+
+    const hour = trip.departureAt.getUTCHours();
+    const timeOfDayMultiplier =
+      this.rules.timeOfDay.find((tier) =>
+        tier.fromHour <= tier.toHour
+          ? hour >= tier.fromHour && hour < tier.toHour
+          : hour >= tier.fromHour || hour < tier.toHour,
+      )?.multiplier ?? 1;
+
+    const utilizationMultiplier =
+      this.rules.utilization.find((tier) => fleetUtilization >= tier.minUtilization)?.multiplier ?? 1;
+
+    const distanceFare = this.round(distance.distanceMiles * this.rules.perMile);
+    const farePerSeat = this.round(
+      Math.max(
+        (this.rules.baseFare + distanceFare) * leadTimeMultiplier * timeOfDayMultiplier * utilizationMultiplier,
+        this.rules.minimumFare,
+      ),
+    );
+
+    return {
+      currency: this.rules.currency,
+      farePerSeat,
+      totalFare: this.round(farePerSeat * trip.seats),
+      seats: trip.seats,
+      distanceMiles: distance.distanceMiles,
+      breakdown: {
+        baseFare: this.rules.baseFare,
+        distanceFare,
+        leadTimeMultiplier,
+        timeOfDayMultiplier,
+        utilizationMultiplier,
+        fleetUtilization: Math.round(fleetUtilization * 100) / 100,
+      },
+    };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
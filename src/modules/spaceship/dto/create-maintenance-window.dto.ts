@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601, IsOptional, IsString, Length } from 'class-validator';
+
+export class CreateMaintenanceWindowDto {
+  @ApiProperty({
+    example: '2025-01-20T08:00:00Z',
+    description: 'Start of the maintenance in ISO 8601 format',
+  })
+  @IsISO8601({ strict: true }, { message: 'Start time must be in ISO 8601 format' })
+  startsAt: string;
+
+  @ApiProperty({
+    example: '2025-01-20T20:00:00Z',
+    description: 'End of the maintenance in ISO 8601 format',
+  })
+  @IsISO8601({ strict: true }, { message: 'End time must be in ISO 8601 format' })
+  endsAt: string;
+
+  @ApiProperty({
+    example: 'Heat shield inspection',
+    description: 'What the maintenance is for',
+    required: false,
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 200)
+  reason?: string;
+}
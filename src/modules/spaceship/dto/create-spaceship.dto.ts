@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Length, Matches, Max, Min } from 'class-validator';
+
+export class CreateSpaceshipDto {
+  @ApiProperty({
+    example: 'SS-004',
+    description: 'Unique spaceship identifier',
+  })
+  @IsString()
+  @Matches(/^SS-\d{3,}$/, { message: 'Spaceship ID must look like SS-001' })
+  id: string;
+
+  @ApiProperty({
+    example: 'Nebula Runner',
+    description: 'Friendly name of the spaceship',
+    maxLength: 100,
+  })
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @ApiProperty({
+    example: 'JFK',
+    description: 'IATA code of the location the spaceship is parked at',
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  currentLocationCode: string;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Number of passenger seats',
+    required: false,
+    default: 10,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  seatCapacity?: number;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MaintenanceWindowDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'SS-001' })
+  spaceshipId: string;
+
+  @ApiProperty({ example: '2025-01-20T08:00:00.000Z' })
+  startsAt: string;
+
+  @ApiProperty({ example: '2025-01-20T20:00:00.000Z' })
+  endsAt: string;
+
+  @ApiProperty({ example: 'Heat shield inspection', nullable: true })
+  reason: string | null;
+
+  @ApiProperty({ example: 'SCHEDULED', enum: ['SCHEDULED', 'CANCELLED'] })
+  status: string;
+}
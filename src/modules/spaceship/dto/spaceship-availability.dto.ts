@@ -1,10 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class NextScheduledTripDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tripId: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: Date;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationCode: string;
+}
+
 export class SpaceshipAvailabilityDto {
+  @ApiProperty({ example: 'SS-001' })
   spaceshipId: string;
+
+  @ApiProperty({ example: 'JFK', description: 'Location code, or IN_TRANSIT while flying' })
   locationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
   availableFrom: Date;
-  nextScheduledTrip?: {
-    tripId: string;
-    departureAt: Date;
-    destinationCode: string;
-  };
+
+  @ApiProperty({ type: NextScheduledTripDto, required: false })
+  nextScheduledTrip?: NextScheduledTripDto;
+}
+
+export class SpaceshipLocationDto {
+  @ApiProperty({ example: 'SS-001' })
+  spaceshipId: string;
+
+  @ApiProperty({ example: 'JFK', description: 'Location code, or IN_TRANSIT while flying' })
+  locationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  at: string;
 }
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsISO8601, IsOptional } from 'class-validator';
+
+export class ListSpaceshipsQueryDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Include retired spaceships in the list',
+  })
+  @IsOptional()
+  @Transform(
+    ({ obj }: { obj: Record<string, unknown> }) => obj.includeRetired === true || obj.includeRetired === 'true',
+  )
+  @IsBoolean()
+  includeRetired?: boolean = false;
+}
+
+export class AtTimeQueryDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-01-15T10:00:00Z',
+    description: 'Point in time in ISO 8601 format (defaults to now)',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'Time must be in ISO 8601 format' })
+  at?: string;
+}
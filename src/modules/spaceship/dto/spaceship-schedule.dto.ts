@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601, IsOptional } from 'class-validator';
+
+export class ScheduleQueryDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-01-15T00:00:00Z',
+    description: 'Start of the window in ISO 8601 format (defaults to now)',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'Time must be in ISO 8601 format' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-22T00:00:00Z',
+    description: 'End of the window in ISO 8601 format (open-ended by default)',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'Time must be in ISO 8601 format' })
+  to?: string;
+}
+
+export class ScheduledTripDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tripId: string;
+
+  @ApiProperty({ example: 'PASSENGER', enum: ['PASSENGER', 'REPOSITIONING'] })
+  type: string;
+
+  @ApiProperty({ example: true, description: 'False for non-revenue flights' })
+  isRevenue: boolean;
+
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T12:28:00.000Z' })
+  arrivalAt: string;
+
+  @ApiProperty({ example: 'SCHEDULED' })
+  status: string;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SpaceshipDto {
+  @ApiProperty({ example: 'SS-001' })
+  id: string;
+
+  @ApiProperty({ example: 'Galactic Voyager' })
+  name: string;
+
+  @ApiProperty({ example: 'JFK' })
+  currentLocationCode: string;
+
+  @ApiProperty({ example: 10 })
+  seatCapacity: number;
+
+  @ApiProperty({ example: null, required: false, nullable: true })
+  retiredAt: string | null;
+
+  @ApiProperty({ example: '2025-01-01T00:00:00.000Z' })
+  createdAt: string;
+
+  @ApiProperty({ example: '2025-01-01T00:00:00.000Z' })
+  updatedAt: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Length, Max, Min } from 'class-validator';
+
+export class UpdateSpaceshipDto {
+  @ApiProperty({
+    example: 'Nebula Runner II',
+    description: 'Friendly name of the spaceship',
+    maxLength: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+
+  @ApiProperty({
+    example: 'LAX',
+    description: 'IATA code of the location to move the spaceship to',
+    minLength: 3,
+    maxLength: 3,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  currentLocationCode?: string;
+
+  @ApiProperty({
+    example: 10,
+    description: 'Number of passenger seats',
+    required: false,
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  seatCapacity?: number;
+}
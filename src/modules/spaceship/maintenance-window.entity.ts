@@ -0,0 +1,87 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Check,
+} from 'typeorm';
+import { Spaceship } from '@modules/spaceship/spaceship.entity';
+
+export enum MaintenanceStatus {
+  SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED',
+}
+
+@Entity('maintenance_windows')
+@Index(['spaceshipId', 'startsAt']) // Optimize availability lookups per spaceship
+@Check(`"ends_at" > "starts_at"`)
+export class MaintenanceWindow {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique maintenance window identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'spaceship_id',
+    type: 'varchar',
+    comment: 'Spaceship taken out of service',
+  })
+  spaceshipId: string;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'starts_at',
+    comment: 'Start of the maintenance in UTC',
+  })
+  startsAt: Date;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'ends_at',
+    comment: 'End of the maintenance in UTC',
+  })
+  endsAt: Date;
+
+  @Column({
+    type: 'varchar',
+    length: 200,
+    nullable: true,
+    comment: 'What the maintenance is for',
+  })
+  reason: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: MaintenanceStatus,
+    default: MaintenanceStatus.SCHEDULED,
+    comment: 'Current status of the maintenance window',
+  })
+  status: MaintenanceStatus;
+
+  // Relations
+  @ManyToOne(() => Spaceship, {
+    eager: false,
+    nullable: false,
+  })
+  @JoinColumn({ name: 'spaceship_id' })
+  spaceship: Spaceship;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Maintenance window creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
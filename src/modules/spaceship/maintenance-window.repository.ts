@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { MaintenanceWindow } from '@/modules/spaceship/maintenance-window.entity';
+
+@Injectable()
+export class MaintenanceWindowRepository extends Repository<MaintenanceWindow> {
+  constructor(private dataSource: DataSource) {
+    super(MaintenanceWindow, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,149 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { DataSource, EntityManager } from 'typeorm';
+import { SpaceshipAvailabilityService } from './spaceship-availability.service';
+import { mockConfigService } from '@common/testing';
+
+describe('SpaceshipAvailabilityService', () => {
+  const MINUTE_MS = 60 * 1000;
+  const HOUR_MS = 60 * MINUTE_MS;
+  const turnaroundMs = 30 * MINUTE_MS;
+  const start = new Date('2030-01-15T10:00:00.000Z');
+  const at = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+  let service: SpaceshipAvailabilityService;
+  let query: jest.Mock;
+  let manager: EntityManager;
+
+  beforeEach(async () => {
+    query = jest.fn().mockResolvedValue([]);
+    manager = { query } as unknown as EntityManager;
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SpaceshipAvailabilityService,
+        { provide: DataSource, useValue: { manager } },
+        { provide: ConfigService, useValue: mockConfigService() },
+      ],
+    }).compile();
+
+    service = module.get(SpaceshipAvailabilityService);
+  });
+
+  const lastParameters = (): unknown[] => {
+    const [, parameters] = query.mock.calls.at(-1) as [string, unknown[]];
+    return parameters;
+  };
+
+  describe('getIdleWindows', () => {
+    it('pads the timeline by the turnaround and filters on the window itself', async () => {
+      await service.getIdleWindows({ start, end: at(24) }, { minSeats: 4, spaceshipIds: ['ship-1'] });
+
+      const [timelineStart, timelineEnd, minSeats, spaceshipIds, , turnaround, excludedTrip, windowStart, windowEnd] =
+        lastParameters();
+      expect(timelineStart).toEqual(new Date(start.getTime() - turnaroundMs));
+      expect(timelineEnd).toEqual(new Date(at(24).getTime() + turnaroundMs));
+      expect([minSeats, spaceshipIds, turnaround, excludedTrip]).toEqual([4, ['ship-1'], turnaroundMs, null]);
+      expect([windowStart, windowEnd]).toEqual([start, at(24)]);
+    });
+
+    it('follows every schedule to its end when no end is given', async () => {
+      await service.getIdleWindows({ start });
+
+      const parameters = lastParameters();
+      expect(parameters[1]).toBeNull();
+      expect(parameters[2]).toBe(1);
+      expect(parameters[3]).toBeNull();
+      expect(parameters[8]).toBeNull();
+    });
+
+    it('maps the rows the driver returns', async () => {
+      query.mockResolvedValue([
+        {
+          spaceship_id: 'ship-1',
+          seat_capacity: '12',
+          location_code: 'JFK',
+          idle_from: null,
+          idle_until: '2030-01-15T12:00:00.000Z',
+        },
+        { spaceship_id: 'ship-1', seat_capacity: '12', location_code: 'LAX', idle_from: at(6), idle_until: null },
+      ]);
+
+      await expect(service.getIdleWindows({ start }, {}, manager)).resolves.toEqual([
+        { spaceshipId: 'ship-1', seatCapacity: 12, locationCode: 'JFK', idleFrom: null, idleUntil: at(2) },
+        { spaceshipId: 'ship-1', seatCapacity: 12, locationCode: 'LAX', idleFrom: at(6), idleUntil: null },
+      ]);
+    });
+  });
+
+  describe('findCandidates', () => {
+    const durationMs = 3 * HOUR_MS;
+    const row = (spaceshipId: string, departureAt: Date) => ({
+      spaceship_id: spaceshipId,
+      seat_capacity: 10,
+      location_code: 'JFK',
+      idle_from: null,
+      idle_until: null,
+      departure_at: departureAt,
+    });
+
+    it('looks at exactly the earliest departure unless told otherwise', async () => {
+      await service.findCandidates({
+        locationCode: 'JFK',
+        earliestDeparture: start,
+        durationMs,
+        excludeTripId: 'trip-1',
+      });
+
+      const parameters = lastParameters();
+      expect(parameters[1]).toEqual(new Date(start.getTime() + durationMs + turnaroundMs));
+      expect(parameters[6]).toBe('trip-1');
+      expect(parameters.slice(7)).toEqual([start, 'JFK', start, durationMs]);
+    });
+
+    it('leaves the timeline open-ended when there is no latest departure', async () => {
+      await service.findCandidates({
+        locationCode: 'JFK',
+        earliestDeparture: start,
+        latestDeparture: null,
+        durationMs,
+      });
+
+      const parameters = lastParameters();
+      expect(parameters[1]).toBeNull();
+      expect(parameters[9]).toBeNull();
+    });
+
+    it('keeps each ship once, at its best departure, with the arrival worked out', async () => {
+      query.mockResolvedValue([row('ship-1', start), row('ship-2', at(1)), row('ship-1', at(5))]);
+
+      const candidates = await service.findCandidates({
+        locationCode: 'JFK',
+        earliestDeparture: start,
+        latestDeparture: at(6),
+        durationMs,
+      });
+
+      expect(
+        candidates.map((candidate) => [candidate.spaceshipId, candidate.departureAt, candidate.arrivalAt]),
+      ).toEqual([
+        ['ship-1', start, at(3)],
+        ['ship-2', at(1), at(4)],
+      ]);
+    });
+
+    it('stops at the limit', async () => {
+      query.mockResolvedValue([row('ship-1', start), row('ship-2', at(1))]);
+
+      const candidates = await service.findCandidates({
+        locationCode: 'JFK',
+        earliestDeparture: start,
+        latestDeparture: null,
+        durationMs,
+        limit: 1,
+      });
+
+      expect(candidates.map((candidate) => candidate.spaceshipId)).toEqual(['ship-1']);
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager } from 'typeorm';
+
+/**
+ * A stretch of time during which a spaceship sits idle at one location
+ * idleFrom is null when the ship has been there since before any known trip,
+ * idleUntil is null when nothing is scheduled after it within the searched window
+ */
+export interface IdleWindow {
+  spaceshipId: string;
+  seatCapacity: number;
+  locationCode: string;
+  idleFrom: Date | null;
+  idleUntil: Date | null;
+}
+
+/**
+ * A spaceship that can fly a trip of the requested duration from a location
+ */
+export interface AvailabilityCandidate extends IdleWindow {
+  departureAt: Date;
+  arrivalAt: Date;
+}
+
+export interface CandidateQuery {
+  locationCode: string;
+  earliestDeparture: Date;
+  /** Latest acceptable departure; defaults to the earliest one, omit with `null` for no limit */
+  latestDeparture?: Date | null;
+  durationMs: number;
+  minSeats?: number;
+  spaceshipIds?: string[];
+  excludeTripId?: string;
+  limit?: number;
+}
+
+/**
+ * Where a spaceship is at a given time and what it does next
+ */
+export interface FleetPosition {
+  spaceshipId: string;
+  locationCode: string;
+  ongoingTrip: { tripId: string; departureAt: Date; arrivalAt: Date; destinationLocationCode: string } | null;
+  nextTrip: { tripId: string; departureAt: Date; destinationLocationCode: string } | null;
+}
+
+interface IdleWindowRow {
+  spaceship_id: string;
+  seat_capacity: number;
+  location_code: string;
+  idle_from: Date | null;
+  idle_until: Date | null;
+}
+
+interface CandidateRow extends IdleWindowRow {
+  departure_at: Date;
+}
+
+interface FleetPositionRow {
+  spaceship_id: string;
+  current_location_code: string;
+  last_destination_code: string | null;
+  ongoing_trip_id: string | null;
+  ongoing_departure_at: Date | null;
+  ongoing_arrival_at: Date | null;
+  ongoing_destination_code: string | null;
+  next_trip_id: string | null;
+  next_departure_at: Date | null;
+  next_destination_code: string | null;
+}
+
+/**
+ * Builds every active spaceship's location timeline for a time window.
+ *
+ * Trips, pending offer holds and maintenance inside the window, plus the last trip each ship finished
+ * before it, are ordered per ship with window functions. The gap before each movement is an idle window
+ * at the location the ship was last flown to, and the time after the last movement is open-ended.
+ * Maintenance keeps a ship where it is, so locations are carried forward across it.
+ * Trips and holds are padded by the minimum turnaround on both sides; maintenance is not.
+ * The overlap test on the window mirrors the trips exclusion constraint so its GiST index serves it.
+ *
+ * Parameters: $1 timeline start, $2 timeline end (null for open-ended), $3 minimum seats,
+ * $4 spaceship ids (null for the whole fleet), $5 current time for hold expiry, $6 turnaround in ms,
+ * $7 a trip to leave out (null for none), so a trip can be moved without colliding with itself
+ */
+const IDLE_WINDOWS_CTE = `
+  WITH fleet AS (
+    SELECT s.id, s.current_location_code, s.seat_capacity
+    FROM spaceships s
+    WHERE s.retired_at IS NULL
+      AND s.seat_capacity >= $3
+      AND ($4::varchar[] IS NULL OR s.id = ANY($4::varchar[]))
+  ),
+  movements AS (
+    SELECT t.spaceship_id, 'TRIP' AS kind, t.destination_location_code, t.departure_at, t.arrival_at
+    FROM trips t
+    JOIN fleet f ON f.id = t.spaceship_id
+    WHERE t.status <> 'CANCELLED'
+      AND ($7::uuid IS NULL OR t.id <> $7::uuid)
+      AND tstzrange(t.departure_at, t.arrival_at, '[)') && tstzrange($1::timestamptz, $2::timestamptz, '[)')
+    UNION ALL
+    SELECT o.spaceship_id, 'HOLD' AS kind, o.destination_location_code, o.departure_at, o.arrival_at
+    FROM trip_offers o
+    JOIN fleet f ON f.id = o.spaceship_id
+    WHERE o.status = 'PENDING'
+      AND o.expires_at > $5::timestamptz
+      AND o.arrival_at > $1::timestamptz
+      AND ($2::timestamptz IS NULL OR o.departure_at < $2::timestamptz)
+    UNION ALL
+    SELECT mw.spaceship_id, 'MAINTENANCE' AS kind, NULL AS destination_location_code, mw.starts_at, mw.ends_at
+    FROM maintenance_windows mw
+    JOIN fleet f ON f.id = mw.spaceship_id
+    WHERE mw.status = 'SCHEDULED'
+      AND mw.ends_at > $1::timestamptz
+      AND ($2::timestamptz IS NULL OR mw.starts_at < $2::timestamptz)
+    UNION ALL
+    -- Holds always lie ahead, so only trips can place a ship before the window starts
+    SELECT previous.spaceship_id, 'TRIP' AS kind, previous.destination_location_code, previous.departure_at, previous.arrival_at
+    FROM fleet f
+    CROSS JOIN LATERAL (
+      SELECT t.spaceship_id, t.destination_location_code, t.departure_at, t.arrival_at
+      FROM trips t
+      WHERE t.spaceship_id = f.id
+        AND t.status <> 'CANCELLED'
+        AND ($7::uuid IS NULL OR t.id <> $7::uuid)
+        AND t.departure_at < $1::timestamptz
+        AND t.arrival_at <= $1::timestamptz
+      ORDER BY t.departure_at DESC
+      LIMIT 1
+    ) previous
+  ),
+  grouped AS (
+    -- Each flight starts a new group, so a group shares the location its flight ended at
+    SELECT m.*, COUNT(m.destination_location_code) OVER w AS location_group
+    FROM movements m
+    WINDOW w AS (PARTITION BY m.spaceship_id ORDER BY m.departure_at)
+  ),
+  located AS (
+    SELECT g.*, FIRST_VALUE(g.destination_location_code) OVER w AS location_after
+    FROM grouped g
+    WINDOW w AS (PARTITION BY g.spaceship_id, g.location_group ORDER BY g.departure_at)
+  ),
+  sequenced AS (
+    SELECT
+      l.spaceship_id,
+      l.kind,
+      l.location_after,
+      l.departure_at,
+      l.arrival_at,
+      LAG(l.kind) OVER w AS previous_kind,
+      LAG(l.location_after) OVER w AS previous_location_code,
+      LAG(l.arrival_at) OVER w AS previous_arrival_at,
+      LEAD(l.departure_at) OVER w AS next_departure_at
+    FROM located l
+    WINDOW w AS (PARTITION BY l.spaceship_id ORDER BY l.departure_at)
+  ),
+  padded AS (
+    -- Idle before each movement
+    SELECT
+      f.id AS spaceship_id,
+      f.seat_capacity,
+      COALESCE(s.previous_location_code, f.current_location_code) AS location_code,
+      s.previous_arrival_at + CASE WHEN s.previous_kind = 'MAINTENANCE' THEN INTERVAL '0' ELSE $6::float8 * INTERVAL '1 millisecond' END AS idle_from,
+      s.departure_at - CASE WHEN s.kind = 'MAINTENANCE' THEN INTERVAL '0' ELSE $6::float8 * INTERVAL '1 millisecond' END AS idle_until
+    FROM fleet f
+    JOIN sequenced s ON s.spaceship_id = f.id
+    UNION ALL
+    -- Idle after the last movement, or for the whole window when there is none
+    SELECT
+      f.id AS spaceship_id,
+      f.seat_capacity,
+      COALESCE(s.location_after, f.current_location_code) AS location_code,
+      s.arrival_at + CASE WHEN s.kind = 'MAINTENANCE' THEN INTERVAL '0' ELSE $6::float8 * INTERVAL '1 millisecond' END AS idle_from,
+      NULL::timestamptz AS idle_until
+    FROM fleet f
+    LEFT JOIN sequenced s ON s.spaceship_id = f.id AND s.next_departure_at IS NULL
+  ),
+  idle_windows AS (
+    -- Turnaround can swallow a short gap entirely
+    SELECT p.*
+    FROM padded p
+    WHERE p.idle_from IS NULL OR p.idle_until IS NULL OR p.idle_from < p.idle_until
+  )
+`;
+
+@Injectable()
+export class SpaceshipAvailabilityService {
+  readonly minTurnaroundMs: number;
+
+  constructor(
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.minTurnaroundMs = Number(configService.get<string>('MIN_TURNAROUND_MINUTES', '30')) * 60 * 1000;
+  }
+
+  /**
+   * Get the idle windows of the fleet that overlap [start, end)
+   * Leave end out to follow every ship's schedule to its last known trip
+   */
+  async getIdleWindows(
+    window: { start: Date; end?: Date | null },
+    options: { minSeats?: number; spaceshipIds?: string[] } = {},
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<IdleWindow[]> {
+    const rows: IdleWindowRow[] = await manager.query(
+      `${IDLE_WINDOWS_CTE}
+      SELECT w.*
+      FROM idle_windows w
+      WHERE (w.idle_until IS NULL OR w.idle_until > $8::timestamptz)
+        AND ($9::timestamptz IS NULL OR w.idle_from IS NULL OR w.idle_from < $9::timestamptz)
+      ORDER BY w.spaceship_id, w.idle_from NULLS FIRST`,
+      [...this.timelineParameters(window.start, window.end ?? null, options), window.start, window.end ?? null],
+    );
+
+    return rows.map((row) => this.toIdleWindow(row));
+  }
+
+  /**
+   * Rank the spaceships that can fly from a location within a departure range
+   * Earliest departure wins, then the smallest ship that fits, then the one idle the longest,
+   * so bigger ships stay free for bigger groups and idle time is spread across the fleet.
+   * Each ship appears once, at its best departure.
+   */
+  async findCandidates(
+    query: CandidateQuery,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<AvailabilityCandidate[]> {
+    const latestDeparture = query.latestDeparture === undefined ? query.earliestDeparture : query.latestDeparture;
+    const windowEnd = latestDeparture ? new Date(latestDeparture.getTime() + query.durationMs) : null;
+
+    const rows: CandidateRow[] = await manager.query(
+      `${IDLE_WINDOWS_CTE},
+      departures AS (
+        SELECT w.*, GREATEST(COALESCE(w.idle_from, $8::timestamptz), $8::timestamptz) AS departure_at
+        FROM idle_windows w
+        WHERE w.location_code = $9
+      )
+      SELECT d.*
+      FROM departures d
+      WHERE ($10::timestamptz IS NULL OR d.departure_at <= $10::timestamptz)
+        AND (d.idle_until IS NULL OR d.departure_at + $11::float8 * INTERVAL '1 millisecond' <= d.idle_until)
+      ORDER BY d.departure_at, d.seat_capacity, d.idle_from NULLS FIRST, d.spaceship_id`,
+      [
+        ...this.timelineParameters(query.earliestDeparture, windowEnd, query),
+        query.earliestDeparture,
+        query.locationCode,
+        latestDeparture,
+        query.durationMs,
+      ],
+    );
+
+    const candidates: AvailabilityCandidate[] = [];
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+      if (seen.has(row.spaceship_id)) continue;
+      seen.add(row.spaceship_id);
+
+      const departureAt = new Date(row.departure_at);
+      candidates.push({
+        ...this.toIdleWindow(row),
+        departureAt,
+        arrivalAt: new Date(departureAt.getTime() + query.durationMs),
+      });
+
+      if (query.limit && candidates.length >= query.limit) break;
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Get where each active spaceship is at a point in time, with its ongoing and next trip
+   * Each ship's surrounding trips are index lookups on (spaceship_id, departure_at)
+   */
+  async getFleetPositions(
+    at: Date,
+    spaceshipIds?: string[],
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<FleetPosition[]> {
+    const rows: FleetPositionRow[] = await manager.query(
+      `SELECT
+        s.id AS spaceship_id,
+        s.current_location_code,
+        previous.destination_location_code AS last_destination_code,
+        ongoing.id AS ongoing_trip_id,
+        ongoing.departure_at AS ongoing_departure_at,
+        ongoing.arrival_at AS ongoing_arrival_at,
+        ongoing.destination_location_code AS ongoing_destination_code,
+        upcoming.id AS next_trip_id,
+        upcoming.departure_at AS next_departure_at,
+        upcoming.destination_location_code AS next_destination_code
+      FROM spaceships s
+      LEFT JOIN LATERAL (
+        SELECT t.destination_location_code
+        FROM trips t
+        WHERE t.spaceship_id = s.id AND t.status <> 'CANCELLED' AND t.arrival_at <= $1
+        ORDER BY t.departure_at DESC
+        LIMIT 1
+      ) previous ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT t.id, t.departure_at, t.arrival_at, t.destination_location_code
+        FROM trips t
+        WHERE t.spaceship_id = s.id AND t.status <> 'CANCELLED' AND t.departure_at <= $1 AND t.arrival_at > $1
+        LIMIT 1
+      ) ongoing ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT t.id, t.departure_at, t.destination_location_code
+        FROM trips t
+        WHERE t.spaceship_id = s.id AND t.status <> 'CANCELLED' AND t.departure_at > $1
+        ORDER BY t.departure_at ASC
+        LIMIT 1
+      ) upcoming ON TRUE
+      WHERE ($2::varchar[] IS NULL OR s.id = ANY($2::varchar[]))
+        AND ($2::varchar[] IS NOT NULL OR s.retired_at IS NULL)
+      ORDER BY s.id`,
+      [at, spaceshipIds ?? null],
+    );
+
+    return rows.map((row) => ({
+      spaceshipId: row.spaceship_id,
+      locationCode: row.ongoing_trip_id ? 'IN_TRANSIT' : (row.last_destination_code ?? row.current_location_code),
+      ongoingTrip:
+        row.ongoing_trip_id && row.ongoing_departure_at && row.ongoing_arrival_at && row.ongoing_destination_code
+          ? {
+              tripId: row.ongoing_trip_id,
+              departureAt: new Date(row.ongoing_departure_at),
+              arrivalAt: new Date(row.ongoing_arrival_at),
+              destinationLocationCode: row.ongoing_destination_code,
+            }
+          : null,
+      nextTrip:
+        row.next_trip_id && row.next_departure_at && row.next_destination_code
+          ? {
+              tripId: row.next_trip_id,
+              departureAt: new Date(row.next_departure_at),
+              destinationLocationCode: row.next_destination_code,
+            }
+          : null,
+    }));
+  }
+
+  /**
+   * The timeline reaches a turnaround beyond the window, so movements just outside it still pad the edges
+   */
+  private timelineParameters(
+    start: Date,
+    end: Date | null,
+    options: { minSeats?: number; spaceshipIds?: string[]; excludeTripId?: string },
+  ): unknown[] {
+    return [
+      new Date(start.getTime() - this.minTurnaroundMs),
+      end ? new Date(end.getTime() + this.minTurnaroundMs) : null,
+      options.minSeats ?? 1,
+      options.spaceshipIds ?? null,
+      new Date(),
+      this.minTurnaroundMs,
+      options.excludeTripId ?? null,
+    ];
+  }
+
+  private toIdleWindow(row: IdleWindowRow): IdleWindow {
+    return {
+      spaceshipId: row.spaceship_id,
+      seatCapacity: Number(row.seat_capacity),
+      locationCode: row.location_code,
+      idleFrom: row.idle_from ? new Date(row.idle_from) : null,
+      idleUntil: row.idle_until ? new Date(row.idle_until) : null,
+    };
+  }
+}
@@ -0,0 +1,378 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { SpaceshipService } from '@/modules/spaceship/spaceship.service';
+import { Spaceship } from '@/modules/spaceship/spaceship.entity';
+import { SpaceshipDto } from '@/modules/spaceship/dto/spaceship.dto';
+import { CreateSpaceshipDto } from '@/modules/spaceship/dto/create-spaceship.dto';
+import { UpdateSpaceshipDto } from '@/modules/spaceship/dto/update-spaceship.dto';
+import { AtTimeQueryDto, ListSpaceshipsQueryDto } from '@/modules/spaceship/dto/spaceship-query.dto';
+import { SpaceshipAvailabilityDto, SpaceshipLocationDto } from '@/modules/spaceship/dto/spaceship-availability.dto';
+import { ScheduleQueryDto, ScheduledTripDto } from '@/modules/spaceship/dto/spaceship-schedule.dto';
+import { MaintenanceWindow } from '@/modules/spaceship/maintenance-window.entity';
+import { MaintenanceWindowDto } from '@/modules/spaceship/dto/maintenance-window.dto';
+import { CreateMaintenanceWindowDto } from '@/modules/spaceship/dto/create-maintenance-window.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { DateUtils } from '@common/utils';
+import { ICalendar } from '@common/icalendar';
+import { tripToCalendarEvent } from '@/modules/trip/trip-calendar';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles, STAFF_ROLES } from '@/modules/auth/roles.decorator';
+
+@ApiTags('spaceships')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@ApiForbiddenResponse({
+  description: 'Only operators and admins can manage the fleet',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(...STAFF_ROLES)
+@Controller('spaceships')
+export class SpaceshipController {
+  private readonly logger = new Logger(SpaceshipController.name);
+
+  constructor(private readonly spaceshipService: SpaceshipService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List spaceships',
+    description: 'Returns the fleet. Retired spaceships are only included when requested.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of spaceships',
+    type: [SpaceshipDto],
+  })
+  async getAllSpaceships(@Query() query: ListSpaceshipsQueryDto): Promise<SpaceshipDto[]> {
+    this.logger.log('GET /spaceships');
+    const spaceships = await this.spaceshipService.findAll({ includeRetired: query.includeRetired });
+    return spaceships.map((spaceship) => this.toDto(spaceship));
+  }
+
+  @Get('availability')
+  @ApiOperation({
+    summary: 'Get fleet availability',
+    description: 'Returns where every active spaceship is at the given time and its next scheduled trip',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Fleet availability',
+    type: [SpaceshipAvailabilityDto],
+  })
+  async getAvailability(@Query() query: AtTimeQueryDto): Promise<SpaceshipAvailabilityDto[]> {
+    this.logger.log(`GET /spaceships/availability - ${JSON.stringify(query)}`);
+    const atTime = query.at ? DateUtils.parseISOString(query.at) : new Date();
+    return this.spaceshipService.getSpaceshipAvailability(atTime);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a spaceship' })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 200,
+    description: 'Spaceship retrieved',
+    type: SpaceshipDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  async getSpaceship(@Param('id') id: string): Promise<SpaceshipDto> {
+    this.logger.log(`GET /spaceships/${id}`);
+    return this.toDto(await this.spaceshipService.getById(id));
+  }
+
+  @Get(':id/location')
+  @ApiOperation({
+    summary: 'Get spaceship location at a time',
+    description: 'Returns the location code the spaceship will be at, or IN_TRANSIT if it is flying',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 200,
+    description: 'Spaceship location',
+    type: SpaceshipLocationDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  async getSpaceshipLocation(@Param('id') id: string, @Query() query: AtTimeQueryDto): Promise<SpaceshipLocationDto> {
+    this.logger.log(`GET /spaceships/${id}/location - ${JSON.stringify(query)}`);
+    const atTime = query.at ? DateUtils.parseISOString(query.at) : new Date();
+    const locationCode = await this.spaceshipService.getSpaceshipLocationAtTime(id, atTime);
+
+    return {
+      spaceshipId: id,
+      locationCode,
+      at: atTime.toISOString(),
+    };
+  }
+
+  @Get(':id/schedule.ics')
+  @ApiOperation({
+    summary: 'Get spaceship schedule as a calendar feed',
+    description:
+      'Returns the same trips as the schedule, repositioning trips included, as an iCalendar feed with one event per trip',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiProduces('text/calendar')
+  @ApiResponse({
+    status: 200,
+    description: 'iCalendar feed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  async getSpaceshipScheduleCalendar(
+    @Param('id') id: string,
+    @Query() query: ScheduleQueryDto,
+  ): Promise<StreamableFile> {
+    this.logger.log(`GET /spaceships/${id}/schedule.ics - ${JSON.stringify(query)}`);
+    const from = query.from ? DateUtils.parseISOString(query.from) : new Date();
+    const to = query.to ? DateUtils.parseISOString(query.to) : undefined;
+    const trips = await this.spaceshipService.getSchedule(id, from, to);
+    const calendar = ICalendar.build(trips.map(tripToCalendarEvent), { name: `Spaceship ${id} schedule` });
+
+    return new StreamableFile(Buffer.from(calendar), {
+      type: 'text/calendar; charset=utf-8',
+      disposition: `inline; filename="${id}-schedule.ics"`,
+    });
+  }
+
+  @Get(':id/schedule')
+  @ApiOperation({
+    summary: 'Get spaceship schedule',
+    description: 'Returns every trip the spaceship flies in the window, including non-revenue repositioning trips',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 200,
+    description: 'Spaceship schedule',
+    type: [ScheduledTripDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  async getSpaceshipSchedule(@Param('id') id: string, @Query() query: ScheduleQueryDto): Promise<ScheduledTripDto[]> {
+    this.logger.log(`GET /spaceships/${id}/schedule - ${JSON.stringify(query)}`);
+    const from = query.from ? DateUtils.parseISOString(query.from) : new Date();
+    const to = query.to ? DateUtils.parseISOString(query.to) : undefined;
+    const trips = await this.spaceshipService.getSchedule(id, from, to);
+
+    return trips.map((trip) => ({
+      tripId: trip.id,
+      type: trip.type,
+      isRevenue: trip.isRevenue,
+      departureLocationCode: trip.departureLocationCode,
+      destinationLocationCode: trip.destinationLocationCode,
+      departureAt: trip.departureAt.toISOString(),
+      arrivalAt: trip.arrivalAt.toISOString(),
+      status: trip.status,
+    }));
+  }
+
+  @Get(':id/maintenance')
+  @ApiOperation({
+    summary: 'List spaceship maintenance',
+    description: 'Returns the scheduled maintenance windows that overlap the window',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 200,
+    description: 'Scheduled maintenance',
+    type: [MaintenanceWindowDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  async getMaintenance(@Param('id') id: string, @Query() query: ScheduleQueryDto): Promise<MaintenanceWindowDto[]> {
+    this.logger.log(`GET /spaceships/${id}/maintenance - ${JSON.stringify(query)}`);
+    const from = query.from ? DateUtils.parseISOString(query.from) : new Date();
+    const to = query.to ? DateUtils.parseISOString(query.to) : undefined;
+    const maintenanceWindows = await this.spaceshipService.getMaintenanceWindows(id, from, to);
+    return maintenanceWindows.map((maintenanceWindow) => this.toMaintenanceDto(maintenanceWindow));
+  }
+
+  @Post(':id/maintenance')
+  @ApiOperation({
+    summary: 'Schedule maintenance',
+    description: 'Takes the spaceship out of service for the window. Refused when it collides with a booked trip.',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 201,
+    description: 'Maintenance scheduled',
+    type: MaintenanceWindowDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid maintenance window',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Spaceship is retired or has a trip during the window',
+    type: ErrorResponseDto,
+  })
+  async scheduleMaintenance(
+    @Param('id') id: string,
+    @Body() dto: CreateMaintenanceWindowDto,
+  ): Promise<MaintenanceWindowDto> {
+    this.logger.log(`POST /spaceships/${id}/maintenance - ${JSON.stringify(dto)}`);
+    return this.toMaintenanceDto(await this.spaceshipService.scheduleMaintenance(id, dto));
+  }
+
+  @Delete(':id/maintenance/:maintenanceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel maintenance' })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiParam({ name: 'maintenanceId', description: 'Maintenance window ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'Maintenance cancelled',
+  })
+  @ApiNotFoundResponse({
+    description: 'Maintenance window not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Maintenance window is already cancelled',
+    type: ErrorResponseDto,
+  })
+  async cancelMaintenance(
+    @Param('id') id: string,
+    @Param('maintenanceId', ParseUUIDPipe) maintenanceId: string,
+  ): Promise<void> {
+    this.logger.log(`DELETE /spaceships/${id}/maintenance/${maintenanceId}`);
+    await this.spaceshipService.cancelMaintenance(id, maintenanceId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Add a spaceship to the fleet' })
+  @ApiResponse({
+    status: 201,
+    description: 'Spaceship created',
+    type: SpaceshipDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid request data',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'A spaceship with this ID already exists',
+    type: ErrorResponseDto,
+  })
+  async createSpaceship(@Body() dto: CreateSpaceshipDto): Promise<SpaceshipDto> {
+    this.logger.log(`POST /spaceships - ${JSON.stringify(dto)}`);
+    return this.toDto(await this.spaceshipService.create(dto));
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a spaceship',
+    description:
+      'Renames, resizes or moves a spaceship. Moving is refused while the spaceship has upcoming trips, and seats cannot drop below what is already booked.',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 200,
+    description: 'Spaceship updated',
+    type: SpaceshipDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship or location not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Spaceship has upcoming trips that prevent the change',
+    type: ErrorResponseDto,
+  })
+  async updateSpaceship(@Param('id') id: string, @Body() dto: UpdateSpaceshipDto): Promise<SpaceshipDto> {
+    this.logger.log(`PATCH /spaceships/${id} - ${JSON.stringify(dto)}`);
+    return this.toDto(await this.spaceshipService.update(id, dto));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Retire a spaceship',
+    description: 'Takes a spaceship out of service. Refused while it still has future scheduled trips.',
+  })
+  @ApiParam({ name: 'id', description: 'Spaceship ID', example: 'SS-001' })
+  @ApiResponse({
+    status: 204,
+    description: 'Spaceship retired',
+  })
+  @ApiNotFoundResponse({
+    description: 'Spaceship not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Spaceship is already retired or still has scheduled trips',
+    type: ErrorResponseDto,
+  })
+  async retireSpaceship(@Param('id') id: string): Promise<void> {
+    this.logger.log(`DELETE /spaceships/${id}`);
+    await this.spaceshipService.retire(id);
+  }
+
+  private toDto(spaceship: Spaceship): SpaceshipDto {
+    return {
+      id: spaceship.id,
+      name: spaceship.name,
+      currentLocationCode: spaceship.currentLocationCode,
+      seatCapacity: spaceship.seatCapacity,
+      retiredAt: spaceship.retiredAt ? spaceship.retiredAt.toISOString() : null,
+      createdAt: spaceship.createdAt.toISOString(),
+      updatedAt: spaceship.updatedAt.toISOString(),
+    };
+  }
+
+  private toMaintenanceDto(maintenanceWindow: MaintenanceWindow): MaintenanceWindowDto {
+    return {
+      id: maintenanceWindow.id,
+      spaceshipId: maintenanceWindow.spaceshipId,
+      startsAt: maintenanceWindow.startsAt.toISOString(),
+      endsAt: maintenanceWindow.endsAt.toISOString(),
+      reason: maintenanceWindow.reason,
+      status: maintenanceWindow.status,
+    };
+  }
+}
@@ -34,6 +34,22 @@ export class Spaceship {
   })
   currentLocationCode: string;
 
+  @Column({
+    name: 'seat_capacity',
+    type: 'int',
+    default: 10,
+    comment: 'Number of passenger seats',
+  })
+  seatCapacity: number;
+
+  @Column({
+    name: 'retired_at',
+    type: 'timestamptz',
+    nullable: true,
+    comment: 'Time the spaceship was retired from service',
+  })
+  retiredAt: Date | null;
+
   // Relations
   @ManyToOne(() => Location, (location) => location.spaceshipsAtLocation, {
     eager: false,
@@ -5,10 +5,23 @@ import { Spaceship } from '@/modules/spaceship/spaceship.entity';
 import { Trip } from '@/modules/trip/trip.entity';
 import { SpaceshipRepository } from '@/modules/spaceship/spaceship.repository';
 import { TripRepository } from '@/modules/trip/trip.repository';
+import { TripOffer } from '@/modules/trip/trip-offer.entity';
+import { SpaceshipAvailabilityService } from '@/modules/spaceship/spaceship-availability.service';
+import { MaintenanceWindow } from '@/modules/spaceship/maintenance-window.entity';
+import { MaintenanceWindowRepository } from '@/modules/spaceship/maintenance-window.repository';
+import { SpaceshipController } from '@/modules/spaceship/spaceship.controller';
+import { LocationModule } from '@/modules/location/location.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Spaceship, Trip])],
-  providers: [SpaceshipService, SpaceshipRepository, TripRepository],
+  imports: [TypeOrmModule.forFeature([Spaceship, Trip, TripOffer, MaintenanceWindow]), LocationModule],
+  controllers: [SpaceshipController],
+  providers: [
+    SpaceshipService,
+    SpaceshipAvailabilityService,
+    SpaceshipRepository,
+    TripRepository,
+    MaintenanceWindowRepository,
+  ],
   exports: [SpaceshipService],
 })
 export class SpaceshipModule {}
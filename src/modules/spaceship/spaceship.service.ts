@@ -1,10 +1,30 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { LessThanOrEqual, MoreThan, Not } from 'typeorm';
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DataSource,
+  EntityManager,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+} from 'typeorm';
 import { Spaceship } from './spaceship.entity';
-import { TripStatus } from '../trip/trip.entity';
+import { Trip, TripStatus } from '../trip/trip.entity';
 import { SpaceshipAvailabilityDto } from './dto/spaceship-availability.dto';
+import { CreateSpaceshipDto } from './dto/create-spaceship.dto';
+import { UpdateSpaceshipDto } from './dto/update-spaceship.dto';
+import { LocationService } from '../location/location.service';
+import { DateUtils, TimeCalculator } from '@common/utils';
 import { SpaceshipRepository } from './spaceship.repository';
 import { TripRepository } from '../trip/trip.repository';
+import { TripOffer, TripOfferStatus } from '../trip/trip-offer.entity';
+import { SEAT_HOLDING_BOOKING_STATUSES } from '../trip/booking.entity';
+import { AvailabilityCandidate, IdleWindow, SpaceshipAvailabilityService } from './spaceship-availability.service';
+import { MaintenanceStatus, MaintenanceWindow } from './maintenance-window.entity';
+import { MaintenanceWindowRepository } from './maintenance-window.repository';
+import { CreateMaintenanceWindowDto } from './dto/create-maintenance-window.dto';
 
 @Injectable()
 export class SpaceshipService {
@@ -13,10 +33,18 @@ export class SpaceshipService {
   constructor(
     private spaceshipRepository: SpaceshipRepository,
     private tripRepository: TripRepository,
+    private maintenanceWindowRepository: MaintenanceWindowRepository,
+    private locationService: LocationService,
+    private availabilityService: SpaceshipAvailabilityService,
+    private dataSource: DataSource,
   ) {}
 
-  async findAll(): Promise<Spaceship[]> {
+  /**
+   * Get spaceships, excluding retired ones unless asked otherwise
+   */
+  async findAll(options?: { includeRetired?: boolean }): Promise<Spaceship[]> {
     return this.spaceshipRepository.find({
+      where: options?.includeRetired ? {} : { retiredAt: IsNull() },
       relations: ['currentLocation'],
       order: { id: 'ASC' },
     });
@@ -29,234 +57,534 @@ export class SpaceshipService {
     });
   }
 
+  async getById(id: string): Promise<Spaceship> {
+    const spaceship = await this.findById(id);
+
+    if (!spaceship) {
+      throw new NotFoundException(`Spaceship ${id} not found`);
+    }
+
+    return spaceship;
+  }
+
+  async create(dto: CreateSpaceshipDto): Promise<Spaceship> {
+    const locationCode = dto.currentLocationCode.toUpperCase();
+    await this.locationService.validateLocationCodes([locationCode]);
+
+    const existing = await this.spaceshipRepository.count({ where: { id: dto.id } });
+    if (existing > 0) {
+      throw new ConflictException(`Spaceship ${dto.id} already exists`);
+    }
+
+    await this.spaceshipRepository.save(
+      this.spaceshipRepository.create({
+        id: dto.id,
+        name: dto.name,
+        currentLocationCode: locationCode,
+        seatCapacity: dto.seatCapacity,
+      }),
+    );
+
+    this.logger.log(`Spaceship ${dto.id} added to the fleet at ${locationCode}`);
+    return this.getById(dto.id);
+  }
+
   /**
-   * Find available spaceships at a given location and time
-   * A spaceship is available if:
-   * 1. It will be at the departure location at the requested time
-   * 2. It doesn't have any scheduled trips departing at or after that time
+   * Update a spaceship
+   * Moving a ship is refused while it has upcoming trips, since those were planned from its current position
    */
-  async findAvailableSpaceships(departureLocationCode: string, requestedDepartureTime: Date): Promise<Spaceship[]> {
-    this.logger.debug(
-      `Finding available spaceships at ${departureLocationCode} for ${requestedDepartureTime.toISOString()}`,
-    );
+  async update(id: string, dto: UpdateSpaceshipDto): Promise<Spaceship> {
+    const spaceship = await this.getById(id);
+
+    if (dto.name !== undefined) {
+      spaceship.name = dto.name;
+    }
 
-    const allSpaceships = await this.spaceshipRepository.find();
-    const availableSpaceships: Spaceship[] = [];
+    if (dto.currentLocationCode !== undefined) {
+      const locationCode = dto.currentLocationCode.toUpperCase();
 
-    for (const spaceship of allSpaceships) {
-      const isAvailable = await this.isSpaceshipAvailable(spaceship.id, departureLocationCode, requestedDepartureTime);
+      if (locationCode !== spaceship.currentLocationCode) {
+        await this.locationService.validateLocationCodes([locationCode]);
 
-      if (isAvailable) {
-        availableSpaceships.push(spaceship);
+        const upcomingTrips = await this.countUpcomingTrips(id);
+        if (upcomingTrips > 0) {
+          throw new ConflictException(
+            `Spaceship ${id} has ${upcomingTrips} upcoming trip(s) and cannot be moved to another location`,
+          );
+        }
+
+        spaceship.currentLocationCode = locationCode;
+      }
+    }
+
+    if (dto.seatCapacity !== undefined && dto.seatCapacity < spaceship.seatCapacity) {
+      const mostBookedSeats = await this.getMostBookedSeatsOnUpcomingTrips(id);
+      if (mostBookedSeats > dto.seatCapacity) {
+        throw new ConflictException(
+          `Spaceship ${id} has an upcoming trip with ${mostBookedSeats} booked seats and cannot be reduced to ${dto.seatCapacity}`,
+        );
       }
     }
 
-    this.logger.debug(`Found ${availableSpaceships.length} available spaceships`);
-    return availableSpaceships;
+    if (dto.seatCapacity !== undefined) {
+      spaceship.seatCapacity = dto.seatCapacity;
+    }
+
+    await this.spaceshipRepository.save(spaceship);
+    return this.getById(id);
   }
 
   /**
-   * Check if a specific spaceship is available at a location and time
+   * Retire a spaceship from service
+   * Refused while the ship still has future scheduled trips
    */
-  async isSpaceshipAvailable(spaceshipId: string, locationCode: string, requestedTime: Date): Promise<boolean> {
-    // Get the spaceship's location at the requested time
-    const locationAtTime = await this.getSpaceshipLocationAtTime(spaceshipId, requestedTime);
+  async retire(id: string): Promise<void> {
+    const spaceship = await this.getById(id);
 
-    // Check if spaceship is at the requested location
-    if (locationAtTime !== locationCode) {
-      return false;
+    if (spaceship.retiredAt) {
+      throw new ConflictException(`Spaceship ${id} is already retired`);
     }
 
-    // Check if there's any trip scheduled at or after this time
-    const conflictingTrip = await this.tripRepository.findOne({
-      where: {
-        spaceshipId,
-        status: Not(TripStatus.CANCELLED),
-        departureAt: requestedTime,
+    const upcomingTrips = await this.countUpcomingTrips(id);
+    if (upcomingTrips > 0) {
+      throw new ConflictException(
+        `Spaceship ${id} has ${upcomingTrips} upcoming trip(s). Cancel or reassign them before retiring it.`,
+      );
+    }
+
+    await this.spaceshipRepository.update({ id }, { retiredAt: new Date() });
+    this.logger.log(`Spaceship ${id} retired`);
+  }
+
+  /**
+   * Find available spaceships at a given location and time, best candidate first
+   * A spaceship is available if:
+   * 1. It will be at the departure location at the requested time
+   * 2. None of its trips or holds overlap the requested [departure, arrival) interval
+   * 3. It has at least the requested number of seats
+   */
+  async findAvailableSpaceships(
+    departureLocationCode: string,
+    requestedDepartureTime: Date,
+    requestedArrivalTime: Date,
+    minSeats: number = 1,
+    options: { excludeTripId?: string; manager?: EntityManager } = {},
+  ): Promise<AvailabilityCandidate[]> {
+    this.logger.debug(
+      `Finding available spaceships at ${departureLocationCode} for ${requestedDepartureTime.toISOString()}`,
+    );
+
+    const candidates = await this.availabilityService.findCandidates(
+      {
+        locationCode: departureLocationCode,
+        earliestDeparture: requestedDepartureTime,
+        durationMs: requestedArrivalTime.getTime() - requestedDepartureTime.getTime(),
+        minSeats,
+        excludeTripId: options.excludeTripId,
       },
+      options.manager,
+    );
+
+    this.logger.debug(`Found ${candidates.length} available spaceships`);
+    return candidates;
+  }
+
+  /**
+   * Find the spaceship that can fly from a location the soonest at or after a given time
+   */
+  async findEarliestAvailableSpaceship(
+    departureLocationCode: string,
+    afterTime: Date,
+    durationMs: number,
+    minSeats: number = 1,
+    excludeTripId?: string,
+  ): Promise<AvailabilityCandidate | null> {
+    const [candidate] = await this.availabilityService.findCandidates({
+      locationCode: departureLocationCode,
+      earliestDeparture: afterTime,
+      latestDeparture: null,
+      durationMs,
+      minSeats,
+      excludeTripId,
+      limit: 1,
     });
 
-    return !conflictingTrip;
+    return candidate ?? null;
   }
 
   /**
-   * Get spaceship location at a specific time
-   * This considers all trips and determines where the spaceship will be
+   * Find every spaceship that can fly from a location within a departure window, soonest first
+   * Each idle window gives one candidate departing as early as the window allows; pass `null` as the latest
+   * departure for no limit
    */
-  async getSpaceshipLocationAtTime(spaceshipId: string, targetTime: Date): Promise<string> {
-    const spaceship = await this.spaceshipRepository.findOne({
-      where: { id: spaceshipId },
+  async findDepartureCandidates(
+    departureLocationCode: string,
+    earliestDeparture: Date,
+    latestDeparture: Date | null,
+    durationMs: number,
+    minSeats: number = 1,
+    excludeTripId?: string,
+  ): Promise<AvailabilityCandidate[]> {
+    return this.availabilityService.findCandidates({
+      locationCode: departureLocationCode,
+      earliestDeparture,
+      latestDeparture,
+      durationMs,
+      minSeats,
+      excludeTripId,
     });
+  }
 
-    if (!spaceship) {
-      throw new Error(`Spaceship ${spaceshipId} not found`);
-    }
+  /**
+   * Every stretch of time from a given moment on that a spaceship with enough seats sits idle, at any location
+   * For searches that weigh many departures at once and would otherwise query availability for each
+   */
+  async findIdleWindows(from: Date, minSeats: number = 1): Promise<IdleWindow[]> {
+    return this.availabilityService.getIdleWindows({ start: from }, { minSeats });
+  }
+
+  /**
+   * Check if a specific spaceship is available at a location for a trip
+   */
+  async isSpaceshipAvailable(
+    spaceshipId: string,
+    locationCode: string,
+    requestedDepartureTime: Date,
+    requestedArrivalTime: Date,
+  ): Promise<boolean> {
+    const candidates = await this.availabilityService.findCandidates({
+      locationCode,
+      earliestDeparture: requestedDepartureTime,
+      durationMs: requestedArrivalTime.getTime() - requestedDepartureTime.getTime(),
+      spaceshipIds: [spaceshipId],
+    });
+
+    return candidates.length > 0;
+  }
+
+  /**
+   * Lock a spaceship's row inside the caller's transaction before checking and changing its schedule
+   * Bookings and maintenance of the same ship then wait for each other instead of both passing the check
+   */
+  async lockForScheduling(manager: EntityManager, spaceshipId: string): Promise<void> {
+    await manager.findOne(Spaceship, { where: { id: spaceshipId }, lock: { mode: 'pessimistic_write' } });
+  }
 
-    // Find the last trip that completes before or at target time
-    const lastCompletedTrip = await this.tripRepository.findOne({
+  /**
+   * Check whether anything keeps a spaceship from flying the [departure, arrival) interval:
+   * a trip too close to leave the minimum turnaround, scheduled maintenance, or an active hold
+   * Pass a transaction's entity manager to see its uncommitted writes, and the trip being moved to ignore it
+   */
+  async hasScheduleConflict(
+    spaceshipId: string,
+    departureTime: Date,
+    arrivalTime: Date,
+    manager: EntityManager = this.tripRepository.manager,
+    options: { includeHolds?: boolean; excludeTripId?: string } = {},
+  ): Promise<boolean> {
+    const turnaroundMs = this.availabilityService.minTurnaroundMs;
+    const conflictingTrips = await manager.count(Trip, {
       where: {
+        ...(options.excludeTripId ? { id: Not(options.excludeTripId) } : {}),
         spaceshipId,
         status: Not(TripStatus.CANCELLED),
-        arrivalAt: LessThanOrEqual(targetTime),
+        departureAt: LessThan(DateUtils.addMilliseconds(arrivalTime, turnaroundMs)),
+        arrivalAt: MoreThan(DateUtils.addMilliseconds(departureTime, -turnaroundMs)),
       },
-      order: { arrivalAt: 'DESC' },
     });
 
-    // If there's a completed trip, spaceship is at its destination
-    if (lastCompletedTrip) {
-      // But check if there's a trip departing after this arrival
-      const subsequentTrip = await this.tripRepository.findOne({
-        where: {
-          spaceshipId,
-          status: Not(TripStatus.CANCELLED),
-          departureAt: MoreThan(lastCompletedTrip.arrivalAt) && LessThanOrEqual(targetTime),
-        },
-        order: { departureAt: 'ASC' },
-      });
-
-      if (subsequentTrip) {
-        // Check if this subsequent trip is ongoing at target time
-        if (targetTime >= subsequentTrip.departureAt && targetTime < subsequentTrip.arrivalAt) {
-          return 'IN_TRANSIT';
-        }
-        // If we're past its arrival, recursively check from there
-        if (targetTime >= subsequentTrip.arrivalAt) {
-          return this.getSpaceshipLocationAtTime(spaceshipId, targetTime);
-        }
-      }
+    if (conflictingTrips > 0) {
+      return true;
+    }
+
+    const maintenance = await manager.count(MaintenanceWindow, {
+      where: {
+        spaceshipId,
+        status: MaintenanceStatus.SCHEDULED,
+        startsAt: LessThan(arrivalTime),
+        endsAt: MoreThan(departureTime),
+      },
+    });
 
-      return lastCompletedTrip.destinationLocationCode;
+    if (maintenance > 0 || options.includeHolds === false) {
+      return maintenance > 0;
     }
 
-    // Check if there's an ongoing trip at target time
-    const ongoingTrip = await this.tripRepository.findOne({
+    // Pending alternative-time offers hold the spaceship until they expire
+    const activeHolds = await manager.count(TripOffer, {
       where: {
         spaceshipId,
-        status: Not(TripStatus.CANCELLED),
-        departureAt: LessThanOrEqual(targetTime),
-        arrivalAt: MoreThan(targetTime),
+        status: TripOfferStatus.PENDING,
+        departureAt: LessThan(DateUtils.addMilliseconds(arrivalTime, turnaroundMs)),
+        arrivalAt: MoreThan(DateUtils.addMilliseconds(departureTime, -turnaroundMs)),
+        expiresAt: MoreThan(new Date()),
       },
     });
 
-    if (ongoingTrip) {
-      return 'IN_TRANSIT';
+    return activeHolds > 0;
+  }
+
+  /**
+   * Get spaceship location at a specific time
+   * This considers all trips and determines where the spaceship will be
+   */
+  async getSpaceshipLocationAtTime(spaceshipId: string, targetTime: Date): Promise<string> {
+    const [position] = await this.availabilityService.getFleetPositions(targetTime, [spaceshipId]);
+
+    if (!position) {
+      throw new NotFoundException(`Spaceship ${spaceshipId} not found`);
     }
 
-    // No trips affect the spaceship at this time, it's at its initial location
-    return spaceship.currentLocationCode;
+    return position.locationCode;
   }
 
   /**
-   * Get the next available time for a spaceship at a specific location
+   * Get the next time a spaceship is idle at a specific location, at or after the given time
    */
   async getNextAvailableTime(spaceshipId: string, locationCode: string, afterTime: Date): Promise<Date | null> {
     this.logger.debug(
       `Getting next available time for ${spaceshipId} at ${locationCode} after ${afterTime.toISOString()}`,
     );
 
-    // First check current location at the given time
-    const currentLocation = await this.getSpaceshipLocationAtTime(spaceshipId, afterTime);
+    const idleWindows = await this.availabilityService.getIdleWindows(
+      { start: afterTime },
+      { spaceshipIds: [spaceshipId] },
+    );
+    const idleWindow = idleWindows.find((window) => window.locationCode === locationCode);
 
-    if (currentLocation === locationCode) {
-      // Check if there's a trip departing at or after this time
-      const nextDeparture = await this.tripRepository.findOne({
-        where: {
-          spaceshipId,
-          status: Not(TripStatus.CANCELLED),
-          departureAt: MoreThan(afterTime),
-          departureLocationCode: locationCode,
-        },
-        order: { departureAt: 'ASC' },
-      });
-
-      if (!nextDeparture) {
-        // No future departure from this location, so available from afterTime
-        return afterTime;
+    if (!idleWindow) {
+      // Spaceship will never be at this location based on current schedule
+      return null;
+    }
+
+    return idleWindow.idleFrom && idleWindow.idleFrom > afterTime ? idleWindow.idleFrom : afterTime;
+  }
+
+  /**
+   * Get availability information for all spaceships
+   */
+  async getSpaceshipAvailability(atTime: Date = new Date()): Promise<SpaceshipAvailabilityDto[]> {
+    const positions = await this.availabilityService.getFleetPositions(atTime);
+
+    return positions.map((position) => {
+      if (position.ongoingTrip) {
+        return {
+          spaceshipId: position.spaceshipId,
+          locationCode: 'IN_TRANSIT',
+          availableFrom: position.ongoingTrip.arrivalAt,
+          nextScheduledTrip: {
+            tripId: position.ongoingTrip.tripId,
+            departureAt: position.ongoingTrip.departureAt,
+            destinationCode: position.ongoingTrip.destinationLocationCode,
+          },
+        };
+      }
+
+      return {
+        spaceshipId: position.spaceshipId,
+        locationCode: position.locationCode,
+        availableFrom: atTime,
+        nextScheduledTrip: position.nextTrip
+          ? {
+              tripId: position.nextTrip.tripId,
+              departureAt: position.nextTrip.departureAt,
+              destinationCode: position.nextTrip.destinationLocationCode,
+            }
+          : undefined,
+      };
+    });
+  }
+
+  /**
+   * Share of active spaceships that are flying at a point in time, from 0 to 1
+   */
+  async getFleetUtilization(atTime: Date): Promise<number> {
+    const [activeCount, flying] = await Promise.all([
+      this.spaceshipRepository.count({ where: { retiredAt: IsNull() } }),
+      this.tripRepository
+        .createQueryBuilder('trip')
+        .innerJoin('trip.spaceship', 'spaceship')
+        .select('COUNT(DISTINCT trip.spaceshipId)', 'count')
+        .where('spaceship.retiredAt IS NULL')
+        .andWhere('trip.status <> :cancelled', { cancelled: TripStatus.CANCELLED })
+        .andWhere('trip.departureAt <= :atTime AND trip.arrivalAt > :atTime', { atTime })
+        .getRawOne<{ count: string }>(),
+    ]);
+
+    if (activeCount === 0) {
+      return 0;
+    }
+
+    return Number(flying?.count ?? 0) / activeCount;
+  }
+
+  /**
+   * Find the nearest idle spaceship that can fly empty to a location in time for a departure
+   * A candidate must be idle where it is parked when the repositioning flight leaves,
+   * and must have nothing scheduled from then on, since the flight takes it away from there.
+   */
+  async findRepositioningCandidate(
+    targetLocationCode: string,
+    departureTime: Date,
+    minSeats: number,
+    earliestStart: Date = new Date(),
+  ): Promise<{ spaceshipId: string; fromLocationCode: string; departureAt: Date; arrivalAt: Date } | null> {
+    const [distances, idleWindows] = await Promise.all([
+      this.locationService.getDistancesFrom(targetLocationCode),
+      this.availabilityService.getIdleWindows({ start: earliestStart }, { minSeats }),
+    ]);
+
+    // Only a ship's open-ended last idle window leaves it free to fly away for good
+    const parkedByLocation = new Map<string, IdleWindow[]>();
+    for (const window of idleWindows) {
+      if (window.idleUntil) continue;
+      parkedByLocation.set(window.locationCode, [...(parkedByLocation.get(window.locationCode) ?? []), window]);
+    }
+
+    // The empty flight has to land a full turnaround before the customer trip leaves
+    const repositioningArrival = DateUtils.addMilliseconds(departureTime, -this.availabilityService.minTurnaroundMs);
+
+    // Nearest first, so the first candidate found needs the shortest empty flight
+    for (const distance of distances) {
+      const repositioningDeparture = new Date(
+        repositioningArrival.getTime() - TimeCalculator.calculateTravelTime(distance.distanceMiles),
+      );
+
+      if (repositioningDeparture < earliestStart) {
+        break;
       }
 
-      // Available until the next departure
-      return afterTime;
+      const parked = (parkedByLocation.get(distance.toCode) ?? [])
+        .filter((window) => !window.idleFrom || window.idleFrom <= repositioningDeparture)
+        .sort((a, b) => a.seatCapacity - b.seatCapacity || a.spaceshipId.localeCompare(b.spaceshipId));
+
+      if (parked.length > 0) {
+        this.logger.debug(
+          `Spaceship ${parked[0].spaceshipId} can reposition from ${distance.toCode} to ${targetLocationCode}`,
+        );
+        return {
+          spaceshipId: parked[0].spaceshipId,
+          fromLocationCode: distance.toCode,
+          departureAt: repositioningDeparture,
+          arrivalAt: repositioningArrival,
+        };
+      }
     }
 
-    // Spaceship is not at the location, find when it will arrive there next
-    const futureArrivals = await this.tripRepository.find({
+    return null;
+  }
+
+  /**
+   * Get a spaceship's scheduled maintenance overlapping a window
+   */
+  async getMaintenanceWindows(spaceshipId: string, from: Date, to?: Date): Promise<MaintenanceWindow[]> {
+    await this.getById(spaceshipId);
+
+    return this.maintenanceWindowRepository.find({
       where: {
         spaceshipId,
-        status: Not(TripStatus.CANCELLED),
-        arrivalAt: MoreThan(afterTime),
-        destinationLocationCode: locationCode,
+        status: MaintenanceStatus.SCHEDULED,
+        endsAt: MoreThan(from),
+        ...(to ? { startsAt: LessThan(to) } : {}),
       },
-      order: { arrivalAt: 'ASC' },
+      order: { startsAt: 'ASC' },
     });
+  }
 
-    if (futureArrivals.length > 0) {
-      return futureArrivals[0].arrivalAt;
+  /**
+   * Take a spaceship out of service for maintenance
+   * Refused when the window collides with a booked trip or its turnaround, or with a pending offer's hold, since
+   * that trip would be left without its ship
+   */
+  async scheduleMaintenance(spaceshipId: string, dto: CreateMaintenanceWindowDto): Promise<MaintenanceWindow> {
+    const spaceship = await this.getById(spaceshipId);
+
+    if (spaceship.retiredAt) {
+      throw new ConflictException(`Spaceship ${spaceshipId} is retired`);
     }
 
-    // Spaceship will never arrive at this location based on current schedule
-    return null;
+    const startsAt = DateUtils.parseISOString(dto.startsAt);
+    const endsAt = DateUtils.parseISOString(dto.endsAt);
+
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('Maintenance must end after it starts');
+    }
+
+    if (endsAt <= new Date()) {
+      throw new BadRequestException('Maintenance must end in the future');
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      await this.lockForScheduling(queryRunner.manager, spaceshipId);
+
+      if (await this.hasScheduleConflict(spaceshipId, startsAt, endsAt, queryRunner.manager)) {
+        throw new ConflictException(
+          `Maintenance collides with a trip, its turnaround, other maintenance or a pending offer of spaceship ${spaceshipId}`,
+        );
+      }
+
+      const maintenanceWindow = await queryRunner.manager.save(
+        MaintenanceWindow,
+        this.maintenanceWindowRepository.create({
+          spaceshipId,
+          startsAt,
+          endsAt,
+          reason: dto.reason ?? null,
+        }),
+      );
+      await queryRunner.commitTransaction();
+
+      this.logger.log(
+        `Maintenance ${maintenanceWindow.id} scheduled for ${spaceshipId} from ${startsAt.toISOString()} to ${endsAt.toISOString()}`,
+      );
+      return maintenanceWindow;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
   }
 
   /**
-   * Get availability information for all spaceships
+   * Cancel scheduled maintenance, putting the spaceship back into service for that time
    */
-  async getSpaceshipAvailability(atTime: Date = new Date()): Promise<SpaceshipAvailabilityDto[]> {
-    const spaceships = await this.findAll();
-    const availability: SpaceshipAvailabilityDto[] = [];
-
-    for (const spaceship of spaceships) {
-      const locationAtTime = await this.getSpaceshipLocationAtTime(spaceship.id, atTime);
-
-      if (locationAtTime === 'IN_TRANSIT') {
-        // Find the ongoing trip
-        const ongoingTrip = await this.tripRepository.findOne({
-          where: {
-            spaceshipId: spaceship.id,
-            status: Not(TripStatus.CANCELLED),
-            departureAt: LessThanOrEqual(atTime),
-            arrivalAt: MoreThan(atTime),
-          },
-        });
-
-        if (ongoingTrip) {
-          availability.push({
-            spaceshipId: spaceship.id,
-            locationCode: 'IN_TRANSIT',
-            availableFrom: ongoingTrip.arrivalAt,
-            nextScheduledTrip: {
-              tripId: ongoingTrip.id,
-              departureAt: ongoingTrip.departureAt,
-              destinationCode: ongoingTrip.destinationLocationCode,
-            },
-          });
-        }
-      } else {
-        // Find next scheduled trip
-        const nextTrip = await this.tripRepository.findOne({
-          where: {
-            spaceshipId: spaceship.id,
-            status: Not(TripStatus.CANCELLED),
-            departureAt: MoreThan(atTime),
-          },
-          order: { departureAt: 'ASC' },
-        });
-
-        availability.push({
-          spaceshipId: spaceship.id,
-          locationCode: locationAtTime,
-          availableFrom: atTime,
-          nextScheduledTrip: nextTrip
-            ? {
-                tripId: nextTrip.id,
-                departureAt: nextTrip.departureAt,
-                destinationCode: nextTrip.destinationLocationCode,
-              }
-            : undefined,
-        });
-      }
+  async cancelMaintenance(spaceshipId: string, maintenanceId: string): Promise<void> {
+    const maintenanceWindow = await this.maintenanceWindowRepository.findOne({
+      where: { id: maintenanceId, spaceshipId },
+    });
+
+    if (!maintenanceWindow) {
+      throw new NotFoundException(`Maintenance window ${maintenanceId} not found for spaceship ${spaceshipId}`);
+    }
+
+    if (maintenanceWindow.status === MaintenanceStatus.CANCELLED) {
+      throw new ConflictException('Maintenance window is already cancelled');
     }
 
-    return availability;
+    await this.maintenanceWindowRepository.update({ id: maintenanceId }, { status: MaintenanceStatus.CANCELLED });
+    this.logger.log(`Maintenance ${maintenanceId} for ${spaceshipId} cancelled`);
+  }
+
+  /**
+   * Get a spaceship's schedule, including non-revenue repositioning trips
+   */
+  async getSchedule(spaceshipId: string, from: Date, to?: Date): Promise<Trip[]> {
+    await this.getById(spaceshipId);
+
+    return this.tripRepository.find({
+      where: {
+        spaceshipId,
+        arrivalAt: MoreThanOrEqual(from),
+        ...(to ? { departureAt: LessThanOrEqual(to) } : {}),
+      },
+      relations: ['departureLocation', 'destinationLocation'],
+      order: { departureAt: 'ASC' },
+    });
   }
 
   /**
@@ -265,4 +593,34 @@ export class SpaceshipService {
   async updateCurrentLocation(spaceshipId: string, newLocationCode: string): Promise<void> {
     await this.spaceshipRepository.update({ id: spaceshipId }, { currentLocationCode: newLocationCode });
   }
+
+  private async countUpcomingTrips(spaceshipId: string): Promise<number> {
+    return this.tripRepository.count({
+      where: {
+        spaceshipId,
+        status: In([TripStatus.PENDING_PAYMENT, TripStatus.SCHEDULED, TripStatus.IN_PROGRESS]),
+        arrivalAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  private async getMostBookedSeatsOnUpcomingTrips(spaceshipId: string): Promise<number> {
+    const result = await this.tripRepository
+      .createQueryBuilder('trip')
+      .innerJoin('trip.bookings', 'booking', 'booking.status IN (:...holding)', {
+        holding: SEAT_HOLDING_BOOKING_STATUSES,
+      })
+      .select('SUM(booking.seats)', 'seats')
+      .where('trip.spaceshipId = :spaceshipId', { spaceshipId })
+      .andWhere('trip.status IN (:...statuses)', {
+        statuses: [TripStatus.PENDING_PAYMENT, TripStatus.SCHEDULED, TripStatus.IN_PROGRESS],
+      })
+      .andWhere('trip.arrivalAt > :now', { now: new Date() })
+      .groupBy('trip.id')
+      .orderBy('seats', 'DESC')
+      .limit(1)
+      .getRawOne<{ seats: string }>();
+
+    return result ? Number(result.seats) : 0;
+  }
 }
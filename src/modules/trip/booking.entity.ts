@@ -0,0 +1,185 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Check,
+} from 'typeorm';
+import { Trip } from '@modules/trip/trip.entity';
+import { Itinerary } from '@modules/itinerary/itinerary.entity';
+import { User } from '@modules/user/user.entity';
+
+export enum BookingStatus {
+  PENDING_PAYMENT = 'PENDING_PAYMENT',
+  CONFIRMED = 'CONFIRMED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Bookings that hold seats: unpaid ones keep their seats until the payment deadline
+ */
+export const SEAT_HOLDING_BOOKING_STATUSES = [BookingStatus.PENDING_PAYMENT, BookingStatus.CONFIRMED];
+
+@Entity('bookings')
+@Index(['tripId', 'status']) // Optimize seat counting per trip
+@Index(['itineraryId'])
+@Index(['userId']) // Optimize listing a customer's trips
+@Index(['status', 'paymentDueAt']) // Optimize releasing unpaid bookings
+@Check(`"seats" > 0`)
+export class Booking {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique booking identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'trip_id',
+    type: 'uuid',
+    comment: 'Trip the passenger is booked on',
+  })
+  tripId: string;
+
+  @Column({
+    name: 'passenger_name',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Name of the lead passenger',
+  })
+  passengerName: string | null;
+
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Number of seats reserved by this booking',
+  })
+  seats: number;
+
+  @Column({
+    type: 'enum',
+    enum: BookingStatus,
+    default: BookingStatus.CONFIRMED,
+    comment: 'Current status of the booking',
+  })
+  status: BookingStatus;
+
+  @Column({
+    name: 'itinerary_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Multi-leg itinerary this booking is a leg of',
+  })
+  itineraryId: string | null;
+
+  @Column({
+    name: 'leg_index',
+    type: 'int',
+    nullable: true,
+    comment: 'Position of this leg within its itinerary, starting at 0',
+  })
+  legIndex: number | null;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Customer account that owns the booking',
+  })
+  userId: string | null;
+
+  @Column({
+    name: 'fare_amount',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    comment: 'Total fare quoted for all seats when booked; later price changes do not affect it',
+  })
+  fareAmount: number | null;
+
+  @Column({
+    name: 'fare_currency',
+    type: 'varchar',
+    length: 3,
+    nullable: true,
+    comment: 'ISO 4217 currency of the fare',
+  })
+  fareCurrency: string | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'payment_due_at',
+    nullable: true,
+    comment: 'Deadline for paying a PENDING_PAYMENT booking before its seats are released',
+  })
+  paymentDueAt: Date | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'cancelled_at',
+    nullable: true,
+    comment: 'Time the booking was cancelled',
+  })
+  cancelledAt: Date | null;
+
+  @Column({
+    name: 'cancellation_reason',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'Why the booking was cancelled, as given by whoever cancelled it',
+  })
+  cancellationReason: string | null;
+
+  @Column({
+    name: 'cancellation_fee',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    comment: 'Part of the payment kept under the cancellation policy',
+  })
+  cancellationFee: number | null;
+
+  // Relations
+  @ManyToOne(() => Trip, (trip) => trip.bookings, {
+    eager: false,
+    nullable: false,
+  })
+  @JoinColumn({ name: 'trip_id' })
+  trip: Trip;
+
+  @ManyToOne(() => Itinerary, (itinerary) => itinerary.bookings, {
+    eager: false,
+    nullable: true,
+  })
+  @JoinColumn({ name: 'itinerary_id' })
+  itinerary: Itinerary | null;
+
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Booking creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
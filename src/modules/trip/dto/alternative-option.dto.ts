@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FareDto } from '@/modules/pricing/dto/fare-quote.dto';
+
+export class AlternativeOptionDto {
+  @ApiProperty({ example: 1, description: 'Position in the ranking, 1 being the closest match to the request' })
+  rank: number;
+
+  @ApiProperty({ example: 'SS-002' })
+  spaceshipId: string;
+
+  @ApiProperty({ example: 'EWR', description: 'May be a spaceport near the requested one' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T12:30:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T13:00:00.000Z' })
+  arrivalAt: string;
+
+  @ApiProperty({
+    example: 150,
+    description: 'Minutes between the requested and the offered departure; negative when the option leaves earlier',
+  })
+  timeDifferenceMinutes: number;
+
+  @ApiProperty({
+    example: 12.3,
+    description: 'Distance from the requested departure spaceport, 0 when it is the same one',
+  })
+  distanceFromRequestedMiles: number;
+
+  @ApiProperty({ type: FareDto, required: false, description: 'Fare for the option; not set for reschedules' })
+  fare?: FareDto;
+
+  @ApiProperty({
+    example: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    required: false,
+    description:
+      'Set on the option held for the customer, to pass to POST /trips/offers/:id/accept. Other options are not held: request them with POST /trips/request.',
+  })
+  offerId?: string;
+}
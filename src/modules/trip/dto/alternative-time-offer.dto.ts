@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { TripStatusDto } from './trip-status.dto';
+import { AlternativeOptionDto } from './alternative-option.dto';
 
 export class AlternativeTimeOfferDto extends TripStatusDto {
   @ApiProperty({
@@ -9,7 +10,8 @@ export class AlternativeTimeOfferDto extends TripStatusDto {
   declare status: string;
 
   @ApiProperty({
-    example: 'No spaceship available at requested time. Please confirm if you would like to book for the alternative time shown.',
+    example:
+      'No spaceship available at requested time. Please confirm if you would like to book for the alternative time shown.',
     description: 'Message explaining the alternative time offer',
   })
   message: string;
@@ -19,4 +21,23 @@ export class AlternativeTimeOfferDto extends TripStatusDto {
     description: 'Indicates this is just a proposal, not a confirmed booking',
   })
   isProposal: boolean = true;
+
+  @ApiProperty({
+    example: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    description: 'ID of the hold to pass to POST /trips/offers/:id/accept',
+  })
+  offerId: string;
+
+  @ApiProperty({
+    example: '2025-01-15T10:15:00.000Z',
+    description: 'Time after which the held spaceship is released',
+  })
+  expiresAt: string;
+
+  @ApiProperty({
+    type: [AlternativeOptionDto],
+    description:
+      'Best options found across spaceships, earlier and later departures and nearby spaceports, closest match first. The first one is the option held by this offer.',
+  })
+  alternatives: AlternativeOptionDto[];
 }
@@ -0,0 +1,15 @@
+import { IsOptional, IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelBookingDto {
+  @ApiProperty({
+    example: 'Change of plans',
+    required: false,
+    description: 'Why the booking is being cancelled; kept on the booking for the record',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  reason?: string;
+}
@@ -1,11 +1,23 @@
-import { IsUUID } from 'class-validator';
+import { IsBoolean, IsOptional, IsString, Length } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CancelTripDto {
   @ApiProperty({
-    example: '550e8400-e29b-41d4-a716-446655440000',
-    description: 'UUID of the trip to cancel',
+    example: 'Solar storm over the destination spaceport',
+    description: 'Why operations cancelled the trip; kept on the trip for the record',
+    maxLength: 500,
   })
-  @IsUUID('4', { message: 'Invalid trip ID format' })
-  tripId: string;
+  @IsString()
+  @Length(1, 500)
+  reason: string;
+
+  @ApiProperty({
+    example: false,
+    required: false,
+    default: false,
+    description: 'Also cancel a trip that has already departed',
+  })
+  @IsOptional()
+  @IsBoolean()
+  override?: boolean;
 }
@@ -0,0 +1,61 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { CancellationPolicyDto } from '@/modules/cancellation-policy/dto/cancellation-policy.dto';
+
+export class CancellationPolicySummaryDto extends OmitType(CancellationPolicyDto, ['createdAt'] as const) {}
+
+export class BookingCancellationQuoteDto {
+  @ApiProperty({ example: 'a3bb189e-8bf9-3888-9912-ace4e6543002' })
+  bookingId: string;
+
+  @ApiProperty({ example: 2 })
+  seats: number;
+
+  @ApiProperty({ example: 'CONFIRMED', enum: ['PENDING_PAYMENT', 'CONFIRMED'] })
+  status: string;
+
+  @ApiProperty({ example: 886.45, description: 'Amount paid and not yet refunded' })
+  paidAmount: number;
+
+  @ApiProperty({ example: 443.23, description: 'Part of the payment that would be kept' })
+  fee: number;
+
+  @ApiProperty({ example: 443.22, description: 'Amount that would be refunded' })
+  refundAmount: number;
+}
+
+export class CancellationQuoteDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tripId: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({
+    type: CancellationPolicySummaryDto,
+    nullable: true,
+    description:
+      'Policy version the trip was booked under; null for trips booked before policies, free until departure',
+  })
+  policy: CancellationPolicySummaryDto | null;
+
+  @ApiProperty({ example: 26.5 })
+  hoursBeforeDeparture: number;
+
+  @ApiProperty({ example: 50, description: 'Fee that applies if cancelled now, in percent of the amount paid' })
+  feePercent: number;
+
+  @ApiProperty({ example: 'USD', nullable: true })
+  currency: string | null;
+
+  @ApiProperty({ type: [BookingCancellationQuoteDto], description: 'Bookings that would be cancelled' })
+  bookings: BookingCancellationQuoteDto[];
+
+  @ApiProperty({ example: 443.23 })
+  totalFee: number;
+
+  @ApiProperty({ example: 443.22 })
+  totalRefund: number;
+
+  @ApiProperty({ example: '2025-01-14T07:30:00.000Z', description: 'Fees go up as departure gets closer' })
+  quotedAt: string;
+}
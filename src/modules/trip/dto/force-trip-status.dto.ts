@@ -0,0 +1,22 @@
+import { IsEnum, IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TripStatus } from '@/modules/trip/trip.entity';
+
+export class ForceTripStatusDto {
+  @ApiProperty({
+    enum: TripStatus,
+    example: TripStatus.COMPLETED,
+    description: 'Status to put the trip in',
+  })
+  @IsEnum(TripStatus)
+  status: TripStatus;
+
+  @ApiProperty({
+    example: 'Landed early; tracking feed was down',
+    description: 'Why the status was changed by hand',
+    maxLength: 500,
+  })
+  @IsString()
+  @Length(1, 500)
+  reason: string;
+}
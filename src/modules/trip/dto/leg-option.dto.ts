@@ -0,0 +1,8 @@
+export class LegOptionDto {
+  departureLocationCode: string;
+  destinationLocationCode: string;
+  departureAt: Date;
+  arrivalAt: Date;
+  spaceshipId: string;
+  tripId: string | null;
+}
@@ -0,0 +1,83 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsEnum, IsISO8601, IsOptional, IsString, Length, MaxLength } from 'class-validator';
+import { PaginationDto } from '@/modules/common/dto/pagination.dto';
+import { TripStatus } from '@/modules/trip/trip.entity';
+
+export enum TripSortField {
+  DEPARTURE_AT = 'departureAt',
+  ARRIVAL_AT = 'arrivalAt',
+}
+
+export enum SortOrder {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+export class ListTripsQueryDto extends PaginationDto {
+  @ApiProperty({ required: false, example: 'SS-001', description: 'Only trips flown by this spaceship' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  spaceshipId?: string;
+
+  @ApiProperty({ required: false, enum: TripStatus, description: 'Only trips in this status' })
+  @IsOptional()
+  @IsEnum(TripStatus)
+  status?: TripStatus;
+
+  @ApiProperty({ required: false, example: 'JFK', description: 'Only trips departing from this location' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  departureLocationCode?: string;
+
+  @ApiProperty({ required: false, example: 'LAX', description: 'Only trips arriving at this location' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  destinationLocationCode?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-15T00:00:00Z',
+    description: 'Only trips departing at or after this time (ISO 8601)',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
+  departureFrom?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-16T00:00:00Z',
+    description: 'Only trips departing at or before this time (ISO 8601)',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
+  departureTo?: string;
+
+  @ApiProperty({ required: false, enum: TripSortField, default: TripSortField.DEPARTURE_AT })
+  @IsOptional()
+  @IsEnum(TripSortField)
+  sortBy?: TripSortField = TripSortField.DEPARTURE_AT;
+
+  @ApiProperty({ required: false, enum: SortOrder, default: SortOrder.ASC })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder = SortOrder.ASC;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Opaque cursor from the nextCursor of a previous page. Continues after that page with the same sort, and takes precedence over page.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  cursor?: string;
+}
+
+export class ExportTripsQueryDto extends OmitType(ListTripsQueryDto, ['page', 'limit', 'cursor'] as const) {}
@@ -0,0 +1,9 @@
+import { PickType } from '@nestjs/swagger';
+import { RequestTripDto } from './request-trip.dto';
+
+export class QuoteTripDto extends PickType(RequestTripDto, [
+  'departureLocationCode',
+  'destinationLocationCode',
+  'departureAt',
+  'seats',
+] as const) {}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsISO8601, IsString, Length } from 'class-validator';
+import { IsISO8601, IsInt, IsOptional, IsString, Length, Max, Min } from 'class-validator';
 
 export class RequestTripDto {
   @ApiProperty({
@@ -28,4 +28,29 @@ export class RequestTripDto {
   })
   @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
   departureAt: string;
+
+  @ApiProperty({
+    example: 'Ada Lovelace',
+    description: 'Name of the lead passenger',
+    required: false,
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  passengerName?: string;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Number of seats to reserve',
+    required: false,
+    default: 1,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  seats?: number = 1;
 }
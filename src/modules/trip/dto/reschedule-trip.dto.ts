@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601, IsOptional, IsString, Length } from 'class-validator';
+
+export class RescheduleTripDto {
+  @ApiProperty({
+    example: '2025-01-15T14:00:00Z',
+    description: 'New departure time in ISO 8601 format',
+  })
+  @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
+  departureAt: string;
+
+  @ApiProperty({
+    example: 'SFO',
+    description: 'IATA code of the new destination airport (keeps the current one by default)',
+    required: false,
+    minLength: 3,
+    maxLength: 3,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  destinationLocationCode?: string;
+}
@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsISO8601, IsInt, IsOptional, IsString, Length, Max, Min } from 'class-validator';
+
+export enum AvailabilityGranularity {
+  DAY = 'day',
+  HOUR = 'hour',
+}
+
+export class TripAvailabilityQueryDto {
+  @ApiProperty({ example: 'JFK', description: 'IATA code of departure airport' })
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  from: string;
+
+  @ApiProperty({ example: 'LAX', description: 'IATA code of destination airport' })
+  @IsString()
+  @Length(3, 3, { message: 'Location code must be exactly 3 characters' })
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  to: string;
+
+  @ApiProperty({ example: '2025-01-15T00:00:00Z', description: 'Start of the search range (ISO 8601)' })
+  @IsISO8601({ strict: true }, { message: 'Start must be in ISO 8601 format' })
+  start: string;
+
+  @ApiProperty({ example: '2025-01-22T00:00:00Z', description: 'End of the search range, exclusive (ISO 8601)' })
+  @IsISO8601({ strict: true }, { message: 'End must be in ISO 8601 format' })
+  end: string;
+
+  @ApiProperty({
+    required: false,
+    enum: AvailabilityGranularity,
+    default: AvailabilityGranularity.DAY,
+    description: 'Size of the calendar buckets, aligned to UTC days or hours',
+  })
+  @IsOptional()
+  @IsEnum(AvailabilityGranularity)
+  granularity?: AvailabilityGranularity = AvailabilityGranularity.DAY;
+
+  @ApiProperty({ required: false, default: 1, minimum: 1, maximum: 10, description: 'Number of seats wanted' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  seats?: number = 1;
+}
+
+export class AvailabilityBucketDto {
+  @ApiProperty({ example: '2025-01-15T00:00:00.000Z' })
+  start: string;
+
+  @ApiProperty({ example: '2025-01-16T00:00:00.000Z', description: 'Exclusive' })
+  end: string;
+
+  @ApiProperty({ example: true, description: 'Whether the seats can be booked on a departure in the bucket' })
+  available: boolean;
+
+  @ApiProperty({
+    example: '2025-01-15T09:30:00.000Z',
+    nullable: true,
+    description: 'Earliest departure in the bucket; request it with POST /trips/request',
+  })
+  earliestDepartureAt: string | null;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z', nullable: true })
+  arrivalAt: string | null;
+
+  @ApiProperty({ example: 'SS-001', nullable: true, description: 'Spaceship flying the earliest departure' })
+  spaceshipId: string | null;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'Scheduled trip with seats left, when the earliest departure joins one rather than adding a trip',
+  })
+  tripId: string | null;
+}
+
+export class TripAvailabilityDto {
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ enum: AvailabilityGranularity, example: AvailabilityGranularity.DAY })
+  granularity: AvailabilityGranularity;
+
+  @ApiProperty({ example: 1 })
+  seats: number;
+
+  @ApiProperty({ type: [AvailabilityBucketDto] })
+  buckets: AvailabilityBucketDto[];
+}
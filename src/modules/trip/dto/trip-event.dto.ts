@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TripStatus } from '@/modules/trip/trip.entity';
+import { TripEventDetails, TripEventType } from '@/modules/trip/trip-event.entity';
+
+export class TripEventDto {
+  @ApiProperty({ example: '0f8fad5b-d9cb-469f-a165-70867728950e' })
+  eventId: string;
+
+  @ApiProperty({ enum: TripEventType, example: TripEventType.STATUS_CHANGED })
+  type: TripEventType;
+
+  @ApiProperty({
+    enum: TripStatus,
+    example: TripStatus.SCHEDULED,
+    nullable: true,
+    description: 'Status before the event; null when the trip was created',
+  })
+  fromStatus: TripStatus | null;
+
+  @ApiProperty({ enum: TripStatus, example: TripStatus.CANCELLED })
+  toStatus: TripStatus;
+
+  @ApiProperty({
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+    description: 'User who caused the event; null when the system did',
+  })
+  actorUserId: string | null;
+
+  @ApiProperty({ example: 'Solar storm over the destination spaceport', nullable: true })
+  reason: string | null;
+
+  @ApiProperty({
+    example: { previousDepartureAt: '2025-01-15T10:00:00.000Z', previousSpaceshipId: 'SS-001' },
+    nullable: true,
+    description: 'Event specifics, such as what a reschedule changed',
+  })
+  details: TripEventDetails | null;
+
+  @ApiProperty({ example: '2025-01-14T08:30:00.000Z' })
+  occurredAt: string;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TripStatusDto } from '@/modules/trip/dto/trip-status.dto';
+
+export class TripPageDto {
+  @ApiProperty({ type: [TripStatusDto] })
+  items: TripStatusDto[];
+
+  @ApiProperty({ example: 42, description: 'Number of trips matching the filters, across all pages' })
+  total: number;
+
+  @ApiProperty({
+    example: 1,
+    nullable: true,
+    description: 'Page number for page-based requests; null when a cursor was used',
+  })
+  page: number | null;
+
+  @ApiProperty({ example: 10 })
+  limit: number;
+
+  @ApiProperty({
+    example: 'eyJ2IjoiMjAyNS0wMS0xNVQxMDowMDowMC4wMDBaIiwiaWQiOiI1NTBlODQwMC1lMjliLTQxZDQtYTcxNi00NDY2NTU0NDAwMDAifQ',
+    nullable: true,
+    description: 'Pass as cursor to fetch the next page; null on the last page',
+  })
+  nextCursor: string | null;
+}
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TripStatus, TripType } from '@/modules/trip/trip.entity';
+
+export class TripStatusUpdateDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  tripId: string;
+
+  @ApiProperty({ example: 'SS-001' })
+  spaceshipId: string;
+
+  @ApiProperty({ enum: TripType, example: TripType.PASSENGER })
+  type: TripType;
+
+  @ApiProperty({
+    enum: TripStatus,
+    example: TripStatus.IN_PROGRESS,
+    description: 'Status as of the timestamp, even if the scheduled status sweep has not caught up yet',
+  })
+  status: TripStatus;
+
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  departureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T12:47:23.000Z' })
+  arrivalAt: string;
+
+  @ApiProperty({ example: '2025-01-15T11:10:00.000Z', description: 'Time the status was worked out for' })
+  timestamp: string;
+}
+
+/**
+ * Status of a trip that has taken off, with where it is along its great circle
+ */
+export class TripPositionDto extends TripStatusUpdateDto {
+  @ApiProperty({ example: 38.1234 })
+  latitude: number;
+
+  @ApiProperty({ example: -95.4321 })
+  longitude: number;
+
+  @ApiProperty({ example: 273.4, description: 'Compass heading in degrees clockwise from north' })
+  heading: number;
+
+  @ApiProperty({ example: 0.42, description: 'Share of the flight completed, from 0 to 1' })
+  progress: number;
+}
+
+export class FleetPositionsDto {
+  @ApiProperty({ example: '2025-01-15T11:10:00.000Z' })
+  timestamp: string;
+
+  @ApiProperty({ type: [TripPositionDto], description: 'Every trip in flight, repositioning trips included' })
+  trips: TripPositionDto[];
+}
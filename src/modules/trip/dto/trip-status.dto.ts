@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { FareDto } from '@/modules/pricing/dto/fare-quote.dto';
 
 export class CurrentLocationDto {
   @ApiProperty({ example: 'IN_TRANSIT' })
@@ -9,6 +10,9 @@ export class CurrentLocationDto {
 
   @ApiProperty({ example: -73.7781 })
   longitude: number;
+
+  @ApiProperty({ example: 273.4, description: 'Compass heading in degrees clockwise from north' })
+  heading: number;
 }
 
 export class TripStatusDto {
@@ -33,7 +37,7 @@ export class TripStatusDto {
   @ApiProperty({
     example: 'SCHEDULED',
     required: false,
-    enum: ['SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'ALTERNATIVE_TIME_OFFERED'],
+    enum: ['PENDING_PAYMENT', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'ALTERNATIVE_TIME_OFFERED'],
   })
   status?: string;
 
@@ -43,4 +47,39 @@ export class TripStatusDto {
     description: 'Current location if trip is in progress',
   })
   currentLocation?: CurrentLocationDto;
+
+  @ApiProperty({
+    example: 'a3bb189e-8bf9-3888-9912-ace4e6543002',
+    required: false,
+    description: 'Passenger booking created by this request',
+  })
+  bookingId?: string;
+
+  @ApiProperty({
+    example: 1,
+    required: false,
+    description: 'Number of seats reserved by the booking',
+  })
+  seats?: number;
+
+  @ApiProperty({
+    example: 'Solar storm over the destination spaceport',
+    required: false,
+    description: 'Reason given when operations cancelled the trip',
+  })
+  cancellationReason?: string;
+
+  @ApiProperty({
+    type: FareDto,
+    required: false,
+    description: 'Fare of the booking, fixed when it was made (or quoted with the offer)',
+  })
+  fare?: FareDto;
+
+  @ApiProperty({
+    example: '2025-01-09T14:15:00.000Z',
+    required: false,
+    description: 'Deadline for paying the booking before its seats are released; only set while payment is due',
+  })
+  paymentDueAt?: string;
 }
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class TripTrackQueryDto {
+  @ApiProperty({
+    required: false,
+    default: 50,
+    minimum: 2,
+    maximum: 500,
+    description: 'Number of time-stamped points sampled along the route, departure and arrival included',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  @Max(500)
+  points?: number = 50;
+}
+
+export class GeoJsonGeometryDto {
+  @ApiProperty({ enum: ['Point', 'LineString', 'MultiLineString'], example: 'LineString' })
+  type: 'Point' | 'LineString' | 'MultiLineString';
+
+  @ApiProperty({
+    example: [
+      [-73.7781, 40.6413],
+      [-118.4085, 33.9416],
+    ],
+    description:
+      '[longitude, latitude] positions. Routes crossing the antimeridian are split into a MultiLineString, as RFC 7946 recommends.',
+  })
+  coordinates: number[] | number[][] | number[][][];
+}
+
+export class TripTrackFeatureDto {
+  @ApiProperty({ example: 'Feature' })
+  type: 'Feature';
+
+  @ApiProperty({ type: GeoJsonGeometryDto })
+  geometry: GeoJsonGeometryDto;
+
+  @ApiProperty({
+    example: { timestamp: '2025-01-15T11:10:00.000Z', progress: 0.42, heading: 273.4 },
+    description:
+      'The route feature carries the trip details; each sample point carries its timestamp, progress and heading',
+  })
+  properties: Record<string, string | number>;
+}
+
+export class TripTrackDto {
+  @ApiProperty({ example: 'FeatureCollection' })
+  type: 'FeatureCollection';
+
+  @ApiProperty({
+    type: [TripTrackFeatureDto],
+    description: 'The planned route first, then the sample points in flight order',
+  })
+  features: TripTrackFeatureDto[];
+}
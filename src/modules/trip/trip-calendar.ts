@@ -0,0 +1,43 @@
+import { CalendarEvent } from '@common/icalendar';
+import { Trip, TripStatus, TripType } from '@modules/trip/trip.entity';
+
+/**
+ * Calendar entry for a trip: departure to arrival, located at the departure spaceport
+ * Expects the departure and destination locations to be loaded when GEO is wanted
+ */
+export function tripToCalendarEvent(trip: Trip): CalendarEvent {
+  const route = `${trip.departureLocationCode} → ${trip.destinationLocationCode}`;
+  const description = [
+    `Trip ${trip.id}`,
+    `Spaceship ${trip.spaceshipId}`,
+    `Departs ${trip.departureLocationCode} at ${trip.departureAt.toISOString()}`,
+    `Arrives ${trip.destinationLocationCode} at ${trip.arrivalAt.toISOString()}`,
+    `Status ${trip.status}`,
+  ];
+
+  if (trip.cancellationReason) {
+    description.push(`Cancelled: ${trip.cancellationReason}`);
+  }
+
+  return {
+    uid: `${trip.id}@space-booking`,
+    start: trip.departureAt,
+    end: trip.arrivalAt,
+    summary: trip.type === TripType.REPOSITIONING ? `Repositioning ${route} (${trip.spaceshipId})` : `Trip ${route}`,
+    location: trip.departureLocationCode,
+    description: description.join('\n'),
+    geo: trip.departureLocation
+      ? {
+          latitude: Number(trip.departureLocation.latitude),
+          longitude: Number(trip.departureLocation.longitude),
+        }
+      : undefined,
+    status:
+      trip.status === TripStatus.CANCELLED
+        ? 'CANCELLED'
+        : trip.status === TripStatus.PENDING_PAYMENT
+          ? 'TENTATIVE'
+          : 'CONFIRMED',
+    lastModified: trip.updatedAt,
+  };
+}
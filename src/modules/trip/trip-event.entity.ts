@@ -0,0 +1,99 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Trip, TripStatus } from '@modules/trip/trip.entity';
+import { User } from '@modules/user/user.entity';
+
+export enum TripEventType {
+  CREATED = 'CREATED',
+  STATUS_CHANGED = 'STATUS_CHANGED',
+  RESCHEDULED = 'RESCHEDULED',
+}
+
+export type TripEventDetails = Record<string, string | number | boolean>;
+
+@Entity('trip_events')
+@Index(['tripId', 'occurredAt']) // Optimize trip timelines
+export class TripEvent {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique event identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'trip_id',
+    type: 'uuid',
+    comment: 'Trip the event happened to',
+  })
+  tripId: string;
+
+  @Column({
+    type: 'enum',
+    enum: TripEventType,
+    comment: 'What happened to the trip',
+  })
+  type: TripEventType;
+
+  @Column({
+    name: 'from_status',
+    type: 'enum',
+    enum: TripStatus,
+    nullable: true,
+    comment: 'Status before the event; null when the trip was created',
+  })
+  fromStatus: TripStatus | null;
+
+  @Column({
+    name: 'to_status',
+    type: 'enum',
+    enum: TripStatus,
+    comment: 'Status after the event',
+  })
+  toStatus: TripStatus;
+
+  @Column({
+    name: 'actor_user_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'User who caused the event; null for the system',
+  })
+  actorUserId: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'Why the change was made',
+  })
+  reason: string | null;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Event specifics, such as the previous times and spaceship of a rescheduled trip',
+  })
+  details: TripEventDetails | null;
+
+  // Relations
+  @ManyToOne(() => Trip, {
+    eager: false,
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'trip_id' })
+  trip: Trip;
+
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'actor_user_id' })
+  actor: User | null;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'occurred_at',
+    comment: 'Time the event happened',
+  })
+  occurredAt: Date;
+}
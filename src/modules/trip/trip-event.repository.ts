@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { TripEvent } from '@/modules/trip/trip-event.entity';
+
+@Injectable()
+export class TripEventRepository extends Repository<TripEvent> {
+  constructor(private dataSource: DataSource) {
+    super(TripEvent, dataSource.createEntityManager());
+  }
+}
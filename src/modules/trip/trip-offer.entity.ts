@@ -0,0 +1,185 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Spaceship } from '@modules/spaceship/spaceship.entity';
+import { Trip } from '@modules/trip/trip.entity';
+import { User } from '@modules/user/user.entity';
+
+export enum TripOfferStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  EXPIRED = 'EXPIRED',
+}
+
+@Entity('trip_offers')
+@Index(['spaceshipId', 'departureAt']) // Optimize hold lookups during availability checks
+@Index(['status', 'expiresAt']) // Optimize expiry sweeps
+export class TripOffer {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique offer identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'spaceship_id',
+    type: 'varchar',
+    comment: 'Spaceship held for this offer',
+  })
+  spaceshipId: string;
+
+  @Column({
+    name: 'departure_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Departure airport IATA code',
+  })
+  departureLocationCode: string;
+
+  @Column({
+    name: 'destination_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Destination airport IATA code',
+  })
+  destinationLocationCode: string;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'departure_at',
+    comment: 'Offered departure time in UTC',
+  })
+  departureAt: Date;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'arrival_at',
+    comment: 'Offered arrival time in UTC',
+  })
+  arrivalAt: Date;
+
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Number of seats the offer reserves',
+  })
+  seats: number;
+
+  @Column({
+    name: 'passenger_name',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Name of the lead passenger',
+  })
+  passengerName: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: TripOfferStatus,
+    default: TripOfferStatus.PENDING,
+    comment: 'Current status of the offer',
+  })
+  status: TripOfferStatus;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'expires_at',
+    comment: 'Time after which the hold is released',
+  })
+  expiresAt: Date;
+
+  @Column({
+    name: 'trip_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Trip created when the offer was accepted',
+  })
+  tripId: string | null;
+
+  @Column({
+    name: 'rescheduled_trip_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Existing trip the offer moves when accepted, instead of creating a new one',
+  })
+  rescheduledTripId: string | null;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Customer account the offer was made to',
+  })
+  userId: string | null;
+
+  @Column({
+    name: 'fare_amount',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    comment: 'Total fare quoted with the offer, honoured when it is accepted',
+  })
+  fareAmount: number | null;
+
+  @Column({
+    name: 'fare_currency',
+    type: 'varchar',
+    length: 3,
+    nullable: true,
+    comment: 'ISO 4217 currency of the fare',
+  })
+  fareCurrency: string | null;
+
+  // Relations
+  @ManyToOne(() => Spaceship, {
+    eager: false,
+    nullable: false,
+  })
+  @JoinColumn({ name: 'spaceship_id' })
+  spaceship: Spaceship;
+
+  @ManyToOne(() => Trip, {
+    eager: false,
+    nullable: true,
+  })
+  @JoinColumn({ name: 'trip_id' })
+  trip: Trip | null;
+
+  @ManyToOne(() => Trip, {
+    eager: false,
+    nullable: true,
+  })
+  @JoinColumn({ name: 'rescheduled_trip_id' })
+  rescheduledTrip: Trip | null;
+
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Offer creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { TripOffer } from '@/modules/trip/trip-offer.entity';
+
+@Injectable()
+export class TripOfferRepository extends Repository<TripOffer> {
+  constructor(private dataSource: DataSource) {
+    super(TripOffer, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,115 @@
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WsResponse,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { Observable, catchError, map, of } from 'rxjs';
+import { isUUID } from 'class-validator';
+import { WebSocket } from 'ws';
+import { TripTrackingService } from '@/modules/trip/trip-tracking.service';
+import { JwtPayload } from '@/modules/auth/auth.service';
+import { AuthenticatedUser } from '@/modules/auth/current-user.decorator';
+import { isStaff } from '@/modules/auth/roles.decorator';
+
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+/**
+ * WebSocket counterpart of the tracking streams, at ws://<host>/trips/track
+ * Authenticate with `Authorization: Bearer <token>` or, from browsers, `?access_token=<token>`.
+ * Send `{"event": "track-trip", "data": {"tripId": "..."}}` to follow one trip, or `{"event": "track-fleet"}` as staff.
+ * Updates use the same event names as the Server-Sent Events streams; failures arrive as `error` events.
+ */
+@WebSocketGateway({ path: '/trips/track' })
+export class TripTrackingGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  private readonly logger = new Logger(TripTrackingGateway.name);
+  private readonly users = new WeakMap<WebSocket, AuthenticatedUser>();
+
+  constructor(
+    private readonly tripTrackingService: TripTrackingService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async handleConnection(client: WebSocket, request: IncomingMessage): Promise<void> {
+    const token = this.extractToken(request);
+
+    try {
+      if (!token) {
+        throw new Error('Missing bearer token');
+      }
+
+      const payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+      this.users.set(client, { id: payload.sub, email: payload.email, role: payload.role });
+      this.logger.log(`Tracking client connected for user ${payload.sub}`);
+    } catch {
+      client.close(UNAUTHORIZED_CLOSE_CODE, 'Invalid or expired token');
+    }
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    this.users.delete(client);
+  }
+
+  @SubscribeMessage('track-trip')
+  async trackTrip(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() data: { tripId?: unknown } | undefined,
+  ): Promise<Observable<WsResponse>> {
+    const user = this.users.get(client);
+    if (!user) {
+      return this.error('Unauthorized');
+    }
+
+    const tripId = data?.tripId;
+    if (typeof tripId !== 'string' || !isUUID(tripId)) {
+      return this.error('tripId must be a UUID');
+    }
+
+    this.logger.log(`WS track-trip ${tripId}`);
+
+    try {
+      const updates = await this.tripTrackingService.trackTrip(tripId, isStaff(user) ? undefined : user.id);
+      return updates.pipe(
+        map((update): WsResponse => ({ event: this.tripTrackingService.eventName(update), data: update })),
+        catchError((error: unknown) => this.error(error instanceof Error ? error.message : String(error))),
+      );
+    } catch (error) {
+      return this.error(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  @SubscribeMessage('track-fleet')
+  trackFleet(@ConnectedSocket() client: WebSocket): Observable<WsResponse> {
+    const user = this.users.get(client);
+    if (!user) {
+      return this.error('Unauthorized');
+    }
+
+    if (!isStaff(user)) {
+      return this.error('Only operators and admins can track the fleet');
+    }
+
+    this.logger.log('WS track-fleet');
+    return this.tripTrackingService.trackFleet().pipe(map((positions) => ({ event: 'fleet', data: positions })));
+  }
+
+  private extractToken(request: IncomingMessage): string | undefined {
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+    if (scheme === 'Bearer' && token) {
+      return token;
+    }
+
+    const url = new URL(request.url ?? '', 'http://localhost');
+    return url.searchParams.get('access_token') ?? undefined;
+  }
+
+  private error(message: string): Observable<WsResponse> {
+    return of({ event: 'error', data: { message } });
+  }
+}
@@ -0,0 +1,86 @@
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { firstValueFrom, lastValueFrom, toArray } from 'rxjs';
+import { Location } from '../location/location.entity';
+import { Trip, TripStatus, TripType } from './trip.entity';
+import { TripRepository } from './trip.repository';
+import { TripService } from './trip.service';
+import { TripTrackingService } from './trip-tracking.service';
+import { mockConfigService } from '@common/testing';
+
+describe('TripTrackingService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  let service: TripTrackingService;
+  let tripService: { getTripStatus: jest.Mock };
+  let trip: Trip;
+
+  const tripDeparting = (hoursFromNow: number, status: TripStatus): Trip =>
+    Object.assign(new Trip(), {
+      id: 'trip-1',
+      spaceshipId: 'ship-1',
+      type: TripType.PASSENGER,
+      status,
+      departureLocationCode: 'JFK',
+      destinationLocationCode: 'LAX',
+      departureAt: new Date(Date.now() + hoursFromNow * HOUR_MS),
+      arrivalAt: new Date(Date.now() + (hoursFromNow + 3) * HOUR_MS),
+      departureLocation: { code: 'JFK', latitude: 40.6413, longitude: -73.7781 } as Location,
+      destinationLocation: { code: 'LAX', latitude: 33.9416, longitude: -118.4085 } as Location,
+    });
+
+  beforeEach(async () => {
+    tripService = { getTripStatus: jest.fn().mockResolvedValue(undefined) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TripTrackingService,
+        { provide: TripRepository, useValue: { findOne: jest.fn(() => Promise.resolve(trip)) } },
+        { provide: TripService, useValue: tripService },
+        { provide: ConfigService, useValue: mockConfigService() },
+      ],
+    }).compile();
+
+    service = module.get(TripTrackingService);
+  });
+
+  describe('trackTrip', () => {
+    it('sends only the status until the trip takes off', async () => {
+      trip = tripDeparting(2, TripStatus.SCHEDULED);
+
+      const update = await firstValueFrom(await service.trackTrip('trip-1', 'user-1'));
+
+      expect(update).toMatchObject({ tripId: 'trip-1', status: TripStatus.SCHEDULED });
+      expect(update).not.toHaveProperty('latitude');
+      expect(service.eventName(update)).toBe('status');
+    });
+
+    it('sends the position once the trip is in flight', async () => {
+      trip = tripDeparting(-1, TripStatus.SCHEDULED);
+
+      const update = await firstValueFrom(await service.trackTrip('trip-1', 'user-1'));
+
+      expect(update).toMatchObject({ status: TripStatus.IN_PROGRESS });
+      expect(update).toHaveProperty('latitude');
+      expect(update).toHaveProperty('progress');
+      expect(service.eventName(update)).toBe('position');
+    });
+
+    it('ends with a single status-only update for a trip cancelled before take-off', async () => {
+      trip = tripDeparting(2, TripStatus.CANCELLED);
+
+      const updates = await lastValueFrom((await service.trackTrip('trip-1', 'user-1')).pipe(toArray()));
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).not.toHaveProperty('latitude');
+      expect(service.eventName(updates[0])).toBe('cancelled');
+    });
+
+    it('refuses before streaming when the user cannot see the trip', async () => {
+      tripService.getTripStatus.mockRejectedValue(new NotFoundException('Trip not found'));
+
+      await expect(service.trackTrip('trip-1', 'user-2')).rejects.toMatchObject({ status: HttpStatus.NOT_FOUND });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, exhaustMap, shareReplay, takeWhile, timer } from 'rxjs';
+import { In, LessThanOrEqual, MoreThan } from 'typeorm';
+import { Trip, TripStatus } from './trip.entity';
+import { TripRepository } from './trip.repository';
+import { TripService } from './trip.service';
+import { FleetPositionsDto, TripPositionDto, TripStatusUpdateDto } from './dto/trip-position.dto';
+import { TripTrackDto, TripTrackFeatureDto } from './dto/trip-track.dto';
+import { TimeCalculator } from '@common/utils';
+
+const FINAL_STATUSES = [TripStatus.COMPLETED, TripStatus.CANCELLED];
+
+@Injectable()
+export class TripTrackingService {
+  private readonly intervalMs: number;
+  private readonly fleet$: Observable<FleetPositionsDto>;
+
+  constructor(
+    private tripRepository: TripRepository,
+    private tripService: TripService,
+    configService: ConfigService,
+  ) {
+    this.intervalMs = Number(configService.get<string>('TRACKING_INTERVAL_MS', '5000'));
+
+    // One poll feeds every fleet subscriber; it stops when the last one leaves
+    this.fleet$ = timer(0, this.intervalMs).pipe(
+      exhaustMap(() => this.getFleetPositions()),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+  }
+
+  /**
+   * Stream a trip's status until it completes or is cancelled, with its position once it is IN_PROGRESS
+   * Until take-off only the status is sent, so nobody learns where a ship is before the trip starts.
+   * Access is checked up front, so a trip the user cannot see fails before the stream opens
+   * The last update carries the COMPLETED or CANCELLED status, after which the stream completes
+   */
+  async trackTrip(tripId: string, userId?: string): Promise<Observable<TripStatusUpdateDto>> {
+    await this.tripService.getTripStatus(tripId, userId);
+
+    return timer(0, this.intervalMs).pipe(
+      exhaustMap(() => this.getTripUpdate(tripId)),
+      takeWhile((update) => !FINAL_STATUSES.includes(update.status), true),
+    );
+  }
+
+  /**
+   * Stream the positions of every ship in flight
+   */
+  trackFleet(): Observable<FleetPositionsDto> {
+    return this.fleet$;
+  }
+
+  /**
+   * Planned route of a trip as GeoJSON, sampled at evenly spaced times along its great circle
+   */
+  async getTrack(tripId: string, userId: string | undefined, points: number): Promise<TripTrackDto> {
+    await this.tripService.getTripStatus(tripId, userId);
+
+    const trip = await this.tripRepository.findOne({
+      where: { id: tripId },
+      relations: ['departureLocation', 'destinationLocation'],
+    });
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    const duration = trip.arrivalAt.getTime() - trip.departureAt.getTime();
+    const samples: TripTrackFeatureDto[] = [];
+    for (let i = 0; i < points; i++) {
+      const timestamp = new Date(trip.departureAt.getTime() + (duration * i) / (points - 1));
+      const position = this.toPositionDto(trip, timestamp);
+      samples.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [position.longitude, position.latitude] },
+        properties: {
+          timestamp: position.timestamp,
+          progress: position.progress,
+          heading: position.heading,
+        },
+      });
+    }
+
+    const segments = this.splitAtAntimeridian(samples.map((sample) => sample.geometry.coordinates as number[]));
+    const route: TripTrackFeatureDto = {
+      type: 'Feature',
+      geometry:
+        segments.length === 1
+          ? { type: 'LineString', coordinates: segments[0] }
+          : { type: 'MultiLineString', coordinates: segments },
+      properties: {
+        tripId: trip.id,
+        spaceshipId: trip.spaceshipId,
+        status: trip.status,
+        departureLocationCode: trip.departureLocationCode,
+        destinationLocationCode: trip.destinationLocationCode,
+        departureAt: trip.departureAt.toISOString(),
+        arrivalAt: trip.arrivalAt.toISOString(),
+      },
+    };
+
+    return { type: 'FeatureCollection', features: [route, ...samples] };
+  }
+
+  /**
+   * Name of the stream event carrying an update: `status` before take-off, `position` while flying,
+   * then `completed` or `cancelled`
+   */
+  eventName(update: TripStatusUpdateDto): string {
+    if (FINAL_STATUSES.includes(update.status)) {
+      return update.status.toLowerCase();
+    }
+
+    return update.status === TripStatus.IN_PROGRESS ? 'position' : 'status';
+  }
+
+  private async getTripUpdate(tripId: string): Promise<TripStatusUpdateDto> {
+    const trip = await this.tripRepository.findOne({
+      where: { id: tripId },
+      relations: ['departureLocation', 'destinationLocation'],
+    });
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    const now = new Date();
+    const status = this.effectiveStatus(trip, now);
+
+    // A trip that never took off has no position to report, cancelled or not
+    if (status !== TripStatus.IN_PROGRESS && status !== TripStatus.COMPLETED) {
+      return this.toStatusUpdateDto(trip, status, now);
+    }
+
+    return this.toPositionDto(trip, now);
+  }
+
+  private async getFleetPositions(): Promise<FleetPositionsDto> {
+    const now = new Date();
+    const trips = await this.tripRepository.find({
+      where: {
+        status: In([TripStatus.SCHEDULED, TripStatus.IN_PROGRESS]),
+        departureAt: LessThanOrEqual(now),
+        arrivalAt: MoreThan(now),
+      },
+      relations: ['departureLocation', 'destinationLocation'],
+      order: { departureAt: 'ASC' },
+    });
+
+    return {
+      timestamp: now.toISOString(),
+      trips: trips.map((trip) => this.toPositionDto(trip, now)),
+    };
+  }
+
+  private toStatusUpdateDto(trip: Trip, status: TripStatus, now: Date): TripStatusUpdateDto {
+    return {
+      tripId: trip.id,
+      spaceshipId: trip.spaceshipId,
+      type: trip.type,
+      status,
+      departureLocationCode: trip.departureLocationCode,
+      destinationLocationCode: trip.destinationLocationCode,
+      departureAt: trip.departureAt.toISOString(),
+      arrivalAt: trip.arrivalAt.toISOString(),
+      timestamp: now.toISOString(),
+    };
+  }
+
+  private toPositionDto(trip: Trip, now: Date): TripPositionDto {
+    const location = TimeCalculator.getCurrentLocation(
+      {
+        departureAt: trip.departureAt,
+        arrivalAt: trip.arrivalAt,
+        departureLat: Number(trip.departureLocation.latitude),
+        departureLon: Number(trip.departureLocation.longitude),
+        destinationLat: Number(trip.destinationLocation.latitude),
+        destinationLon: Number(trip.destinationLocation.longitude),
+      },
+      now,
+    );
+
+    return {
+      ...this.toStatusUpdateDto(trip, this.effectiveStatus(trip, now), now),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      heading: location.heading,
+      progress: location.progress,
+    };
+  }
+
+  /**
+   * Cut a line wherever it jumps across the antimeridian, ending and restarting it on the ±180° meridian
+   */
+  private splitAtAntimeridian(coordinates: number[][]): number[][][] {
+    const segments: number[][][] = [[coordinates[0]]];
+
+    for (let i = 1; i < coordinates.length; i++) {
+      const [previousLon, previousLat] = coordinates[i - 1];
+      const [lon, lat] = coordinates[i];
+
+      if (Math.abs(lon - previousLon) > 180) {
+        const edge = previousLon > 0 ? 180 : -180;
+        const unwrappedLon = lon + (previousLon > 0 ? 360 : -360);
+        const crossingLat = previousLat + ((lat - previousLat) * (edge - previousLon)) / (unwrappedLon - previousLon);
+        const roundedLat = Math.round(crossingLat * 1000000) / 1000000;
+
+        segments[segments.length - 1].push([edge, roundedLat]);
+        segments.push([[-edge, roundedLat]]);
+      }
+
+      segments[segments.length - 1].push(coordinates[i]);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Statuses are only swept every 15 minutes, so derive the live one from the schedule
+   */
+  private effectiveStatus(trip: Trip, now: Date): TripStatus {
+    if (FINAL_STATUSES.includes(trip.status)) {
+      return trip.status;
+    }
+
+    if (now >= trip.arrivalAt) {
+      return TripStatus.COMPLETED;
+    }
+
+    if (now >= trip.departureAt) {
+      return TripStatus.IN_PROGRESS;
+    }
+
+    return trip.status;
+  }
+}
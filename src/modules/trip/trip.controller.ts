@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Body,
   Param,
@@ -10,6 +11,12 @@ import {
   ParseUUIDPipe,
   ValidationPipe,
   Logger,
+  UseInterceptors,
+  UseGuards,
+  Sse,
+  MessageEvent,
+  Query,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,25 +25,75 @@ import {
   ApiParam,
   ApiBadRequestResponse,
   ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiGoneResponse,
+  ApiHeader,
+  ApiUnprocessableEntityResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiProduces,
 } from '@nestjs/swagger';
-import { TripService } from '@/modules/trip/trip.service';
+import { Readable } from 'stream';
+import { Observable, map } from 'rxjs';
+import { TripFilters, TripService } from '@/modules/trip/trip.service';
+import { TripTrackingService } from '@/modules/trip/trip-tracking.service';
 import { RequestTripDto } from '@/modules/trip/dto/request-trip.dto';
+import { QuoteTripDto } from '@/modules/trip/dto/quote-trip.dto';
+import { FareQuoteDto } from '@/modules/pricing/dto/fare-quote.dto';
+import { TripAvailabilityDto, TripAvailabilityQueryDto } from '@/modules/trip/dto/trip-availability.dto';
+import { PayBookingDto } from '@/modules/payment/dto/pay-booking.dto';
+import { PaymentDto } from '@/modules/payment/dto/payment.dto';
+import { Payment } from '@/modules/payment/payment.entity';
+import { RescheduleTripDto } from '@/modules/trip/dto/reschedule-trip.dto';
+import { CancelTripDto } from '@/modules/trip/dto/cancel-trip.dto';
+import { CancelBookingDto } from '@/modules/trip/dto/cancel-booking.dto';
+import { CancellationQuoteDto } from '@/modules/trip/dto/cancellation-quote.dto';
+import { ForceTripStatusDto } from '@/modules/trip/dto/force-trip-status.dto';
 import { TripStatusDto } from '@/modules/trip/dto/trip-status.dto';
+import { TripEventDto } from '@/modules/trip/dto/trip-event.dto';
+import { FleetPositionsDto, TripPositionDto } from '@/modules/trip/dto/trip-position.dto';
+import { TripTrackDto, TripTrackQueryDto } from '@/modules/trip/dto/trip-track.dto';
+import {
+  ExportTripsQueryDto,
+  ListTripsQueryDto,
+  SortOrder,
+  TripSortField,
+} from '@/modules/trip/dto/list-trips-query.dto';
+import { TripPageDto } from '@/modules/trip/dto/trip-page.dto';
 import { AlternativeTimeOfferDto } from './dto/alternative-time-offer.dto';
 import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { Trip, TripType } from '@/modules/trip/trip.entity';
+import { tripToCalendarEvent } from '@/modules/trip/trip-calendar';
+import { Csv } from '@/modules/common/csv';
+import { ICalendar } from '@/modules/common/icalendar';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyInterceptor } from '@/modules/idempotency/idempotency.interceptor';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { AuthenticatedUser, CurrentUser } from '@/modules/auth/current-user.decorator';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles, STAFF_ROLES, isStaff } from '@/modules/auth/roles.decorator';
 
 @ApiTags('trips')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('trips')
 export class TripController {
   private readonly logger = new Logger(TripController.name);
 
-  constructor(private readonly tripService: TripService) {}
+  constructor(
+    private readonly tripService: TripService,
+    private readonly tripTrackingService: TripTrackingService,
+  ) {}
 
   @Post('request')
   @ApiOperation({
     summary: 'Request a new trip',
     description:
-      'Books a spaceship for travel between two locations. Returns alternative time if requested time is unavailable.',
+      'Books a spaceship for travel between two locations. When the requested time is unavailable, returns ranked alternatives across spaceships, earlier and later times and nearby spaceports, holding the closest match as an offer.',
   })
   @ApiResponse({
     status: 200,
@@ -50,26 +107,173 @@ export class TripController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid request or no availability',
+    description: 'Invalid request, or no availability: join the waitlist with POST /waitlist',
     type: ErrorResponseDto,
   })
   @ApiBadRequestResponse({
     description: 'Invalid request data',
     type: ErrorResponseDto,
   })
+  @ApiHeader({
+    name: IDEMPOTENCY_KEY_HEADER,
+    required: false,
+    description:
+      'Client-generated key that makes retries safe: a retry with the same key returns the original response',
+  })
+  @ApiConflictResponse({
+    description: 'A request with the same Idempotency-Key is still being processed',
+    type: ErrorResponseDto,
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'The Idempotency-Key was already used with a different request body',
+    type: ErrorResponseDto,
+  })
+  @UseInterceptors(IdempotencyInterceptor)
   async requestTrip(
     @Body(new ValidationPipe({ transform: true, whitelist: true }))
     dto: RequestTripDto,
+    @CurrentUser() user: AuthenticatedUser,
   ): Promise<TripStatusDto | AlternativeTimeOfferDto> {
     this.logger.log(`POST /trips/request - ${JSON.stringify(dto)}`);
-    return this.tripService.requestTrip(dto);
+    return this.tripService.requestTrip(dto, user.id);
+  }
+
+  @Post('quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Quote a fare',
+    description:
+      'Prices a trip between two locations without booking it. The fare depends on distance, lead time, departure time of day and fleet utilization.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Fare quote with its breakdown',
+    type: FareQuoteDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid request data',
+    type: ErrorResponseDto,
+  })
+  async quoteTrip(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: QuoteTripDto,
+  ): Promise<FareQuoteDto> {
+    this.logger.log(`POST /trips/quote - ${JSON.stringify(dto)}`);
+    return this.tripService.quoteTrip(dto);
+  }
+
+  @Get('availability')
+  @ApiOperation({
+    summary: 'Search availability over a date range',
+    description:
+      'Availability calendar for a route: for each UTC day or hour of the range, whether the seats can be booked and the earliest departure that does it. Nothing is booked or held, so a departure shown here can be taken before it is requested.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One bucket per day or hour of the range',
+    type: TripAvailabilityDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid route or range, or too many buckets',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Unknown location code',
+    type: ErrorResponseDto,
+  })
+  async getAvailability(@Query() query: TripAvailabilityQueryDto): Promise<TripAvailabilityDto> {
+    this.logger.log(`GET /trips/availability - ${JSON.stringify(query)}`);
+    return this.tripService.getAvailability(query);
+  }
+
+  @Post('offers/:id/accept')
+  @ApiOperation({
+    summary: 'Accept an alternative-time offer',
+    description:
+      'Turns a held alternative-time offer into a scheduled trip, or moves the trip a reschedule offer was made for. Offers expire after a short hold period.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Offer ID (UUID) returned by POST /trips/request',
+    example: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Offer accepted and trip booked',
+    type: TripStatusDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Offer has already been accepted',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Offer not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'The offered spaceship is no longer available',
+    type: ErrorResponseDto,
+  })
+  @ApiGoneResponse({
+    description: 'Offer has expired',
+    type: ErrorResponseDto,
+  })
+  async acceptOffer(
+    @Param('id', new ParseUUIDPipe()) offerId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripStatusDto> {
+    this.logger.log(`POST /trips/offers/${offerId}/accept`);
+    return this.tripService.acceptOffer(offerId, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Reschedule a trip',
+    description:
+      'Moves a scheduled trip to a new departure time, and optionally a new destination. Keeps the spaceship when it is still free, otherwise reassigns one. Returns an alternative time and leaves the trip unchanged if nothing fits.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trip rescheduled',
+    type: TripStatusDto,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Alternative time offered (requested time unavailable)',
+    type: AlternativeTimeOfferDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid request data or trip cannot be rescheduled',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Other passengers are booked on the trip',
+    type: ErrorResponseDto,
+  })
+  async rescheduleTrip(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Body() dto: RescheduleTripDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripStatusDto | AlternativeTimeOfferDto> {
+    this.logger.log(`PATCH /trips/${tripId} - ${JSON.stringify(dto)}`);
+    return this.tripService.rescheduleTrip(tripId, dto, user.id);
   }
 
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Cancel a trip',
-    description: 'Cancels a scheduled trip. Cannot cancel trips that have already departed.',
+    description:
+      "Cancels the caller's bookings on a scheduled trip, with an optional reason in the body. Paid bookings are refunded less the fee of the cancellation policy the trip was booked under; see GET /trips/{id}/cancellation-quote. The trip itself is cancelled once no passengers are left on it. Cannot cancel trips that have already departed.",
   })
   @ApiParam({
     name: 'id',
@@ -88,15 +292,315 @@ export class TripController {
     description: 'Trip not found',
     type: ErrorResponseDto,
   })
-  async cancelTrip(@Param('id', new ParseUUIDPipe()) tripId: string): Promise<void> {
-    this.logger.log(`DELETE /trips/${tripId}`);
-    await this.tripService.cancelTrip(tripId);
+  async cancelTrip(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Body() dto: CancelBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    this.logger.log(`DELETE /trips/${tripId} - ${JSON.stringify(dto)}`);
+    await this.tripService.cancelTrip(tripId, user.id, dto);
+  }
+
+  @Get(':id/cancellation-quote')
+  @ApiOperation({
+    summary: 'Preview the cost of cancelling',
+    description:
+      "Shows the fee and refund that cancelling the caller's bookings on the trip would come to right now, under the cancellation policy the trip was booked under. Staff see every booking on the trip. Nothing is cancelled.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cancellation fee and refund',
+    type: CancellationQuoteDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Trip cannot be cancelled (already departed/cancelled)',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async getCancellationQuote(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CancellationQuoteDto> {
+    this.logger.log(`GET /trips/${tripId}/cancellation-quote`);
+    return this.tripService.getCancellationQuote(tripId, isStaff(user) ? undefined : user.id);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Cancel a trip as an operator',
+    description:
+      'Cancels a trip and every passenger booking on it, recording the reason. With override, trips that have already departed can be cancelled too.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Trip successfully cancelled',
+  })
+  @ApiBadRequestResponse({
+    description: 'Trip cannot be cancelled (already cancelled, completed, or departed without override)',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only operators and admins can cancel trips for everyone on them',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async cancelTripAsOperator(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Body() dto: CancelTripDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    this.logger.log(`POST /trips/${tripId}/cancel - ${JSON.stringify(dto)}`);
+    await this.tripService.cancelTripAsOperator(tripId, dto, user.id);
+  }
+
+  @Patch(':id/status')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Force a trip status',
+    description:
+      'Sets the status of a trip by hand, recording the reason. Forcing CANCELLED cancels every booking on it; cancelled trips cannot be reopened.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trip status updated',
+    type: TripStatusDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid status change',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only operators and admins can force a status',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async forceTripStatus(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Body() dto: ForceTripStatusDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripStatusDto> {
+    this.logger.log(`PATCH /trips/${tripId}/status - ${JSON.stringify(dto)}`);
+    return this.tripService.forceTripStatus(tripId, dto, user.id);
+  }
+
+  @Delete(':id/bookings/:bookingId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancel a passenger booking',
+    description:
+      'Releases the seats of one booking, with an optional reason in the body. Customers are refunded less the cancellation policy fee; bookings cancelled by staff are refunded in full. The trip itself is only cancelled once no passengers are left on it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'bookingId',
+    description: 'Booking ID (UUID)',
+    example: 'a3bb189e-8bf9-3888-9912-ace4e6543002',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Booking successfully cancelled',
+  })
+  @ApiBadRequestResponse({
+    description: 'Booking cannot be cancelled (already cancelled or trip departed)',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip or booking not found',
+    type: ErrorResponseDto,
+  })
+  async cancelBooking(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Param('bookingId', new ParseUUIDPipe()) bookingId: string,
+    @Body() dto: CancelBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    this.logger.log(`DELETE /trips/${tripId}/bookings/${bookingId} - ${JSON.stringify(dto)}`);
+    await this.tripService.cancelBooking(tripId, bookingId, user.id, {
+      anyOwner: isStaff(user),
+      reason: dto.reason,
+    });
+  }
+
+  @Post(':id/bookings/:bookingId/payment')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pay for a booking',
+    description:
+      'Authorizes and captures the fare of a booking awaiting payment. The booking is confirmed and a trip awaiting its first payment becomes SCHEDULED. Unpaid bookings are released once their paymentDueAt passes.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'bookingId',
+    description: 'Booking ID (UUID)',
+    example: 'a3bb189e-8bf9-3888-9912-ace4e6543002',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment captured and booking confirmed',
+    type: TripStatusDto,
+  })
+  @ApiResponse({
+    status: 402,
+    description: 'The gateway declined the payment',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip or booking not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Booking is already paid, or another payment for it is in progress',
+    type: ErrorResponseDto,
+  })
+  @ApiGoneResponse({
+    description: 'The booking was released, before or while the payment was taken; a payment already taken is refunded',
+    type: ErrorResponseDto,
+  })
+  async payBooking(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Param('bookingId', new ParseUUIDPipe()) bookingId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true })) dto: PayBookingDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripStatusDto> {
+    this.logger.log(`POST /trips/${tripId}/bookings/${bookingId}/payment`);
+    return this.tripService.payBooking(tripId, bookingId, dto, user.id);
+  }
+
+  @Get(':id/bookings/:bookingId/payments')
+  @ApiOperation({
+    summary: 'List the payments of a booking',
+    description: 'Returns every payment attempt on the booking, newest first, with the refunds issued against it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiParam({
+    name: 'bookingId',
+    description: 'Booking ID (UUID)',
+    example: 'a3bb189e-8bf9-3888-9912-ace4e6543002',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payments of the booking',
+    type: [PaymentDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip or booking not found',
+    type: ErrorResponseDto,
+  })
+  async getBookingPayments(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Param('bookingId', new ParseUUIDPipe()) bookingId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PaymentDto[]> {
+    this.logger.log(`GET /trips/${tripId}/bookings/${bookingId}/payments`);
+    const payments = await this.tripService.getBookingPayments(tripId, bookingId, isStaff(user) ? undefined : user.id);
+    return payments.map((payment) => this.toPaymentDto(payment));
+  }
+
+  @Get('export.csv')
+  @ApiOperation({
+    summary: 'Export trips as CSV',
+    description:
+      'Streams every trip matching the filters as a CSV file, with the same filters and sorting as the trip list. Customers only get trips they are booked on.',
+  })
+  @ApiProduces('text/csv')
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file with a header row',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid filter or sort',
+    type: ErrorResponseDto,
+  })
+  exportTrips(@Query() query: ExportTripsQueryDto, @CurrentUser() user: AuthenticatedUser): StreamableFile {
+    this.logger.log(`GET /trips/export.csv - ${JSON.stringify(query)}`);
+    const trips = this.tripService.iterateTrips(
+      this.toTripFilters(query, user),
+      query.sortBy ?? TripSortField.DEPARTURE_AT,
+      query.sortOrder ?? SortOrder.ASC,
+    );
+
+    return new StreamableFile(Readable.from(this.toCsvRows(trips)), {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="trips.csv"',
+    });
+  }
+
+  @Get(':id.ics')
+  @ApiOperation({
+    summary: 'Export a trip to a calendar',
+    description:
+      'Returns the trip as an iCalendar file with a single event from departure to arrival. Customers can only export trips they are booked on.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiProduces('text/calendar')
+  @ApiResponse({
+    status: 200,
+    description: 'iCalendar file',
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async exportTripCalendar(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    this.logger.log(`GET /trips/${tripId}.ics`);
+    const trip = await this.tripService.getTrip(tripId, isStaff(user) ? undefined : user.id);
+
+    return new StreamableFile(Buffer.from(ICalendar.build([tripToCalendarEvent(trip)])), {
+      type: 'text/calendar; charset=utf-8',
+      disposition: `attachment; filename="trip-${trip.id}.ics"`,
+    });
   }
 
   @Get(':id/status')
   @ApiOperation({
     summary: 'Get trip status',
-    description: 'Returns current status of a trip including current location if in progress',
+    description:
+      'Returns current status of a trip including current location if in progress. Customers can only see trips they are booked on.',
   })
   @ApiParam({
     name: 'id',
@@ -112,33 +616,232 @@ export class TripController {
     description: 'Trip not found',
     type: ErrorResponseDto,
   })
-  async getTripStatus(@Param('id', new ParseUUIDPipe()) tripId: string): Promise<TripStatusDto> {
+  async getTripStatus(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripStatusDto> {
     this.logger.log(`GET /trips/${tripId}/status`);
-    return this.tripService.getTripStatus(tripId);
+    return this.tripService.getTripStatus(tripId, isStaff(user) ? undefined : user.id);
+  }
+
+  @Get(':id/history')
+  @ApiOperation({
+    summary: 'Get trip history',
+    description:
+      'Returns every change made to a trip, oldest first: who made it, why, and the status before and after. Customers can only see trips they are booked on.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trip history retrieved',
+    type: [TripEventDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async getTripHistory(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripEventDto[]> {
+    this.logger.log(`GET /trips/${tripId}/history`);
+    return this.tripService.getTripHistory(tripId, isStaff(user) ? undefined : user.id);
+  }
+
+  @Get(':id/track')
+  @ApiOperation({
+    summary: 'Get trip flight path',
+    description:
+      'Returns the planned great-circle route as a GeoJSON FeatureCollection: the route line, then time-stamped sample points with progress and heading. Customers can only see trips they are booked on.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Flight path retrieved',
+    type: TripTrackDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async getTripTrack(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @Query() query: TripTrackQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TripTrackDto> {
+    this.logger.log(`GET /trips/${tripId}/track - ${JSON.stringify(query)}`);
+    return this.tripTrackingService.getTrack(tripId, isStaff(user) ? undefined : user.id, query.points ?? 50);
+  }
+
+  @Sse('track/stream')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Stream fleet positions',
+    description:
+      'Server-Sent Events stream of every ship in flight, repositioning trips included. A `fleet` event is pushed every TRACKING_INTERVAL_MS.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of `fleet` events',
+    type: FleetPositionsDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only operators and admins can track the fleet',
+    type: ErrorResponseDto,
+  })
+  trackFleet(): Observable<MessageEvent> {
+    this.logger.log('GET /trips/track/stream');
+    return this.tripTrackingService.trackFleet().pipe(map((positions) => ({ type: 'fleet', data: positions })));
+  }
+
+  @Sse(':id/track/stream')
+  @ApiOperation({
+    summary: 'Stream trip position',
+    description:
+      'Server-Sent Events stream of the trip status, pushed every TRACKING_INTERVAL_MS. Until the trip takes off only its status is sent, as `status` events; once IN_PROGRESS its position and progress follow as `position` events. The stream ends with a single `completed` or `cancelled` event. Customers can only track trips they are booked on.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Trip ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'text/event-stream of `status` events before take-off, `position` events in flight, then `completed` or `cancelled`',
+    type: TripPositionDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Trip not found',
+    type: ErrorResponseDto,
+  })
+  async trackTrip(
+    @Param('id', new ParseUUIDPipe()) tripId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<Observable<MessageEvent>> {
+    this.logger.log(`GET /trips/${tripId}/track/stream`);
+    const updates = await this.tripTrackingService.trackTrip(tripId, isStaff(user) ? undefined : user.id);
+    return updates.pipe(map((update) => ({ type: this.tripTrackingService.eventName(update), data: update })));
   }
 
   @Get()
   @ApiOperation({
-    summary: 'Get all trips',
-    description: 'Returns a list of all trips with optional filters',
+    summary: 'List trips',
+    description:
+      'Returns the trips the caller holds a booking on, one page at a time. Operators and admins see every passenger trip. Page with page and limit, or follow nextCursor for stable paging while trips are being booked.',
   })
   @ApiResponse({
     status: 200,
-    description: 'List of trips',
-    type: [TripStatusDto],
+    description: 'Page of trips',
+    type: TripPageDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid filter, sort or cursor',
+    type: ErrorResponseDto,
   })
-  async getAllTrips(): Promise<TripStatusDto[]> {
-    this.logger.log('GET /trips');
-    const trips = await this.tripService.findAll();
+  async getAllTrips(@Query() query: ListTripsQueryDto, @CurrentUser() user: AuthenticatedUser): Promise<TripPageDto> {
+    this.logger.log(`GET /trips - ${JSON.stringify(query)}`);
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 10;
+
+    const result = await this.tripService.findPage(this.toTripFilters(query, user), {
+      sortBy: query.sortBy ?? TripSortField.DEPARTURE_AT,
+      sortOrder: query.sortOrder ?? SortOrder.ASC,
+      page,
+      limit,
+      cursor: query.cursor,
+    });
+
+    return {
+      items: result.trips.map((trip) => ({
+        tripId: trip.id,
+        spaceshipId: trip.spaceshipId,
+        departureLocationCode: trip.departureLocationCode,
+        destinationLocationCode: trip.destinationLocationCode,
+        departureAt: trip.departureAt.toISOString(),
+        arrivalAt: trip.arrivalAt.toISOString(),
+        status: trip.status,
+      })),
+      total: result.total,
+      page: query.cursor ? null : page,
+      limit,
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  /**
+   * Filters shared by the trip list and the CSV export
+   * Repositioning trips are internal fleet moves and only show up in spaceship schedules
+   */
+  private toTripFilters(query: ExportTripsQueryDto, user: AuthenticatedUser): TripFilters {
+    return {
+      type: TripType.PASSENGER,
+      userId: isStaff(user) ? undefined : user.id,
+      spaceshipId: query.spaceshipId,
+      status: query.status,
+      departureLocationCode: query.departureLocationCode,
+      destinationLocationCode: query.destinationLocationCode,
+      afterDate: query.departureFrom ? new Date(query.departureFrom) : undefined,
+      beforeDate: query.departureTo ? new Date(query.departureTo) : undefined,
+    };
+  }
+
+  private async *toCsvRows(trips: AsyncGenerator<Trip>): AsyncGenerator<string> {
+    yield Csv.row([
+      'tripId',
+      'status',
+      'spaceshipId',
+      'departureLocationCode',
+      'destinationLocationCode',
+      'departureAt',
+      'arrivalAt',
+      'durationMinutes',
+      'cancellationReason',
+    ]);
+
+    for await (const trip of trips) {
+      yield Csv.row([
+        trip.id,
+        trip.status,
+        trip.spaceshipId,
+        trip.departureLocationCode,
+        trip.destinationLocationCode,
+        trip.departureAt.toISOString(),
+        trip.arrivalAt.toISOString(),
+        Math.round((trip.arrivalAt.getTime() - trip.departureAt.getTime()) / 60000),
+        trip.cancellationReason,
+      ]);
+    }
+  }
 
-    return trips.map((trip) => ({
-      tripId: trip.id,
-      spaceshipId: trip.spaceshipId,
-      departureLocationCode: trip.departureLocationCode,
-      destinationLocationCode: trip.destinationLocationCode,
-      departureAt: trip.departureAt.toISOString(),
-      arrivalAt: trip.arrivalAt.toISOString(),
-      status: trip.status,
-    }));
+  private toPaymentDto(payment: Payment): PaymentDto {
+    return {
+      id: payment.id,
+      bookingId: payment.bookingId,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      status: payment.status,
+      gateway: payment.gateway,
+      refundedAmount: Number(payment.refundedAmount),
+      failureReason: payment.failureReason,
+      capturedAt: payment.capturedAt?.toISOString() ?? null,
+      refunds: (payment.refunds ?? []).map((refund) => ({
+        id: refund.id,
+        amount: Number(refund.amount),
+        reason: refund.reason,
+        status: refund.status,
+        refundedAt: refund.refundedAt?.toISOString() ?? null,
+        createdAt: refund.createdAt.toISOString(),
+      })),
+      createdAt: payment.createdAt.toISOString(),
+    };
   }
 }
@@ -8,21 +8,42 @@ import {
   UpdateDateColumn,
   Index,
   Check,
+  Exclusion,
+  OneToMany,
 } from 'typeorm';
 import { Spaceship } from '@modules/spaceship/spaceship.entity';
 import { Location } from '@modules/location/location.entity';
+import { Booking } from '@modules/trip/booking.entity';
+import { User } from '@modules/user/user.entity';
+import { CancellationPolicy } from '@modules/cancellation-policy/cancellation-policy.entity';
 
 export enum TripStatus {
+  PENDING_PAYMENT = 'PENDING_PAYMENT',
   SCHEDULED = 'SCHEDULED',
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   CANCELLED = 'CANCELLED',
 }
 
+/**
+ * Trips new passengers can still be booked on: one awaiting its first payment is as good as a scheduled one
+ */
+export const JOINABLE_TRIP_STATUSES = [TripStatus.PENDING_PAYMENT, TripStatus.SCHEDULED];
+
+export enum TripType {
+  PASSENGER = 'PASSENGER',
+  REPOSITIONING = 'REPOSITIONING',
+}
+
 @Entity('trips')
 @Index(['spaceshipId', 'departureAt']) // Optimize availability queries
 @Index(['status', 'departureAt']) // Optimize status-based queries
 @Check(`"departure_at" < "arrival_at"`) // Ensure departure is before arrival
+// A spaceship can never fly two overlapping trips (requires the btree_gist extension)
+@Exclusion(
+  'EXCL_trips_spaceship_no_overlap',
+  `USING gist ("spaceship_id" WITH =, tstzrange("departure_at", "arrival_at", '[)') WITH &&) WHERE ("status" <> 'CANCELLED')`,
+)
 export class Trip {
   @PrimaryGeneratedColumn('uuid', {
     comment: 'Unique trip identifier',
@@ -74,6 +95,63 @@ export class Trip {
   })
   status: TripStatus;
 
+  @Column({
+    type: 'enum',
+    enum: TripType,
+    default: TripType.PASSENGER,
+    comment: 'PASSENGER trips carry bookings; REPOSITIONING trips fly empty to position a spaceship',
+  })
+  type: TripType;
+
+  @Column({
+    name: 'is_revenue',
+    type: 'boolean',
+    default: true,
+    comment: 'False for non-revenue flights such as repositioning',
+  })
+  isRevenue: boolean;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'cancelled_at',
+    nullable: true,
+    comment: 'Time the trip was cancelled',
+  })
+  cancelledAt: Date | null;
+
+  @Column({
+    name: 'cancelled_by_user_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Operator who cancelled the trip; null when it was cancelled by its passengers',
+  })
+  cancelledByUserId: string | null;
+
+  @Column({
+    name: 'cancellation_reason',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+    comment: 'Reason given by the operator who cancelled the trip',
+  })
+  cancellationReason: string | null;
+
+  @Column({
+    name: 'cancellation_policy_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Cancellation policy version the trip was booked under; null for trips booked before policies',
+  })
+  cancellationPolicyId: string | null;
+
+  @Column({
+    name: 'repositioning_trip_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Empty flight that brings the spaceship to the departure location for this trip',
+  })
+  repositioningTripId: string | null;
+
   // Relations
   @ManyToOne(() => Spaceship, (spaceship) => spaceship.trips, {
     eager: false,
@@ -99,6 +177,32 @@ export class Trip {
   })
   destinationLocation: Location;
 
+  @OneToMany(() => Booking, (booking) => booking.trip)
+  bookings: Booking[];
+
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'cancelled_by_user_id' })
+  cancelledBy: User | null;
+
+  @ManyToOne(() => CancellationPolicy, {
+    eager: false,
+    nullable: true,
+  })
+  @JoinColumn({ name: 'cancellation_policy_id' })
+  cancellationPolicy: CancellationPolicy | null;
+
+  @ManyToOne(() => Trip, {
+    eager: false,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'repositioning_trip_id' })
+  repositioningTrip: Trip | null;
+
   // Timestamps
   @CreateDateColumn({
     type: 'timestamptz',
@@ -6,11 +6,39 @@ import { Trip } from '@/modules/trip/trip.entity';
 import { SpaceshipModule } from '@/modules/spaceship/spaceship.module';
 import { LocationModule } from '@/modules/location/location.module';
 import { TripRepository } from '@/modules/trip/trip.repository';
+import { TripTrackingService } from '@/modules/trip/trip-tracking.service';
+import { TripTrackingGateway } from '@/modules/trip/trip-tracking.gateway';
+import { TripOffer } from '@/modules/trip/trip-offer.entity';
+import { TripOfferRepository } from '@/modules/trip/trip-offer.repository';
+import { Booking } from '@/modules/trip/booking.entity';
+import { TripEvent } from '@/modules/trip/trip-event.entity';
+import { TripEventRepository } from '@/modules/trip/trip-event.repository';
+import { IdempotencyModule } from '@/modules/idempotency/idempotency.module';
+import { WebhookModule } from '@/modules/webhook/webhook.module';
+import { PricingModule } from '@/modules/pricing/pricing.module';
+import { PaymentModule } from '@/modules/payment/payment.module';
+import { CancellationPolicyModule } from '@/modules/cancellation-policy/cancellation-policy.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Trip]), SpaceshipModule, LocationModule],
+  imports: [
+    TypeOrmModule.forFeature([Trip, TripOffer, Booking, TripEvent]),
+    SpaceshipModule,
+    LocationModule,
+    IdempotencyModule,
+    WebhookModule,
+    PricingModule,
+    PaymentModule,
+    CancellationPolicyModule,
+  ],
   controllers: [TripController],
-  providers: [TripService, TripRepository],
+  providers: [
+    TripService,
+    TripTrackingService,
+    TripTrackingGateway,
+    TripRepository,
+    TripOfferRepository,
+    TripEventRepository,
+  ],
   exports: [TripService],
 })
 export class TripModule {}
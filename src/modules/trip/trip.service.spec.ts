@@ -0,0 +1,108 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { CancellationPolicyService } from '../cancellation-policy/cancellation-policy.service';
+import { LocationService } from '../location/location.service';
+import { PaymentService } from '../payment/payment.service';
+import { PricingService } from '../pricing/pricing.service';
+import { SpaceshipService } from '../spaceship/spaceship.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { TripEventRepository } from './trip-event.repository';
+import { TripOfferRepository } from './trip-offer.repository';
+import { Trip } from './trip.entity';
+import { TripService } from './trip.service';
+import { mockConfigService, mockDataSource } from '@common/testing';
+
+describe('TripService', () => {
+  const request = {
+    departureLocationCode: 'JFK',
+    destinationLocationCode: 'LAX',
+    departureAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
+    seats: 2,
+  };
+
+  let service: TripService;
+  let spaceshipService: {
+    findAvailableSpaceships: jest.Mock;
+    lockForScheduling: jest.Mock;
+    hasScheduleConflict: jest.Mock;
+  };
+  let manager: { find: jest.Mock; create: jest.Mock; save: jest.Mock; insert: jest.Mock };
+
+  beforeEach(async () => {
+    spaceshipService = {
+      findAvailableSpaceships: jest.fn().mockResolvedValue([{ spaceshipId: 'ship-1' }]),
+      lockForScheduling: jest.fn().mockResolvedValue(undefined),
+      hasScheduleConflict: jest.fn().mockResolvedValue(false),
+    };
+    // No scheduled trip to join on the route
+    manager = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((_entity: unknown, fields: object) => ({ ...fields })),
+      save: jest.fn((_entity: unknown, entity: object) => Promise.resolve({ id: 'saved-1', ...entity })),
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TripService,
+        { provide: getRepositoryToken(Trip), useValue: { create: (fields: Partial<Trip>) => ({ ...fields }) } },
+        { provide: TripOfferRepository, useValue: {} },
+        { provide: TripEventRepository, useValue: {} },
+        { provide: SpaceshipService, useValue: spaceshipService },
+        {
+          provide: LocationService,
+          useValue: {
+            validateLocationCodes: jest.fn().mockResolvedValue(undefined),
+            calculateDistance: jest.fn().mockResolvedValue({ distanceMiles: 2475 }),
+          },
+        },
+        { provide: WebhookService, useValue: { enqueue: jest.fn().mockResolvedValue(undefined) } },
+        {
+          provide: PricingService,
+          useValue: { quote: jest.fn().mockResolvedValue({ totalFare: 500, currency: 'USD' }) },
+        },
+        { provide: PaymentService, useValue: {} },
+        { provide: CancellationPolicyService, useValue: { findCurrent: jest.fn().mockResolvedValue(null) } },
+        { provide: DataSource, useValue: mockDataSource(manager) },
+        { provide: ConfigService, useValue: mockConfigService() },
+      ],
+    }).compile();
+
+    service = module.get(TripService);
+  });
+
+  describe('requestTrip', () => {
+    it('checks the chosen spaceship again under its row lock before booking it', async () => {
+      await expect(service.requestTrip(request, 'user-1')).resolves.toMatchObject({ spaceshipId: 'ship-1', seats: 2 });
+
+      const [spaceshipId, departureAt, , , options] = spaceshipService.hasScheduleConflict.mock.calls[0] as [
+        string,
+        Date,
+        Date,
+        unknown,
+        { includeHolds: boolean },
+      ];
+      expect([spaceshipId, departureAt.toISOString(), options.includeHolds]).toEqual([
+        'ship-1',
+        request.departureAt,
+        true,
+      ]);
+      expect(spaceshipService.lockForScheduling.mock.invocationCallOrder[0]).toBeLessThan(
+        spaceshipService.hasScheduleConflict.mock.invocationCallOrder[0],
+      );
+      expect(spaceshipService.hasScheduleConflict.mock.invocationCallOrder[0]).toBeLessThan(
+        manager.save.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('answers 409 without booking when turnaround, maintenance or an offer now keeps the ship busy', async () => {
+      spaceshipService.hasScheduleConflict.mockResolvedValue(true);
+
+      await expect(service.requestTrip(request, 'user-1')).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,43 +1,158 @@
-import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  GoneException,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
-import { Trip, TripStatus } from './trip.entity';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager, In, LessThanOrEqual, SelectQueryBuilder } from 'typeorm';
+import { JOINABLE_TRIP_STATUSES, Trip, TripStatus, TripType } from './trip.entity';
+import { TripOffer, TripOfferStatus } from './trip-offer.entity';
+import { TripOfferRepository } from './trip-offer.repository';
+import { Booking, BookingStatus, SEAT_HOLDING_BOOKING_STATUSES } from './booking.entity';
+import { TripEvent, TripEventDetails, TripEventType } from './trip-event.entity';
+import { TripEventRepository } from './trip-event.repository';
+import { Spaceship } from '../spaceship/spaceship.entity';
 import { SpaceshipService } from '../spaceship/spaceship.service';
 import { LocationService } from '../location/location.service';
 import { RequestTripDto } from './dto/request-trip.dto';
 import { TripStatusDto } from './dto/trip-status.dto';
 import { TimeCalculator, DateUtils } from '@common/utils';
 import { Cron } from '@nestjs/schedule';
+import { isUUID } from 'class-validator';
 import { AlternativeTimeOfferDto } from './dto/alternative-time-offer.dto';
+import { LegOptionDto } from './dto/leg-option.dto';
+import { RescheduleTripDto } from './dto/reschedule-trip.dto';
+import { CancelTripDto } from './dto/cancel-trip.dto';
+import { ForceTripStatusDto } from './dto/force-trip-status.dto';
+import { TripEventDto } from './dto/trip-event.dto';
+import { SortOrder, TripSortField } from './dto/list-trips-query.dto';
+import { WebhookEvent, WebhookService } from '../webhook/webhook.service';
+import { WebhookEventType } from '../webhook/webhook-subscription.entity';
+import { FareQuote, PricingService } from '../pricing/pricing.service';
+import { FareQuoteDto } from '../pricing/dto/fare-quote.dto';
+import { QuoteTripDto } from './dto/quote-trip.dto';
+import { PaymentService } from '../payment/payment.service';
+import { Payment } from '../payment/payment.entity';
+import { PayBookingDto } from '../payment/dto/pay-booking.dto';
+import { Itinerary, ItineraryStatus } from '../itinerary/itinerary.entity';
+import { CancellationPolicyService } from '../cancellation-policy/cancellation-policy.service';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { CancellationQuoteDto } from './dto/cancellation-quote.dto';
+import {
+  AvailabilityBucketDto,
+  AvailabilityGranularity,
+  TripAvailabilityDto,
+  TripAvailabilityQueryDto,
+} from './dto/trip-availability.dto';
+
+export interface TripFilters {
+  spaceshipId?: string;
+  status?: TripStatus;
+  type?: TripType;
+  departureLocationCode?: string;
+  destinationLocationCode?: string;
+  afterDate?: Date;
+  beforeDate?: Date;
+  userId?: string;
+}
+
+// 31 days of hourly buckets
+const MAX_AVAILABILITY_BUCKETS = 744;
+
+interface AlternativeOption {
+  spaceshipId: string;
+  departureLocationCode: string;
+  destinationLocationCode: string;
+  departureAt: Date;
+  arrivalAt: Date;
+  distanceFromRequestedMiles: number;
+}
+
+interface TripCursor {
+  sortBy: TripSortField;
+  sortOrder: SortOrder;
+  value: string;
+  id: string;
+}
 
 @Injectable()
 export class TripService {
   private readonly logger = new Logger(TripService.name);
+  private readonly offerTtlMs: number;
+  private readonly paymentTtlMs: number;
+  private readonly alternativesLimit: number;
+  private readonly alternativesRadiusMiles: number;
+  private readonly alternativesLookBackMs: number;
 
   constructor(
     @InjectRepository(Trip)
     private tripRepository: Repository<Trip>,
+    private tripOfferRepository: TripOfferRepository,
+    private tripEventRepository: TripEventRepository,
     private spaceshipService: SpaceshipService,
     private locationService: LocationService,
+    private webhookService: WebhookService,
+    private pricingService: PricingService,
+    private paymentService: PaymentService,
+    private cancellationPolicyService: CancellationPolicyService,
     private dataSource: DataSource,
-  ) {}
+    configService: ConfigService,
+  ) {
+    this.offerTtlMs = Number(configService.get<string>('TRIP_OFFER_TTL_MINUTES', '15')) * 60 * 1000;
+    this.paymentTtlMs = Number(configService.get<string>('PAYMENT_TTL_MINUTES', '15')) * 60 * 1000;
+    this.alternativesLimit = Number(configService.get<string>('TRIP_ALTERNATIVES_LIMIT', '5'));
+    this.alternativesRadiusMiles = Number(configService.get<string>('TRIP_ALTERNATIVES_RADIUS_MILES', '100'));
+    this.alternativesLookBackMs =
+      Number(configService.get<string>('TRIP_ALTERNATIVES_LOOK_BACK_HOURS', '12')) * 60 * 60 * 1000;
+  }
 
   /**
    * Request a new trip
+   * Joins a scheduled trip on the same route and time when seats are left, otherwise books a new spaceship.
+   * The booking holds its seats as PENDING_PAYMENT until it is paid, or released once the payment deadline passes.
    * Uses database transactions to ensure consistency when multiple requests come in simultaneously
    */
-  async requestTrip(dto: RequestTripDto): Promise<TripStatusDto | AlternativeTimeOfferDto> {
+  async requestTrip(dto: RequestTripDto, userId: string): Promise<TripStatusDto | AlternativeTimeOfferDto> {
     this.logger.log(`Requesting trip from ${dto.departureLocationCode} to ${dto.destinationLocationCode}`);
 
     // Validate the request
     await this.validateTripRequest(dto);
 
     const requestedDepartureTime = DateUtils.parseISOString(dto.departureAt);
+    const seats = dto.seats ?? 1;
+
+    // The fare is fixed now and stored on the booking, whichever way the request ends up being flown
+    const fare = await this.pricingService.quote({
+      departureLocationCode: dto.departureLocationCode,
+      destinationLocationCode: dto.destinationLocationCode,
+      departureAt: requestedDepartureTime,
+      seats,
+    });
+
+    // Prefer filling an existing trip before putting another spaceship on the route
+    const joinedTrip = await this.joinScheduledTrip(dto, requestedDepartureTime, seats, userId, fare);
+    if (joinedTrip) {
+      return joinedTrip;
+    }
+
+    // Calculate travel details
+    const travelDetails = await this.calculateTravelDetails(
+      dto.departureLocationCode,
+      dto.destinationLocationCode,
+      requestedDepartureTime,
+    );
 
-    // Find available spaceships at departure location and time
+    // Find spaceships at the departure location that are free for the whole flight
     const availableSpaceships = await this.spaceshipService.findAvailableSpaceships(
       dto.departureLocationCode,
       requestedDepartureTime,
+      travelDetails.arrivalTime,
+      seats,
     );
 
     if (availableSpaceships.length > 0) {
@@ -48,40 +163,43 @@ export class TripService {
 
       try {
         const selectedSpaceship = availableSpaceships[0];
-        this.logger.log(`Selected spaceship ${selectedSpaceship.id} for immediate departure`);
+        this.logger.log(`Selected spaceship ${selectedSpaceship.spaceshipId} for immediate departure`);
 
-        // Calculate travel details
-        const travelDetails = await this.calculateTravelDetails(
-          dto.departureLocationCode,
-          dto.destinationLocationCode,
+        // The ship was picked before the transaction; check again now that nothing else can book it
+        await this.assertSpaceshipFree(
+          queryRunner.manager,
+          selectedSpaceship.spaceshipId,
           requestedDepartureTime,
+          travelDetails.arrivalTime,
+          `Spaceship ${selectedSpaceship.spaceshipId} is no longer available`,
+          { includeHolds: true },
         );
 
         // Create and save the trip
         const trip = this.tripRepository.create({
-          spaceshipId: selectedSpaceship.id,
+          spaceshipId: selectedSpaceship.spaceshipId,
           departureLocationCode: dto.departureLocationCode,
           destinationLocationCode: dto.destinationLocationCode,
           departureAt: requestedDepartureTime,
           arrivalAt: travelDetails.arrivalTime,
-          status: TripStatus.SCHEDULED,
+          status: TripStatus.PENDING_PAYMENT,
+          cancellationPolicyId: await this.currentCancellationPolicyId(queryRunner.manager),
         });
 
         const savedTrip = await queryRunner.manager.save(Trip, trip);
+        await this.recordEvent(queryRunner.manager, savedTrip, { type: TripEventType.CREATED, actorUserId: userId });
+        const booking = await this.createBooking(queryRunner.manager, savedTrip.id, seats, {
+          userId,
+          passengerName: dto.passengerName ?? null,
+          fare,
+          paymentDueAt: this.paymentDueAt(savedTrip.departureAt),
+        });
         await queryRunner.commitTransaction();
 
         this.logger.log(`Trip ${savedTrip.id} created successfully`);
 
         // Return trip status
-        return {
-          tripId: savedTrip.id,
-          spaceshipId: savedTrip.spaceshipId,
-          departureLocationCode: savedTrip.departureLocationCode,
-          destinationLocationCode: savedTrip.destinationLocationCode,
-          departureAt: savedTrip.departureAt.toISOString(),
-          arrivalAt: savedTrip.arrivalAt.toISOString(),
-          status: 'SCHEDULED',
-        };
+        return this.toTripStatusDto(savedTrip, booking);
       } catch (error) {
         await queryRunner.rollbackTransaction();
         throw error;
@@ -89,49 +207,753 @@ export class TripService {
         await queryRunner.release();
       }
     } else {
-      // No spaceship available - find and return alternative time without saving
+      // No spaceship at the departure location - try flying an idle one in from nearby
+      const repositionedTrip = await this.bookWithRepositioning(dto, requestedDepartureTime, seats, userId, fare);
+      if (repositionedTrip) {
+        return repositionedTrip;
+      }
+
+      // No spaceship available - find an alternative time and hold it as an offer
       this.logger.log('No spaceship available at requested time, finding alternatives');
 
-      const earliestAvailable = await this.findEarliestAvailableSpaceship(
+      return this.offerAlternativeTime(
         dto.departureLocationCode,
         dto.destinationLocationCode,
         requestedDepartureTime,
+        seats,
+        { userId, passengerName: dto.passengerName ?? null },
       );
+    }
+  }
+
+  /**
+   * Price a trip without booking it
+   * The quote is not held: requesting the trip later prices it again
+   */
+  async quoteTrip(dto: QuoteTripDto): Promise<FareQuoteDto> {
+    await this.validateTripRequest(dto);
+
+    const departureAt = DateUtils.parseISOString(dto.departureAt);
+    const seats = dto.seats ?? 1;
+    const quote = await this.pricingService.quote({
+      departureLocationCode: dto.departureLocationCode,
+      destinationLocationCode: dto.destinationLocationCode,
+      departureAt,
+      seats,
+    });
+
+    return {
+      departureLocationCode: dto.departureLocationCode,
+      destinationLocationCode: dto.destinationLocationCode,
+      departureAt: departureAt.toISOString(),
+      seats,
+      distanceMiles: quote.distanceMiles,
+      currency: quote.currency,
+      farePerSeat: quote.farePerSeat,
+      totalFare: quote.totalFare,
+      breakdown: quote.breakdown,
+      quotedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Availability calendar for a route: whether the seats can be booked in each day or hour of a range,
+   * and the earliest departure that does it. Nothing is booked or held.
+   * A departure either joins a scheduled trip with seats left or puts a free spaceship on the route.
+   */
+  async getAvailability(query: TripAvailabilityQueryDto): Promise<TripAvailabilityDto> {
+    await this.locationService.validateLocationCodes([query.from, query.to]);
+
+    if (query.from === query.to) {
+      throw new BadRequestException('Departure and destination cannot be the same');
+    }
+
+    const start = DateUtils.parseISOString(query.start);
+    const end = DateUtils.parseISOString(query.end);
+    const granularity = query.granularity ?? AvailabilityGranularity.DAY;
+    const seats = query.seats ?? 1;
+
+    if (start >= end) {
+      throw new BadRequestException('Start must be before end');
+    }
+
+    const bucketMs = granularity === AvailabilityGranularity.HOUR ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    const firstBucket = Math.floor(start.getTime() / bucketMs) * bucketMs;
+    if (Math.ceil((end.getTime() - firstBucket) / bucketMs) > MAX_AVAILABILITY_BUCKETS) {
+      throw new BadRequestException(`Range cannot span more than ${MAX_AVAILABILITY_BUCKETS} ${granularity}s`);
+    }
+
+    // Departures in the past cannot be booked
+    const searchStart = new Date(Math.max(start.getTime(), Date.now()));
+    const { travelTime } = await this.calculateTravelDetails(query.from, query.to, searchStart);
+
+    const [candidates, scheduledTrips] =
+      searchStart < end
+        ? await Promise.all([
+            this.spaceshipService.findDepartureCandidates(query.from, searchStart, end, travelTime, seats),
+            this.joinableTripsWithSeats(query.from, query.to, seats)
+              .andWhere('trip.departureAt >= :searchStart', { searchStart })
+              .andWhere('trip.departureAt < :end', { end })
+              .orderBy('trip.departureAt', 'ASC')
+              .getMany(),
+          ])
+        : [[], []];
+
+    const buckets: AvailabilityBucketDto[] = [];
+    for (let bucketStart = firstBucket; bucketStart < end.getTime(); bucketStart += bucketMs) {
+      const from = Math.max(bucketStart, searchStart.getTime());
+      const until = Math.min(bucketStart + bucketMs, end.getTime());
+      let earliest: { departureAt: number; spaceshipId: string; tripId: string | null } | null = null;
 
-      if (!earliestAvailable) {
-        throw new BadRequestException('No spaceships available for this route. All spaceships are fully booked.');
+      // A spaceship can leave anywhere from the start of its idle window until the flight would overrun it
+      for (const candidate of candidates) {
+        const departureAt = Math.max(from, candidate.departureAt.getTime());
+        const latestDeparture = candidate.idleUntil ? candidate.idleUntil.getTime() - travelTime : Infinity;
+
+        if (
+          departureAt < until &&
+          departureAt <= latestDeparture &&
+          (!earliest || departureAt < earliest.departureAt)
+        ) {
+          earliest = { departureAt, spaceshipId: candidate.spaceshipId, tripId: null };
+        }
       }
 
-      // Return alternative time offer without saving to database
-      if (
-        !earliestAvailable.spaceshipId ||
-        !earliestAvailable.departureLocationCode ||
-        !earliestAvailable.destinationLocationCode ||
-        !earliestAvailable.departureAt ||
-        !earliestAvailable.arrivalAt
-      ) {
-        throw new Error('Invalid trip details returned for alternative time offer');
+      const trip = scheduledTrips.find(
+        (scheduled) => scheduled.departureAt.getTime() >= from && scheduled.departureAt.getTime() < until,
+      );
+      if (trip && (!earliest || trip.departureAt.getTime() <= earliest.departureAt)) {
+        earliest = { departureAt: trip.departureAt.getTime(), spaceshipId: trip.spaceshipId, tripId: trip.id };
       }
 
-      return {
-        tripId: '', // No trip ID since it's not saved yet
-        spaceshipId: earliestAvailable.spaceshipId,
-        departureLocationCode: earliestAvailable.departureLocationCode,
-        destinationLocationCode: earliestAvailable.destinationLocationCode,
-        departureAt: earliestAvailable.departureAt.toISOString(),
-        arrivalAt: earliestAvailable.arrivalAt.toISOString(),
-        status: 'ALTERNATIVE_TIME_OFFERED',
-        message:
-          'No spaceship available at requested time. Please confirm if you would like to book for the alternative time shown.',
-        isProposal: true,
-      };
+      buckets.push({
+        start: new Date(bucketStart).toISOString(),
+        end: new Date(bucketStart + bucketMs).toISOString(),
+        available: earliest !== null,
+        earliestDepartureAt: earliest ? new Date(earliest.departureAt).toISOString() : null,
+        arrivalAt: earliest ? new Date(earliest.departureAt + travelTime).toISOString() : null,
+        spaceshipId: earliest?.spaceshipId ?? null,
+        tripId: earliest?.tripId ?? null,
+      });
+    }
+
+    return {
+      departureLocationCode: query.from,
+      destinationLocationCode: query.to,
+      granularity,
+      seats,
+      buckets,
+    };
+  }
+
+  /**
+   * Offer ranked alternatives when the requested time is unavailable: other spaceships, earlier and later
+   * departures, and nearby spaceports. The closest match is held as an offer the customer can accept until it
+   * expires; the others are listed to be requested instead. Pass the trip being rescheduled to have the offer
+   * move it when accepted; reschedules keep the trip's departure spaceport.
+   */
+  private async offerAlternativeTime(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    requestedDepartureTime: Date,
+    seats: number,
+    owner: { userId: string; passengerName: string | null },
+    rescheduledTripId: string | null = null,
+  ): Promise<AlternativeTimeOfferDto> {
+    const options = await this.findAlternatives(
+      departureLocationCode,
+      destinationLocationCode,
+      requestedDepartureTime,
+      seats,
+      rescheduledTripId,
+    );
+
+    if (options.length === 0) {
+      throw new BadRequestException(
+        'No spaceships available for this route. All spaceships are fully booked; join the waitlist with POST /waitlist to be booked when capacity frees up.',
+      );
+    }
+
+    // New bookings are priced for the offered time and keep that fare until the offer expires;
+    // reschedules keep the fares their bookings were made at
+    const fares = rescheduledTripId
+      ? options.map(() => null)
+      : await Promise.all(
+          options.map((option) =>
+            this.pricingService.quote({
+              departureLocationCode: option.departureLocationCode,
+              destinationLocationCode: option.destinationLocationCode,
+              departureAt: option.departureAt,
+              seats,
+            }),
+          ),
+        );
+    const [best] = options;
+    const fare = fares[0];
+
+    // Hold the spaceship for the best alternative until the customer accepts or the offer expires
+    const offer = await this.tripOfferRepository.save(
+      this.tripOfferRepository.create({
+        spaceshipId: best.spaceshipId,
+        departureLocationCode: best.departureLocationCode,
+        destinationLocationCode: best.destinationLocationCode,
+        departureAt: best.departureAt,
+        arrivalAt: best.arrivalAt,
+        seats,
+        passengerName: owner.passengerName,
+        userId: owner.userId,
+        status: TripOfferStatus.PENDING,
+        expiresAt: DateUtils.addMilliseconds(new Date(), this.offerTtlMs),
+        rescheduledTripId,
+        fareAmount: fare?.totalFare ?? null,
+        fareCurrency: fare?.currency ?? null,
+      }),
+    );
+
+    this.logger.log(`Offer ${offer.id} holds spaceship ${offer.spaceshipId} until ${offer.expiresAt.toISOString()}`);
+
+    return {
+      tripId: rescheduledTripId ?? '', // No trip ID until the offer is accepted
+      spaceshipId: offer.spaceshipId,
+      departureLocationCode: offer.departureLocationCode,
+      destinationLocationCode: offer.destinationLocationCode,
+      departureAt: offer.departureAt.toISOString(),
+      arrivalAt: offer.arrivalAt.toISOString(),
+      status: 'ALTERNATIVE_TIME_OFFERED',
+      message:
+        'No spaceship available at requested time. Please confirm if you would like to book for the alternative time shown.',
+      isProposal: true,
+      offerId: offer.id,
+      expiresAt: offer.expiresAt.toISOString(),
+      seats: offer.seats,
+      fare: fare ? { amount: fare.totalFare, currency: fare.currency } : undefined,
+      alternatives: options.map((option, index) => ({
+        rank: index + 1,
+        spaceshipId: option.spaceshipId,
+        departureLocationCode: option.departureLocationCode,
+        destinationLocationCode: option.destinationLocationCode,
+        departureAt: option.departureAt.toISOString(),
+        arrivalAt: option.arrivalAt.toISOString(),
+        timeDifferenceMinutes: Math.round(
+          (option.departureAt.getTime() - requestedDepartureTime.getTime()) / (60 * 1000),
+        ),
+        distanceFromRequestedMiles: option.distanceFromRequestedMiles,
+        fare: fares[index] ? { amount: fares[index].totalFare, currency: fares[index].currency } : undefined,
+        offerId: index === 0 ? offer.id : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Rank the ways to fly a route close to the requested time, best first
+   * Looks at every spaceship free at the requested spaceport and at the spaceports within the alternatives radius,
+   * departing later than requested or up to the look-back earlier. Options are ranked by how far their departure
+   * is from the requested time, then by how far their spaceport is from the requested one.
+   */
+  private async findAlternatives(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    requestedDepartureTime: Date,
+    seats: number,
+    rescheduledTripId: string | null,
+  ): Promise<AlternativeOption[]> {
+    const nearby = rescheduledTripId
+      ? []
+      : await this.locationService.getNearbyLocations(departureLocationCode, this.alternativesRadiusMiles);
+    const spaceports = [
+      { code: departureLocationCode, distanceMiles: 0 },
+      ...nearby
+        .filter((location) => location.toCode !== destinationLocationCode)
+        .map((location) => ({ code: location.toCode, distanceMiles: location.distanceMiles })),
+    ];
+
+    // An earlier departure must still be ahead once the hold on it has expired
+    const earliestAllowed = new Date(
+      Math.max(requestedDepartureTime.getTime() - this.alternativesLookBackMs, Date.now() + this.offerTtlMs),
+    );
+
+    const options = new Map<string, AlternativeOption>();
+    for (const spaceport of spaceports) {
+      const { travelTime } = await this.calculateTravelDetails(
+        spaceport.code,
+        destinationLocationCode,
+        requestedDepartureTime,
+      );
+
+      const [later, earlier] = await Promise.all([
+        this.spaceshipService.findDepartureCandidates(
+          spaceport.code,
+          requestedDepartureTime,
+          null,
+          travelTime,
+          seats,
+          rescheduledTripId ?? undefined,
+        ),
+        earliestAllowed < requestedDepartureTime
+          ? this.spaceshipService.findDepartureCandidates(
+              spaceport.code,
+              earliestAllowed,
+              requestedDepartureTime,
+              travelTime,
+              seats,
+              rescheduledTripId ?? undefined,
+            )
+          : Promise.resolve([]),
+      ]);
+
+      const departures = [
+        ...later.map((candidate) => ({ spaceshipId: candidate.spaceshipId, departureAt: candidate.departureAt })),
+        // Leave as late in the idle window as possible, to land closest to the requested time
+        ...earlier.map((candidate) => ({
+          spaceshipId: candidate.spaceshipId,
+          departureAt: new Date(
+            Math.min(
+              requestedDepartureTime.getTime(),
+              candidate.idleUntil ? candidate.idleUntil.getTime() - travelTime : requestedDepartureTime.getTime(),
+            ),
+          ),
+        })),
+      ];
+
+      for (const departure of departures) {
+        options.set(`${departure.spaceshipId}@${departure.departureAt.toISOString()}@${spaceport.code}`, {
+          spaceshipId: departure.spaceshipId,
+          departureLocationCode: spaceport.code,
+          destinationLocationCode,
+          departureAt: departure.departureAt,
+          arrivalAt: new Date(departure.departureAt.getTime() + travelTime),
+          distanceFromRequestedMiles: spaceport.distanceMiles,
+        });
+      }
+    }
+
+    const offset = (option: AlternativeOption) =>
+      Math.abs(option.departureAt.getTime() - requestedDepartureTime.getTime());
+
+    return [...options.values()]
+      .sort(
+        (a, b) =>
+          offset(a) - offset(b) ||
+          a.distanceFromRequestedMiles - b.distanceFromRequestedMiles ||
+          a.departureAt.getTime() - b.departureAt.getTime() ||
+          a.spaceshipId.localeCompare(b.spaceshipId),
+      )
+      .slice(0, this.alternativesLimit);
+  }
+
+  /**
+   * Book seats on a scheduled trip with the same route and departure time, if one has room left
+   * Returns null when every matching trip is full
+   */
+  private async joinScheduledTrip(
+    dto: RequestTripDto,
+    departureTime: Date,
+    seats: number,
+    userId: string,
+    fare: FareQuote,
+  ): Promise<TripStatusDto | null> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const candidateTrips = await queryRunner.manager.find(Trip, {
+        where: {
+          departureLocationCode: dto.departureLocationCode,
+          destinationLocationCode: dto.destinationLocationCode,
+          departureAt: departureTime,
+          status: In(JOINABLE_TRIP_STATUSES),
+          type: TripType.PASSENGER,
+        },
+        order: { createdAt: 'ASC' },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (candidateTrips.length === 0) {
+        await queryRunner.commitTransaction();
+        return null;
+      }
+
+      const spaceships = await queryRunner.manager.find(Spaceship, {
+        where: { id: In(candidateTrips.map((trip) => trip.spaceshipId)) },
+      });
+      const capacityBySpaceship = new Map(spaceships.map((spaceship) => [spaceship.id, spaceship.seatCapacity]));
+
+      for (const trip of candidateTrips) {
+        const bookedSeats = await this.countBookedSeats(queryRunner.manager, trip.id);
+        const capacity = capacityBySpaceship.get(trip.spaceshipId) ?? 0;
+
+        if (capacity - bookedSeats >= seats) {
+          const booking = await this.createBooking(queryRunner.manager, trip.id, seats, {
+            userId,
+            passengerName: dto.passengerName ?? null,
+            fare,
+            paymentDueAt: this.paymentDueAt(trip.departureAt),
+          });
+          await queryRunner.commitTransaction();
+
+          this.logger.log(`Booking ${booking.id} joined trip ${trip.id} (${bookedSeats + seats}/${capacity} seats)`);
+          return this.toTripStatusDto(trip, booking);
+        }
+      }
+
+      await queryRunner.commitTransaction();
+      return null;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Book a trip on a spaceship that first flies empty from a nearby location
+   * The non-revenue repositioning trip and the customer trip are scheduled in one transaction. The customer trip
+   * keeps a link to it, so the repositioning trip is cancelled or moved together with the customer trip
+   */
+  private async bookWithRepositioning(
+    dto: RequestTripDto,
+    departureTime: Date,
+    seats: number,
+    userId: string,
+    fare: FareQuote,
+  ): Promise<TripStatusDto | null> {
+    const candidate = await this.spaceshipService.findRepositioningCandidate(
+      dto.departureLocationCode,
+      departureTime,
+      seats,
+    );
+
+    if (!candidate) {
+      return null;
     }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const spaceshipId = candidate.spaceshipId;
+      const unavailableMessage = `Spaceship ${spaceshipId} is no longer available for repositioning`;
+      const travelDetails = await this.calculateTravelDetails(
+        dto.departureLocationCode,
+        dto.destinationLocationCode,
+        departureTime,
+      );
+
+      await this.assertSpaceshipFree(
+        queryRunner.manager,
+        spaceshipId,
+        candidate.departureAt,
+        travelDetails.arrivalTime,
+        unavailableMessage,
+      );
+
+      const repositioningTrip = await queryRunner.manager.save(
+        Trip,
+        this.tripRepository.create({
+          spaceshipId,
+          departureLocationCode: candidate.fromLocationCode,
+          destinationLocationCode: dto.departureLocationCode,
+          departureAt: candidate.departureAt,
+          arrivalAt: candidate.arrivalAt,
+          status: TripStatus.SCHEDULED,
+          type: TripType.REPOSITIONING,
+          isRevenue: false,
+        }),
+      );
+      await this.recordEvent(queryRunner.manager, repositioningTrip, {
+        type: TripEventType.CREATED,
+        actorUserId: userId,
+        reason: 'Repositioning for a passenger trip',
+      });
+
+      const trip = await queryRunner.manager.save(
+        Trip,
+        this.tripRepository.create({
+          spaceshipId,
+          departureLocationCode: dto.departureLocationCode,
+          destinationLocationCode: dto.destinationLocationCode,
+          departureAt: departureTime,
+          arrivalAt: travelDetails.arrivalTime,
+          status: TripStatus.PENDING_PAYMENT,
+          cancellationPolicyId: await this.currentCancellationPolicyId(queryRunner.manager),
+          repositioningTripId: repositioningTrip.id,
+        }),
+      );
+      await this.recordEvent(queryRunner.manager, trip, {
+        type: TripEventType.CREATED,
+        actorUserId: userId,
+        details: { repositioningTripId: repositioningTrip.id },
+      });
+
+      const booking = await this.createBooking(queryRunner.manager, trip.id, seats, {
+        userId,
+        passengerName: dto.passengerName ?? null,
+        fare,
+        paymentDueAt: this.paymentDueAt(trip.departureAt),
+      });
+      await queryRunner.commitTransaction();
+
+      this.logger.log(
+        `Trip ${trip.id} created with repositioning trip ${repositioningTrip.id} from ${candidate.fromLocationCode}`,
+      );
+
+      return this.toTripStatusDto(trip, booking);
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Accept an alternative-time offer
+   * Turns the held spaceship into a trip awaiting payment inside a single transaction
+   * Only the customer the offer was made to can accept it
+   */
+  async acceptOffer(offerId: string, userId: string): Promise<TripStatusDto> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const offer = await queryRunner.manager.findOne(TripOffer, {
+        where: { id: offerId, userId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!offer) {
+        throw new NotFoundException('Offer not found');
+      }
+
+      if (offer.status === TripOfferStatus.ACCEPTED) {
+        throw new BadRequestException('Offer has already been accepted');
+      }
+
+      if (offer.status === TripOfferStatus.EXPIRED || offer.expiresAt <= new Date()) {
+        throw new GoneException('Offer has expired');
+      }
+
+      // Reschedule offers move the customer's existing trip rather than booking a new one
+      if (offer.rescheduledTripId) {
+        const rescheduledTrip = await this.moveTripToOffer(queryRunner.manager, offer, offer.rescheduledTripId, userId);
+        await queryRunner.commitTransaction();
+
+        this.logger.log(`Offer ${offer.id} accepted, trip ${rescheduledTrip.id} rescheduled`);
+        return this.toTripStatusDto(rescheduledTrip);
+      }
+
+      // The hold only protects against new requests; make sure nothing slipped in before it was created
+      await this.assertSpaceshipFree(
+        queryRunner.manager,
+        offer.spaceshipId,
+        offer.departureAt,
+        offer.arrivalAt,
+        'The offered spaceship is no longer available',
+      );
+
+      const trip = this.tripRepository.create({
+        spaceshipId: offer.spaceshipId,
+        departureLocationCode: offer.departureLocationCode,
+        destinationLocationCode: offer.destinationLocationCode,
+        departureAt: offer.departureAt,
+        arrivalAt: offer.arrivalAt,
+        status: TripStatus.PENDING_PAYMENT,
+        cancellationPolicyId: await this.currentCancellationPolicyId(queryRunner.manager),
+      });
+
+      const savedTrip = await queryRunner.manager.save(Trip, trip);
+      await this.recordEvent(queryRunner.manager, savedTrip, {
+        type: TripEventType.CREATED,
+        actorUserId: userId,
+        details: { offerId: offer.id },
+      });
+      const booking = await this.createBooking(queryRunner.manager, savedTrip.id, offer.seats, {
+        userId: offer.userId,
+        passengerName: offer.passengerName,
+        fare:
+          offer.fareAmount !== null && offer.fareCurrency !== null
+            ? { totalFare: Number(offer.fareAmount), currency: offer.fareCurrency }
+            : await this.pricingService.quote(offer),
+        paymentDueAt: this.paymentDueAt(savedTrip.departureAt),
+      });
+
+      offer.status = TripOfferStatus.ACCEPTED;
+      offer.tripId = savedTrip.id;
+      await queryRunner.manager.save(TripOffer, offer);
+
+      await queryRunner.commitTransaction();
+
+      this.logger.log(`Offer ${offer.id} accepted as trip ${savedTrip.id}`);
+
+      return this.toTripStatusDto(savedTrip, booking);
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Move a trip to a new departure time, and optionally a new destination
+   * Keeps the current spaceship when it is still free, otherwise reassigns the best available one.
+   * When no spaceship can fly it, the trip is left untouched and an alternative time is offered instead.
+   * Only a trip the caller has to themselves can be moved; shared trips are left for other passengers.
+   */
+  async rescheduleTrip(
+    tripId: string,
+    dto: RescheduleTripDto,
+    userId: string,
+  ): Promise<TripStatusDto | AlternativeTimeOfferDto> {
+    const trip = await this.findOwnedTrip(tripId, userId);
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    this.assertReschedulable(trip);
+
+    const destinationLocationCode = dto.destinationLocationCode ?? trip.destinationLocationCode;
+    await this.validateTripRequest({
+      departureLocationCode: trip.departureLocationCode,
+      destinationLocationCode,
+      departureAt: dto.departureAt,
+    });
+
+    const departureTime = DateUtils.parseISOString(dto.departureAt);
+    const travelDetails = await this.calculateTravelDetails(
+      trip.departureLocationCode,
+      destinationLocationCode,
+      departureTime,
+    );
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    let seats: number;
+    try {
+      const lockedTrip = await queryRunner.manager.findOneOrFail(Trip, {
+        where: { id: tripId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      this.assertReschedulable(lockedTrip);
+      await this.assertSoleOwner(queryRunner.manager, tripId, userId);
+
+      seats = Math.max(await this.countBookedSeats(queryRunner.manager, tripId), 1);
+
+      // The trip itself is left out of the search so its current slot doesn't block the move
+      const candidates = await this.spaceshipService.findAvailableSpaceships(
+        lockedTrip.departureLocationCode,
+        departureTime,
+        travelDetails.arrivalTime,
+        seats,
+        { excludeTripId: tripId, manager: queryRunner.manager },
+      );
+      const selected =
+        candidates.find((candidate) => candidate.spaceshipId === lockedTrip.spaceshipId) ?? candidates[0];
+
+      if (selected) {
+        const previous = this.scheduleDetails(lockedTrip);
+        const previousDepartureAt = lockedTrip.departureAt;
+        lockedTrip.spaceshipId = selected.spaceshipId;
+        lockedTrip.destinationLocationCode = destinationLocationCode;
+        lockedTrip.departureAt = departureTime;
+        lockedTrip.arrivalAt = travelDetails.arrivalTime;
+        const savedTrip = await queryRunner.manager.save(Trip, lockedTrip);
+        await this.recordEvent(queryRunner.manager, savedTrip, {
+          type: TripEventType.RESCHEDULED,
+          fromStatus: savedTrip.status,
+          actorUserId: userId,
+          details: previous,
+        });
+        await this.moveRepositioningTrip(queryRunner.manager, savedTrip, previousDepartureAt, userId);
+        await queryRunner.commitTransaction();
+
+        this.logger.log(
+          `Trip ${tripId} rescheduled to ${departureTime.toISOString()} on spaceship ${selected.spaceshipId}`,
+        );
+        return this.toTripStatusDto(savedTrip);
+      }
+
+      await queryRunner.rollbackTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`No spaceship can fly trip ${tripId} at ${departureTime.toISOString()}, finding alternatives`);
+    return this.offerAlternativeTime(
+      trip.departureLocationCode,
+      destinationLocationCode,
+      departureTime,
+      seats,
+      { userId, passengerName: null },
+      tripId,
+    );
+  }
+
+  /**
+   * Move a trip onto the spaceship and times held by a reschedule offer
+   */
+  private async moveTripToOffer(
+    manager: EntityManager,
+    offer: TripOffer,
+    tripId: string,
+    actorUserId: string,
+  ): Promise<Trip> {
+    const trip = await manager.findOne(Trip, {
+      where: { id: tripId },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!trip || trip.status !== TripStatus.SCHEDULED || trip.departureAt <= new Date()) {
+      throw new ConflictException(`Trip ${tripId} can no longer be rescheduled`);
+    }
+
+    await this.assertSpaceshipFree(
+      manager,
+      offer.spaceshipId,
+      offer.departureAt,
+      offer.arrivalAt,
+      'The offered spaceship is no longer available',
+      { excludeTripId: tripId },
+    );
+
+    const previous = this.scheduleDetails(trip);
+    const previousDepartureAt = trip.departureAt;
+    trip.spaceshipId = offer.spaceshipId;
+    trip.destinationLocationCode = offer.destinationLocationCode;
+    trip.departureAt = offer.departureAt;
+    trip.arrivalAt = offer.arrivalAt;
+    const savedTrip = await manager.save(Trip, trip);
+    await this.recordEvent(manager, savedTrip, {
+      type: TripEventType.RESCHEDULED,
+      fromStatus: savedTrip.status,
+      actorUserId,
+      details: { ...previous, offerId: offer.id },
+    });
+    await this.moveRepositioningTrip(manager, savedTrip, previousDepartureAt, actorUserId);
+
+    offer.status = TripOfferStatus.ACCEPTED;
+    offer.tripId = savedTrip.id;
+    await manager.save(TripOffer, offer);
+
+    return savedTrip;
   }
 
   /**
    * Validate trip request
    */
-  private async validateTripRequest(dto: RequestTripDto): Promise<void> {
+  async validateTripRequest(
+    dto: Pick<RequestTripDto, 'departureLocationCode' | 'destinationLocationCode' | 'departureAt'>,
+  ): Promise<void> {
     // Check if locations exist
     await this.locationService.validateLocationCodes([dto.departureLocationCode, dto.destinationLocationCode]);
 
@@ -155,84 +977,956 @@ export class TripService {
   }
 
   /**
-   * Calculate travel details between two locations
+   * Calculate travel details between two locations
+   */
+  private async calculateTravelDetails(
+    departureCode: string,
+    destinationCode: string,
+    departureTime: Date,
+  ): Promise<{ distance: number; travelTime: number; arrivalTime: Date }> {
+    const distanceInfo = await this.locationService.calculateDistance(departureCode, destinationCode);
+
+    const travelTime = TimeCalculator.calculateTravelTime(distanceInfo.distanceMiles);
+    const arrivalTime = TimeCalculator.calculateArrivalTime(departureTime, distanceInfo.distanceMiles);
+
+    return {
+      distance: distanceInfo.distanceMiles,
+      travelTime,
+      arrivalTime,
+    };
+  }
+
+  /**
+   * Find the earliest available spaceship for a route
+   */
+  private async findEarliestAvailableSpaceship(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    afterTime: Date,
+    minSeats: number = 1,
+    excludeTripId?: string,
+  ): Promise<Partial<Trip> | null> {
+    const { travelTime } = await this.calculateTravelDetails(departureLocationCode, destinationLocationCode, afterTime);
+    const candidate = await this.spaceshipService.findEarliestAvailableSpaceship(
+      departureLocationCode,
+      afterTime,
+      travelTime,
+      minSeats,
+      excludeTripId,
+    );
+
+    if (!candidate) {
+      return null;
+    }
+
+    return {
+      spaceshipId: candidate.spaceshipId,
+      departureLocationCode,
+      destinationLocationCode,
+      departureAt: candidate.departureAt,
+      arrivalAt: candidate.arrivalAt,
+      status: TripStatus.SCHEDULED,
+    };
+  }
+
+  /**
+   * Find the earliest way to fly a single leg departing at or after the given time
+   * Considers seats left on trips still open for booking as well as spaceships that can start a new trip
+   */
+  async findLegOption(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    earliestDeparture: Date,
+    seats: number,
+  ): Promise<LegOptionDto | null> {
+    const [scheduledTrip, newTrip] = await Promise.all([
+      this.findJoinableTripWithSeats(departureLocationCode, destinationLocationCode, earliestDeparture, seats),
+      this.findNewTripOption(departureLocationCode, destinationLocationCode, earliestDeparture, seats),
+    ]);
+
+    if (scheduledTrip && (!newTrip || scheduledTrip.departureAt <= newTrip.departureAt)) {
+      return {
+        departureLocationCode,
+        destinationLocationCode,
+        departureAt: scheduledTrip.departureAt,
+        arrivalAt: scheduledTrip.arrivalAt,
+        spaceshipId: scheduledTrip.spaceshipId,
+        tripId: scheduledTrip.id,
+      };
+    }
+
+    return newTrip;
+  }
+
+  /**
+   * Reserve seats on a planned leg inside a caller-managed transaction
+   * Joins the planned trip, or creates a new one on the planned spaceship awaiting payment.
+   * The booking awaits payment until the given deadline, like any other
+   */
+  async reserveLeg(
+    manager: EntityManager,
+    leg: LegOptionDto,
+    booking: {
+      userId: string;
+      passengerName: string | null;
+      seats: number;
+      itineraryId?: string;
+      legIndex?: number;
+      paymentDueAt: Date;
+    },
+  ): Promise<{ trip: Trip; booking: Booking }> {
+    let trip: Trip | null;
+
+    if (leg.tripId) {
+      trip = await manager.findOne(Trip, {
+        where: { id: leg.tripId, status: In(JOINABLE_TRIP_STATUSES) },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!trip) {
+        throw new ConflictException(`Trip ${leg.tripId} can no longer be booked`);
+      }
+
+      const spaceship = await manager.findOneOrFail(Spaceship, { where: { id: trip.spaceshipId } });
+      const bookedSeats = await this.countBookedSeats(manager, trip.id);
+      if (spaceship.seatCapacity - bookedSeats < booking.seats) {
+        throw new ConflictException(`Trip ${trip.id} no longer has ${booking.seats} seat(s) available`);
+      }
+    } else {
+      await this.assertSpaceshipFree(
+        manager,
+        leg.spaceshipId,
+        leg.departureAt,
+        leg.arrivalAt,
+        `Spaceship ${leg.spaceshipId} is no longer available`,
+        { includeHolds: true },
+      );
+
+      trip = await manager.save(
+        Trip,
+        this.tripRepository.create({
+          spaceshipId: leg.spaceshipId,
+          departureLocationCode: leg.departureLocationCode,
+          destinationLocationCode: leg.destinationLocationCode,
+          departureAt: leg.departureAt,
+          arrivalAt: leg.arrivalAt,
+          status: TripStatus.PENDING_PAYMENT,
+          cancellationPolicyId: await this.currentCancellationPolicyId(manager),
+        }),
+      );
+      await this.recordEvent(manager, trip, {
+        type: TripEventType.CREATED,
+        actorUserId: booking.userId,
+        details: booking.itineraryId ? { itineraryId: booking.itineraryId } : undefined,
+      });
+    }
+
+    const fare = await this.pricingService.quote({ ...trip, seats: booking.seats });
+    const savedBooking = await this.createBooking(manager, trip.id, booking.seats, {
+      userId: booking.userId,
+      passengerName: booking.passengerName,
+      itineraryId: booking.itineraryId,
+      legIndex: booking.legIndex,
+      fare,
+      paymentDueAt: booking.paymentDueAt,
+    });
+
+    return { trip, booking: savedBooking };
+  }
+
+  private async findJoinableTripWithSeats(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    earliestDeparture: Date,
+    seats: number,
+  ): Promise<Trip | null> {
+    return this.joinableTripsWithSeats(departureLocationCode, destinationLocationCode, seats)
+      .andWhere('trip.departureAt >= :earliestDeparture', { earliestDeparture })
+      .orderBy('trip.departureAt', 'ASC')
+      .getOne();
+  }
+
+  /**
+   * Passenger trips between any of the given locations still open for booking, with the seats left,
+   * departing at or after a time, soonest first
+   * Lets a search over many routes load every trip it could join at once.
+   */
+  async findJoinableTrips(locationCodes: string[], earliestDeparture: Date, seats: number): Promise<Trip[]> {
+    return this.tripsWithSeats(seats)
+      .andWhere('trip.departureLocationCode IN (:...locationCodes)', { locationCodes })
+      .andWhere('trip.destinationLocationCode IN (:...locationCodes)', { locationCodes })
+      .andWhere('trip.departureAt >= :earliestDeparture', { earliestDeparture })
+      .orderBy('trip.departureAt', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Passenger trips on a route still open for booking, with at least the given number of seats left
+   */
+  private joinableTripsWithSeats(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    seats: number,
+  ): SelectQueryBuilder<Trip> {
+    return this.tripsWithSeats(seats)
+      .andWhere('trip.departureLocationCode = :departureLocationCode', { departureLocationCode })
+      .andWhere('trip.destinationLocationCode = :destinationLocationCode', { destinationLocationCode });
+  }
+
+  private tripsWithSeats(seats: number): SelectQueryBuilder<Trip> {
+    return this.tripRepository
+      .createQueryBuilder('trip')
+      .innerJoin('trip.spaceship', 'spaceship')
+      .where('trip.status IN (:...joinable)', { joinable: JOINABLE_TRIP_STATUSES })
+      .andWhere('trip.type = :passenger', { passenger: TripType.PASSENGER })
+      .andWhere(
+        `spaceship.seatCapacity - (
+          SELECT COALESCE(SUM(booking.seats), 0) FROM bookings booking
+          WHERE booking.trip_id = trip.id AND booking.status IN (:...holding)
+        ) >= :seats`,
+        { holding: SEAT_HOLDING_BOOKING_STATUSES, seats },
+      );
+  }
+
+  private async findNewTripOption(
+    departureLocationCode: string,
+    destinationLocationCode: string,
+    earliestDeparture: Date,
+    seats: number,
+  ): Promise<LegOptionDto | null> {
+    const travelDetails = await this.calculateTravelDetails(
+      departureLocationCode,
+      destinationLocationCode,
+      earliestDeparture,
+    );
+
+    const availableSpaceships = await this.spaceshipService.findAvailableSpaceships(
+      departureLocationCode,
+      earliestDeparture,
+      travelDetails.arrivalTime,
+      seats,
+    );
+
+    if (availableSpaceships.length > 0) {
+      return {
+        departureLocationCode,
+        destinationLocationCode,
+        departureAt: earliestDeparture,
+        arrivalAt: travelDetails.arrivalTime,
+        spaceshipId: availableSpaceships[0].spaceshipId,
+        tripId: null,
+      };
+    }
+
+    const earliestAvailable = await this.findEarliestAvailableSpaceship(
+      departureLocationCode,
+      destinationLocationCode,
+      earliestDeparture,
+      seats,
+    );
+
+    if (!earliestAvailable?.spaceshipId || !earliestAvailable.departureAt || !earliestAvailable.arrivalAt) {
+      return null;
+    }
+
+    return {
+      departureLocationCode,
+      destinationLocationCode,
+      departureAt: earliestAvailable.departureAt,
+      arrivalAt: earliestAvailable.arrivalAt,
+      spaceshipId: earliestAvailable.spaceshipId,
+      tripId: null,
+    };
+  }
+
+  /**
+   * Cancel the caller's place on a trip
+   * Cancels every booking they hold on it; the trip itself is only cancelled once nobody is left on it.
+   * Paid bookings are refunded, less the fee of the cancellation policy the trip was booked under.
+   */
+  async cancelTrip(tripId: string, userId: string, dto: CancelBookingDto = {}): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const trip = await queryRunner.manager.findOne(Trip, {
+        where: { id: tripId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const bookings = trip ? await queryRunner.manager.find(Booking, { where: { tripId, userId } }) : [];
+
+      // Trips the caller holds no booking on are reported as missing rather than forbidden
+      if (!trip || bookings.length === 0) {
+        throw new NotFoundException('Trip not found');
+      }
+
+      const activeBookings = bookings.filter((booking) => SEAT_HOLDING_BOOKING_STATUSES.includes(booking.status));
+      if (activeBookings.length === 0) {
+        throw new BadRequestException('Trip is already cancelled');
+      }
+
+      for (const booking of activeBookings) {
+        await this.releaseBooking(queryRunner.manager, booking, userId, trip, { reason: dto.reason });
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Bookings of user ${userId} on trip ${tripId} cancelled successfully`);
+  }
+
+  /**
+   * Cancel a trip on behalf of operations, together with every booking on it
+   * The override also cancels trips that have already departed, e.g. for a diversion
+   */
+  async cancelTripAsOperator(tripId: string, dto: CancelTripDto, operatorId: string): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      await this.cancelWithReason(queryRunner.manager, tripId, dto.reason, operatorId, dto.override ?? false);
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Trip ${tripId} cancelled by operator ${operatorId}: ${dto.reason}`);
+  }
+
+  /**
+   * Put a trip in a status by hand, for when the schedule and reality disagree
+   * Forcing CANCELLED behaves like an operator cancellation with the override; cancelled trips stay cancelled
+   */
+  async forceTripStatus(tripId: string, dto: ForceTripStatusDto, operatorId: string): Promise<TripStatusDto> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    let trip: Trip;
+    try {
+      if (dto.status === TripStatus.CANCELLED) {
+        trip = await this.cancelWithReason(queryRunner.manager, tripId, dto.reason, operatorId, true);
+      } else {
+        const lockedTrip = await queryRunner.manager.findOne(Trip, {
+          where: { id: tripId },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        if (!lockedTrip) {
+          throw new NotFoundException('Trip not found');
+        }
+
+        if (lockedTrip.status === TripStatus.CANCELLED) {
+          throw new BadRequestException('Cancelled trips cannot be reopened');
+        }
+
+        if (lockedTrip.status === dto.status) {
+          throw new BadRequestException(`Trip is already ${dto.status}`);
+        }
+
+        if (dto.status === TripStatus.PENDING_PAYMENT) {
+          throw new BadRequestException('Trips cannot be put back to PENDING_PAYMENT');
+        }
+
+        const fromStatus = lockedTrip.status;
+        lockedTrip.status = dto.status;
+        trip = await queryRunner.manager.save(Trip, lockedTrip);
+        await this.recordEvent(queryRunner.manager, trip, {
+          type: TripEventType.STATUS_CHANGED,
+          fromStatus,
+          actorUserId: operatorId,
+          reason: dto.reason,
+          details: { forced: true },
+        });
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    // A completed trip leaves its spaceship at the destination, as the status sweep would
+    if (trip.status === TripStatus.COMPLETED) {
+      await this.spaceshipService.updateCurrentLocation(trip.spaceshipId, trip.destinationLocationCode);
+    }
+
+    this.logger.log(`Trip ${tripId} forced to ${dto.status} by operator ${operatorId}: ${dto.reason}`);
+    return this.toTripStatusDto(trip);
+  }
+
+  /**
+   * Cancel a trip and all of its bookings inside a caller-managed transaction, recording who did it and why
+   */
+  private async cancelWithReason(
+    manager: EntityManager,
+    tripId: string,
+    reason: string,
+    operatorId: string,
+    override: boolean,
+  ): Promise<Trip> {
+    const trip = await manager.findOne(Trip, {
+      where: { id: tripId },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    if (override) {
+      if (trip.status === TripStatus.CANCELLED) {
+        throw new BadRequestException('Trip is already cancelled');
+      }
+
+      if (trip.status === TripStatus.COMPLETED) {
+        throw new BadRequestException('Cannot cancel a completed trip');
+      }
+    } else {
+      this.assertCancellable(trip);
+    }
+
+    // Operations cancelling is never the customer's fault: paid bookings are refunded in full
+    const bookings = await manager.find(Booking, { where: { tripId, status: In(SEAT_HOLDING_BOOKING_STATUSES) } });
+    await manager.update(
+      Booking,
+      { tripId, status: In(SEAT_HOLDING_BOOKING_STATUSES) },
+      {
+        status: BookingStatus.CANCELLED,
+        paymentDueAt: null,
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+        cancellationFee: 0,
+      },
+    );
+    for (const booking of bookings) {
+      await this.paymentService.issueRefund(manager, booking.id, reason);
+    }
+    await this.webhookService.enqueue(
+      manager,
+      bookings.map((booking) =>
+        this.bookingWebhookEvent({ ...booking, status: BookingStatus.CANCELLED }, WebhookEventType.BOOKING_CANCELLED),
+      ),
+    );
+
+    const fromStatus = trip.status;
+    trip.status = TripStatus.CANCELLED;
+    trip.cancelledAt = new Date();
+    trip.cancelledByUserId = operatorId;
+    trip.cancellationReason = reason;
+    const savedTrip = await manager.save(Trip, trip);
+    await this.recordEvent(manager, savedTrip, {
+      type: TripEventType.STATUS_CHANGED,
+      fromStatus,
+      actorUserId: operatorId,
+      reason,
+      details: override ? { override: true } : undefined,
+    });
+    await this.cancelRepositioningTrip(manager, savedTrip, operatorId);
+
+    return savedTrip;
+  }
+
+  /**
+   * Cancel a single passenger booking
+   * The trip keeps flying for the remaining passengers; it is only cancelled once nobody is left on it
+   * Staff can cancel any booking, refunded in full; everyone else only their own, less the cancellation fee
+   */
+  async cancelBooking(
+    tripId: string,
+    bookingId: string,
+    userId: string,
+    options: { anyOwner?: boolean; reason?: string } = {},
+  ): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const trip = await queryRunner.manager.findOne(Trip, {
+        where: { id: tripId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!trip) {
+        throw new NotFoundException('Trip not found');
+      }
+
+      const booking = await queryRunner.manager.findOne(Booking, {
+        where: options.anyOwner ? { id: bookingId, tripId } : { id: bookingId, tripId, userId },
+      });
+
+      if (!booking) {
+        throw new NotFoundException('Booking not found');
+      }
+
+      await this.releaseBooking(queryRunner.manager, booking, userId, trip, {
+        waiveFee: options.anyOwner,
+        reason: options.reason,
+      });
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Booking ${bookingId} on trip ${tripId} cancelled successfully`);
+  }
+
+  /**
+   * Preview what cancelling the caller's bookings on a trip would cost, without cancelling anything
+   * Pass no user to preview cancelling every booking on the trip, for operations staff
+   */
+  async getCancellationQuote(tripId: string, userId?: string): Promise<CancellationQuoteDto> {
+    const trip = await this.findOwnedTrip(tripId, userId);
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    this.assertCancellable(trip);
+
+    const bookings = await this.dataSource.manager.find(Booking, {
+      where: {
+        tripId,
+        status: In(SEAT_HOLDING_BOOKING_STATUSES),
+        ...(userId ? { userId } : {}),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (bookings.length === 0) {
+      throw new BadRequestException('Trip is already cancelled');
+    }
+
+    const now = new Date();
+    const { policy, hoursBeforeDeparture, feePercent } = await this.cancellationPolicyService.feeForTrip(trip, now);
+
+    const quotedBookings: CancellationQuoteDto['bookings'] = [];
+    for (const booking of bookings) {
+      const paidAmount = await this.paymentService.getRefundableAmount(booking.id);
+      const fee = Math.round(paidAmount * feePercent) / 100;
+      quotedBookings.push({
+        bookingId: booking.id,
+        seats: booking.seats,
+        status: booking.status,
+        paidAmount,
+        fee,
+        refundAmount: Math.round((paidAmount - fee) * 100) / 100,
+      });
+    }
+
+    return {
+      tripId: trip.id,
+      departureAt: trip.departureAt.toISOString(),
+      policy: policy ? { id: policy.id, version: policy.version, name: policy.name, tiers: policy.tiers } : null,
+      hoursBeforeDeparture: Math.round(hoursBeforeDeparture * 100) / 100,
+      feePercent,
+      currency: bookings.find((booking) => booking.fareCurrency)?.fareCurrency ?? null,
+      bookings: quotedBookings,
+      totalFee: Math.round(quotedBookings.reduce((total, booking) => total + booking.fee * 100, 0)) / 100,
+      totalRefund: Math.round(quotedBookings.reduce((total, booking) => total + booking.refundAmount * 100, 0)) / 100,
+      quotedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Cancel a booking inside a caller-managed transaction
+   * A paid booking is refunded, less the fee of the trip's cancellation policy unless it is waived.
+   * The trip is cancelled too once no passengers are left on it
+   */
+  async releaseBooking(
+    manager: EntityManager,
+    booking: Booking,
+    actorUserId: string | null,
+    lockedTrip?: Trip,
+    options: { waiveFee?: boolean; reason?: string } = {},
+  ): Promise<void> {
+    const trip =
+      lockedTrip ??
+      (await manager.findOne(Trip, {
+        where: { id: booking.tripId },
+        lock: { mode: 'pessimistic_write' },
+      }));
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    if (booking.status === BookingStatus.CANCELLED) {
+      throw new BadRequestException('Booking is already cancelled');
+    }
+
+    this.assertCancellable(trip);
+
+    const now = new Date();
+    const paid = await this.paymentService.getRefundableAmount(booking.id, manager);
+    const { feePercent } = options.waiveFee
+      ? { feePercent: 0 }
+      : await this.cancellationPolicyService.feeForTrip(trip, now, manager);
+    const fee = Math.round(paid * feePercent) / 100;
+
+    booking.status = BookingStatus.CANCELLED;
+    booking.paymentDueAt = null;
+    booking.cancelledAt = now;
+    booking.cancellationReason = options.reason ?? null;
+    booking.cancellationFee = fee;
+    await manager.save(Booking, booking);
+    await this.webhookService.enqueue(manager, [this.bookingWebhookEvent(booking, WebhookEventType.BOOKING_CANCELLED)]);
+
+    if (paid > fee) {
+      await this.paymentService.issueRefund(
+        manager,
+        booking.id,
+        fee > 0 ? `Booking cancelled, less a ${feePercent}% cancellation fee` : 'Booking cancelled',
+        { amount: paid - fee },
+      );
+    }
+
+    await this.cancelTripIfEmpty(manager, trip, actorUserId, 'Last booking cancelled');
+  }
+
+  /**
+   * Cancel a trip inside a caller-managed transaction once none of its bookings hold seats any more
+   */
+  private async cancelTripIfEmpty(
+    manager: EntityManager,
+    trip: Trip,
+    actorUserId: string | null,
+    reason: string,
+  ): Promise<void> {
+    const remainingSeats = await this.countBookedSeats(manager, trip.id);
+    if (remainingSeats > 0) {
+      return;
+    }
+
+    const fromStatus = trip.status;
+    trip.status = TripStatus.CANCELLED;
+    trip.cancelledAt = new Date();
+    await manager.save(Trip, trip);
+    await this.recordEvent(manager, trip, {
+      type: TripEventType.STATUS_CHANGED,
+      fromStatus,
+      actorUserId,
+      reason,
+    });
+    await this.cancelRepositioningTrip(manager, trip, actorUserId);
+    this.logger.log(`Trip ${trip.id} cancelled: ${reason}`);
+  }
+
+  /**
+   * Cancel the repositioning trip of a passenger trip inside a caller-managed transaction
+   * Only a repositioning trip that has not left yet is cancelled; one already flying completes as planned
+   */
+  private async cancelRepositioningTrip(manager: EntityManager, trip: Trip, actorUserId: string | null): Promise<void> {
+    if (!trip.repositioningTripId) {
+      return;
+    }
+
+    const repositioningTrip = await manager.findOne(Trip, {
+      where: { id: trip.repositioningTripId, status: TripStatus.SCHEDULED },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!repositioningTrip) {
+      return;
+    }
+
+    const reason = `Passenger trip ${trip.id} no longer needs it`;
+    repositioningTrip.status = TripStatus.CANCELLED;
+    repositioningTrip.cancelledAt = new Date();
+    await manager.save(Trip, repositioningTrip);
+    await this.recordEvent(manager, repositioningTrip, {
+      type: TripEventType.STATUS_CHANGED,
+      fromStatus: TripStatus.SCHEDULED,
+      actorUserId,
+      reason,
+    });
+    this.logger.log(`Repositioning trip ${repositioningTrip.id} cancelled: ${reason}`);
+  }
+
+  /**
+   * Keep the repositioning trip of a rescheduled passenger trip in step with it, inside a caller-managed transaction
+   * On the same spaceship it is moved by as much as the passenger trip was, when the spaceship is free then.
+   * It is cancelled when the trip moved to another spaceship, or when it could not be moved and no longer
+   * arrives in time
+   */
+  private async moveRepositioningTrip(
+    manager: EntityManager,
+    trip: Trip,
+    previousDepartureAt: Date,
+    actorUserId: string,
+  ): Promise<void> {
+    if (!trip.repositioningTripId) {
+      return;
+    }
+
+    const repositioningTrip = await manager.findOne(Trip, {
+      where: { id: trip.repositioningTripId, status: TripStatus.SCHEDULED },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!repositioningTrip) {
+      return;
+    }
+
+    if (repositioningTrip.spaceshipId === trip.spaceshipId) {
+      const shiftMs = trip.departureAt.getTime() - previousDepartureAt.getTime();
+      const departureAt = DateUtils.addMilliseconds(repositioningTrip.departureAt, shiftMs);
+      const arrivalAt = DateUtils.addMilliseconds(repositioningTrip.arrivalAt, shiftMs);
+      const canMove =
+        departureAt > new Date() &&
+        !(await this.spaceshipService.hasScheduleConflict(trip.spaceshipId, departureAt, arrivalAt, manager, {
+          includeHolds: false,
+          excludeTripId: repositioningTrip.id,
+        }));
+
+      if (canMove) {
+        const previous = this.scheduleDetails(repositioningTrip);
+        repositioningTrip.departureAt = departureAt;
+        repositioningTrip.arrivalAt = arrivalAt;
+        await manager.save(Trip, repositioningTrip);
+        await this.recordEvent(manager, repositioningTrip, {
+          type: TripEventType.RESCHEDULED,
+          fromStatus: repositioningTrip.status,
+          actorUserId,
+          reason: `Passenger trip ${trip.id} was rescheduled`,
+          details: previous,
+        });
+        return;
+      }
+
+      if (repositioningTrip.arrivalAt <= trip.departureAt) {
+        return;
+      }
+    }
+
+    await this.cancelRepositioningTrip(manager, trip, actorUserId);
+    trip.repositioningTripId = null;
+    await manager.save(Trip, trip);
+  }
+
+  /**
+   * Pay for a booking awaiting payment: the fare is authorized and captured, then the booking is confirmed
+   * and a trip awaiting its first payment becomes SCHEDULED
+   * The booking is claimed under a row lock before the gateway is called, so a concurrent attempt gets 409 Conflict
+   * instead of a second charge. A payment that lands after the booking was released is refunded in full, and so
+   * is one the booking could not be updated for, e.g. when the transaction lost a serialization conflict.
+   */
+  async payBooking(tripId: string, bookingId: string, dto: PayBookingDto, userId: string): Promise<TripStatusDto> {
+    const payment = await this.claimPayment(tripId, bookingId, userId);
+    await this.paymentService.capture(payment, dto.paymentMethod);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    let settled: { trip: Trip; booking: Booking } | HttpException;
+    try {
+      settled = await this.settlePayment(queryRunner.manager, tripId, bookingId, payment, userId);
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      await this.refundUnsettledPayment(bookingId, payment);
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    if (settled instanceof HttpException) {
+      throw settled;
+    }
+
+    this.logger.log(`Booking ${bookingId} on trip ${tripId} confirmed by payment ${payment.id}`);
+    return this.toTripStatusDto(settled.trip, settled.booking);
+  }
+
+  /**
+   * Payments made for a booking, with their refunds
+   * Pass no user to look up any booking, for operations staff
+   */
+  async getBookingPayments(tripId: string, bookingId: string, userId?: string): Promise<Payment[]> {
+    const booking = await this.dataSource.manager.findOne(Booking, {
+      where: userId ? { id: bookingId, tripId, userId } : { id: bookingId, tripId },
+    });
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return this.paymentService.findForBooking(bookingId);
+  }
+
+  /**
+   * Refund a captured payment that could not be applied to its booking, so that paying again charges only once
+   * Should this fail too, the payment keeps blocking new attempts and is refunded when the booking is released
+   */
+  private async refundUnsettledPayment(bookingId: string, payment: Payment): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await this.paymentService.issueRefund(queryRunner.manager, bookingId, 'Payment could not be applied', {
+        paymentId: payment.id,
+      });
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error(
+        `Failed to refund unapplied payment ${payment.id} for booking ${bookingId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private assertPayable(booking: Booking, trip: Trip): void {
+    if (booking.status === BookingStatus.CONFIRMED) {
+      throw new ConflictException('Booking is already paid');
+    }
+
+    if (
+      booking.status !== BookingStatus.PENDING_PAYMENT ||
+      (booking.paymentDueAt && booking.paymentDueAt <= new Date())
+    ) {
+      throw new GoneException('The payment deadline has passed and the booking was released');
+    }
+
+    if (trip.departureAt <= new Date()) {
+      throw new BadRequestException('Cannot pay for a trip that has already departed');
+    }
+  }
+
+  /**
+   * Confirm a paid booking inside a caller-managed transaction
+   * The first payment on a trip awaiting payment schedules it
    */
-  private async calculateTravelDetails(
-    departureCode: string,
-    destinationCode: string,
-    departureTime: Date,
-  ): Promise<{ distance: number; travelTime: number; arrivalTime: Date }> {
-    const distanceInfo = await this.locationService.calculateDistance(departureCode, destinationCode);
+  private async confirmBooking(
+    manager: EntityManager,
+    booking: Booking,
+    trip: Trip,
+    actorUserId: string,
+  ): Promise<Booking> {
+    booking.status = BookingStatus.CONFIRMED;
+    booking.paymentDueAt = null;
+    const savedBooking = await manager.save(Booking, booking);
+    await this.webhookService.enqueue(manager, [
+      this.bookingWebhookEvent(savedBooking, WebhookEventType.BOOKING_CONFIRMED),
+    ]);
 
-    const travelTime = TimeCalculator.calculateTravelTime(distanceInfo.distanceMiles);
-    const arrivalTime = TimeCalculator.calculateArrivalTime(departureTime, distanceInfo.distanceMiles);
+    if (trip.status === TripStatus.PENDING_PAYMENT) {
+      trip.status = TripStatus.SCHEDULED;
+      await manager.save(Trip, trip);
+      await this.recordEvent(manager, trip, {
+        type: TripEventType.STATUS_CHANGED,
+        fromStatus: TripStatus.PENDING_PAYMENT,
+        actorUserId,
+        reason: 'Payment received',
+      });
+    }
 
-    return {
-      distance: distanceInfo.distanceMiles,
-      travelTime,
-      arrivalTime,
-    };
+    return savedBooking;
   }
 
   /**
-   * Find the earliest available spaceship for a route
+   * Claim a booking for payment before the gateway is called
+   * Read committed rather than serializable: once the row lock is granted, the in-flight check has to see a
+   * claim committed by the request that held the lock before us
    */
-  private async findEarliestAvailableSpaceship(
-    departureLocationCode: string,
-    destinationLocationCode: string,
-    afterTime: Date,
-  ): Promise<Partial<Trip> | null> {
-    const allSpaceships = await this.spaceshipService.findAll();
-    let earliestOption: {
-      spaceship: any;
-      availableTime: Date;
-    } | null = null;
-
-    for (const spaceship of allSpaceships) {
-      const nextAvailable = await this.spaceshipService.getNextAvailableTime(
-        spaceship.id,
-        departureLocationCode,
-        afterTime,
-      );
+  private async claimPayment(tripId: string, bookingId: string, userId: string): Promise<Payment> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
 
-      if (nextAvailable && (!earliestOption || nextAvailable < earliestOption.availableTime)) {
-        earliestOption = { spaceship, availableTime: nextAvailable };
+    try {
+      const booking = await queryRunner.manager.findOne(Booking, {
+        where: { id: bookingId, tripId, userId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!booking) {
+        throw new NotFoundException('Booking not found');
       }
-    }
 
-    if (!earliestOption) {
-      return null;
-    }
+      const payment = await this.startBookingPayment(queryRunner.manager, booking);
 
-    // Calculate trip details for earliest option
-    const travelDetails = await this.calculateTravelDetails(
-      departureLocationCode,
-      destinationLocationCode,
-      earliestOption.availableTime,
-    );
+      await queryRunner.commitTransaction();
+      return payment;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
 
-    return {
-      spaceshipId: earliestOption.spaceship.id,
-      departureLocationCode,
-      destinationLocationCode,
-      departureAt: earliestOption.availableTime,
-      arrivalAt: travelDetails.arrivalTime,
-      status: TripStatus.SCHEDULED,
-    };
+  /**
+   * Claim a booking the caller holds a row lock on for payment, once it is checked to still be payable
+   */
+  async startBookingPayment(manager: EntityManager, booking: Booking): Promise<Payment> {
+    this.assertPayable(booking, await manager.findOneOrFail(Trip, { where: { id: booking.tripId } }));
+    return this.paymentService.startPayment(manager, booking);
   }
 
   /**
-   * Cancel a trip
+   * Apply a captured payment inside a caller-managed transaction
+   * The booking is confirmed while it still awaits payment; otherwise the payment is refunded and the error that
+   * describes what happened to the booking in the meantime is returned for the caller to raise after committing
    */
-  async cancelTrip(tripId: string): Promise<void> {
-    const trip = await this.tripRepository.findOne({
+  async settlePayment(
+    manager: EntityManager,
+    tripId: string,
+    bookingId: string,
+    payment: Payment,
+    actorUserId: string,
+  ): Promise<{ trip: Trip; booking: Booking } | HttpException> {
+    const trip = await manager.findOneOrFail(Trip, {
       where: { id: tripId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const booking = await manager.findOneOrFail(Booking, {
+      where: { id: bookingId },
+      lock: { mode: 'pessimistic_write' },
     });
 
-    if (!trip) {
-      throw new NotFoundException('Trip not found');
+    if (booking.status === BookingStatus.PENDING_PAYMENT) {
+      return { trip, booking: await this.confirmBooking(manager, booking, trip, actorUserId) };
+    }
+
+    if (booking.status === BookingStatus.CONFIRMED) {
+      await this.paymentService.issueRefund(manager, bookingId, 'Booking was already paid', {
+        paymentId: payment.id,
+      });
+      return new ConflictException('Booking was already paid; this payment will be refunded');
     }
 
+    await this.paymentService.issueRefund(manager, bookingId, 'Paid after the booking was released', {
+      paymentId: payment.id,
+    });
+    return new GoneException(
+      `The booking was released while the payment was being taken (${booking.cancellationReason ?? 'cancelled'}); the payment will be refunded`,
+    );
+  }
+
+  private assertCancellable(trip: Trip): void {
     if (trip.status === TripStatus.CANCELLED) {
       throw new BadRequestException('Trip is already cancelled');
     }
@@ -246,23 +1940,29 @@ export class TripService {
     if (trip.departureAt <= now) {
       throw new BadRequestException('Cannot cancel a trip that has already departed');
     }
+  }
 
-    // Update trip status
-    trip.status = TripStatus.CANCELLED;
-    await this.tripRepository.save(trip);
+  private assertReschedulable(trip: Trip): void {
+    if (trip.type !== TripType.PASSENGER) {
+      throw new BadRequestException('Only passenger trips can be rescheduled');
+    }
+
+    if (trip.status !== TripStatus.SCHEDULED) {
+      throw new BadRequestException('Only scheduled trips can be rescheduled');
+    }
 
-    this.logger.log(`Trip ${tripId} cancelled successfully`);
+    if (trip.departureAt <= new Date()) {
+      throw new BadRequestException('Cannot reschedule a trip that has already departed');
+    }
   }
 
   /**
    * Get trip status
    * If trip is in progress, also returns current location
+   * Pass no user to look up any trip, for operations staff
    */
-  async getTripStatus(tripId: string): Promise<TripStatusDto> {
-    const trip = await this.tripRepository.findOne({
-      where: { id: tripId },
-      relations: ['spaceship', 'departureLocation', 'destinationLocation'],
-    });
+  async getTripStatus(tripId: string, userId?: string): Promise<TripStatusDto> {
+    const trip = await this.findOwnedTrip(tripId, userId, ['spaceship', 'departureLocation', 'destinationLocation']);
 
     if (!trip) {
       throw new NotFoundException('Trip not found');
@@ -276,6 +1976,7 @@ export class TripService {
       departureAt: trip.departureAt.toISOString(),
       arrivalAt: trip.arrivalAt.toISOString(),
       status: trip.status,
+      cancellationReason: trip.cancellationReason ?? undefined,
     };
 
     // If trip is scheduled and should be in progress, update status
@@ -302,6 +2003,7 @@ export class TripService {
           code: 'IN_TRANSIT',
           latitude: currentLocation.latitude,
           longitude: currentLocation.longitude,
+          heading: currentLocation.heading,
         };
       } else if (now >= trip.arrivalAt) {
         // Trip should be completed
@@ -313,17 +2015,134 @@ export class TripService {
     return response;
   }
 
+  /**
+   * Get the history of a trip, oldest event first
+   * Pass no user to look up any trip, for operations staff
+   */
+  async getTripHistory(tripId: string, userId?: string): Promise<TripEventDto[]> {
+    const trip = await this.findOwnedTrip(tripId, userId);
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    const events = await this.tripEventRepository.find({
+      where: { tripId },
+      order: { occurredAt: 'ASC' },
+    });
+
+    return events.map((event) => ({
+      eventId: event.id,
+      type: event.type,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorUserId: event.actorUserId,
+      reason: event.reason,
+      details: event.details,
+      occurredAt: event.occurredAt.toISOString(),
+    }));
+  }
+
   /**
    * Get all trips (with optional filters)
    */
-  async findAll(filters?: {
-    spaceshipId?: string;
-    status?: TripStatus;
-    departureLocationCode?: string;
-    destinationLocationCode?: string;
-    afterDate?: Date;
-    beforeDate?: Date;
-  }): Promise<Trip[]> {
+  async findAll(filters?: TripFilters): Promise<Trip[]> {
+    const query = this.buildTripQuery(filters);
+    query.orderBy('trip.departureAt', 'ASC');
+
+    return query.getMany();
+  }
+
+  /**
+   * One page of trips, by page number or by the cursor of the previous page
+   * Cursors are keyset-based (sort value, then id), so they stay stable while trips are added
+   */
+  async findPage(
+    filters: TripFilters,
+    options: { sortBy: TripSortField; sortOrder: SortOrder; page: number; limit: number; cursor?: string },
+  ): Promise<{ trips: Trip[]; total: number; nextCursor: string | null }> {
+    const total = await this.buildTripQuery(filters).getCount();
+
+    const after = options.cursor ? this.decodeCursor(options.cursor, options.sortBy, options.sortOrder) : undefined;
+    const query = this.buildOrderedTripQuery(filters, options.sortBy, options.sortOrder, after);
+    if (!after) {
+      query.skip((options.page - 1) * options.limit);
+    }
+
+    // One extra row tells whether there is a next page
+    const trips = await query.take(options.limit + 1).getMany();
+    const hasMore = trips.length > options.limit;
+    const pageTrips = hasMore ? trips.slice(0, options.limit) : trips;
+    const lastTrip = pageTrips[pageTrips.length - 1];
+
+    return {
+      trips: pageTrips,
+      total,
+      nextCursor: hasMore ? this.encodeCursor(lastTrip, options.sortBy, options.sortOrder) : null,
+    };
+  }
+
+  /**
+   * Every matching trip, fetched in keyset batches so exports never hold the whole table in memory
+   */
+  async *iterateTrips(
+    filters: TripFilters,
+    sortBy: TripSortField,
+    sortOrder: SortOrder,
+    batchSize = 500,
+  ): AsyncGenerator<Trip> {
+    let after: { value: string; id: string } | undefined;
+
+    while (true) {
+      const trips = await this.buildOrderedTripQuery(filters, sortBy, sortOrder, after).take(batchSize).getMany();
+      yield* trips;
+
+      if (trips.length < batchSize) {
+        return;
+      }
+
+      const lastTrip = trips[trips.length - 1];
+      after = { value: lastTrip[sortBy].toISOString(), id: lastTrip.id };
+    }
+  }
+
+  /**
+   * Load a trip with its locations; customers only get trips they are booked on
+   */
+  async getTrip(tripId: string, userId?: string): Promise<Trip> {
+    const trip = await this.findOwnedTrip(tripId, userId, ['departureLocation', 'destinationLocation']);
+
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    return trip;
+  }
+
+  /**
+   * Filtered trips in a stable order (sort value, then id), optionally starting after a keyset position
+   */
+  private buildOrderedTripQuery(
+    filters: TripFilters,
+    sortBy: TripSortField,
+    sortOrder: SortOrder,
+    after?: { value: string; id: string },
+  ): SelectQueryBuilder<Trip> {
+    const query = this.buildTripQuery(filters);
+    const sortColumn = `trip.${sortBy}`;
+
+    if (after) {
+      const comparison = sortOrder === SortOrder.ASC ? '>' : '<';
+      query.andWhere(`(${sortColumn}, trip.id) ${comparison} (:afterValue, :afterId)`, {
+        afterValue: after.value,
+        afterId: after.id,
+      });
+    }
+
+    return query.orderBy(sortColumn, sortOrder).addOrderBy('trip.id', sortOrder);
+  }
+
+  private buildTripQuery(filters?: TripFilters): SelectQueryBuilder<Trip> {
     const query = this.tripRepository
       .createQueryBuilder('trip')
       .leftJoinAndSelect('trip.spaceship', 'spaceship')
@@ -342,6 +2161,12 @@ export class TripService {
       });
     }
 
+    if (filters?.type) {
+      query.andWhere('trip.type = :type', {
+        type: filters.type,
+      });
+    }
+
     if (filters?.departureLocationCode) {
       query.andWhere('trip.departureLocationCode = :departureCode', {
         departureCode: filters.departureLocationCode,
@@ -366,45 +2191,448 @@ export class TripService {
       });
     }
 
-    query.orderBy('trip.departureAt', 'ASC');
+    if (filters?.userId) {
+      this.whereBookedBy(query, filters.userId);
+    }
 
-    return query.getMany();
+    return query;
+  }
+
+  private encodeCursor(trip: Trip, sortBy: TripSortField, sortOrder: SortOrder): string {
+    const cursor: TripCursor = { sortBy, sortOrder, value: trip[sortBy].toISOString(), id: trip.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(encoded: string, sortBy: TripSortField, sortOrder: SortOrder): TripCursor {
+    let cursor: Partial<TripCursor>;
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as Partial<TripCursor>;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (
+      typeof cursor.value !== 'string' ||
+      typeof cursor.id !== 'string' ||
+      !isUUID(cursor.id) ||
+      isNaN(new Date(cursor.value).getTime())
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+      throw new BadRequestException('Cursor was issued for a different sort order');
+    }
+
+    return cursor as TripCursor;
   }
 
   /**
    * Update trip statuses (run every 15 minutes)
+   * Each transition is recorded in the trip's history with the system as the actor
    */
   @Cron('*/15 * * * *')
   async updateTripStatuses(): Promise<void> {
     const now = new Date();
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
 
-    // Update trips that should be in progress
-    await this.tripRepository
-      .createQueryBuilder()
-      .update(Trip)
-      .set({ status: TripStatus.IN_PROGRESS })
-      .where('status = :scheduled', { scheduled: TripStatus.SCHEDULED })
-      .andWhere('departureAt <= :now', { now })
-      .andWhere('arrivalAt > :now', { now })
-      .execute();
-
-    // Update trips that should be completed
-    const completedTrips = await this.tripRepository
-      .createQueryBuilder()
-      .update(Trip)
-      .set({ status: TripStatus.COMPLETED })
-      .where('status IN (:...statuses)', {
-        statuses: [TripStatus.SCHEDULED, TripStatus.IN_PROGRESS],
-      })
-      .andWhere('arrivalAt <= :now', { now })
-      .returning('*')
-      .execute();
+    let completedTrips: Trip[];
+    let updatedCount: number;
+    try {
+      const dueTrips = await queryRunner.manager.find(Trip, {
+        where: [
+          { status: TripStatus.SCHEDULED, departureAt: LessThanOrEqual(now) },
+          { status: TripStatus.IN_PROGRESS, arrivalAt: LessThanOrEqual(now) },
+        ],
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const events: Partial<TripEvent>[] = [];
+      for (const trip of dueTrips) {
+        events.push({
+          tripId: trip.id,
+          type: TripEventType.STATUS_CHANGED,
+          fromStatus: trip.status,
+          toStatus: trip.arrivalAt <= now ? TripStatus.COMPLETED : TripStatus.IN_PROGRESS,
+          actorUserId: null,
+        });
+      }
+
+      const startedIds = events
+        .filter((event) => event.toStatus === TripStatus.IN_PROGRESS)
+        .map((event) => event.tripId);
+      const completedIds = events
+        .filter((event) => event.toStatus === TripStatus.COMPLETED)
+        .map((event) => event.tripId);
+
+      if (startedIds.length > 0) {
+        await queryRunner.manager.update(Trip, { id: In(startedIds) }, { status: TripStatus.IN_PROGRESS });
+      }
+
+      if (completedIds.length > 0) {
+        await queryRunner.manager.update(Trip, { id: In(completedIds) }, { status: TripStatus.COMPLETED });
+      }
+
+      if (events.length > 0) {
+        await queryRunner.manager.insert(TripEvent, events);
+      }
+
+      const webhookEvents: WebhookEvent[] = [];
+      for (const trip of dueTrips) {
+        trip.status = completedIds.includes(trip.id) ? TripStatus.COMPLETED : TripStatus.IN_PROGRESS;
+        const webhookEvent = this.tripWebhookEvent(trip, TripEventType.STATUS_CHANGED);
+        if (webhookEvent) {
+          webhookEvents.push(webhookEvent);
+        }
+      }
+      await this.webhookService.enqueue(queryRunner.manager, webhookEvents);
+
+      await queryRunner.commitTransaction();
+      completedTrips = dueTrips.filter((trip) => completedIds.includes(trip.id));
+      updatedCount = dueTrips.length;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
 
     // Update spaceship locations for completed trips
-    for (const trip of completedTrips.raw) {
-      await this.spaceshipService.updateCurrentLocation(trip.spaceship_id, trip.destination_location_code);
+    for (const trip of completedTrips) {
+      await this.spaceshipService.updateCurrentLocation(trip.spaceshipId, trip.destinationLocationCode);
+    }
+
+    this.logger.log(`Updated ${updatedCount} trip statuses`);
+  }
+
+  /**
+   * Release holds whose offers were not accepted in time (run every minute)
+   */
+  @Cron('* * * * *')
+  async releaseExpiredOffers(): Promise<void> {
+    const result = await this.tripOfferRepository.update(
+      {
+        status: TripOfferStatus.PENDING,
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+      { status: TripOfferStatus.EXPIRED },
+    );
+
+    if (result.affected) {
+      this.logger.log(`Released ${result.affected} expired trip offers`);
+    }
+  }
+
+  /**
+   * Release the seats of bookings that were not paid in time (run every minute)
+   * A trip is cancelled once none of its bookings hold seats any more. The legs of an itinerary share one deadline,
+   * so they are released together and the itinerary is cancelled with them
+   */
+  @Cron('* * * * *')
+  async releaseUnpaidBookings(): Promise<void> {
+    const overdueBookings = await this.dataSource.manager.find(Booking, {
+      where: { status: BookingStatus.PENDING_PAYMENT, paymentDueAt: LessThanOrEqual(new Date()) },
+      select: { id: true, tripId: true },
+    });
+
+    let releasedCount = 0;
+    for (const { id, tripId } of overdueBookings) {
+      const queryRunner = this.dataSource.createQueryRunner();
+      await queryRunner.connect();
+      await queryRunner.startTransaction('SERIALIZABLE');
+
+      try {
+        const trip = await queryRunner.manager.findOne(Trip, {
+          where: { id: tripId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        const booking = await queryRunner.manager.findOne(Booking, {
+          where: { id, status: BookingStatus.PENDING_PAYMENT },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        // Paid or cancelled since it was picked up
+        if (trip && booking) {
+          booking.status = BookingStatus.CANCELLED;
+          booking.paymentDueAt = null;
+          booking.cancelledAt = new Date();
+          booking.cancellationReason = 'Payment not received in time';
+          await queryRunner.manager.save(Booking, booking);
+          // Only a payment that was taken but never applied to the booking is left to refund
+          await this.paymentService.issueRefund(queryRunner.manager, booking.id, booking.cancellationReason);
+          await this.webhookService.enqueue(queryRunner.manager, [
+            this.bookingWebhookEvent(booking, WebhookEventType.BOOKING_CANCELLED),
+          ]);
+          await this.cancelTripIfEmpty(queryRunner.manager, trip, null, 'Payment not received in time');
+          if (booking.itineraryId) {
+            await queryRunner.manager.update(
+              Itinerary,
+              { id: booking.itineraryId, status: ItineraryStatus.PENDING_PAYMENT },
+              { status: ItineraryStatus.CANCELLED },
+            );
+          }
+          releasedCount++;
+        }
+
+        await queryRunner.commitTransaction();
+      } catch (error) {
+        await queryRunner.rollbackTransaction();
+        this.logger.error(
+          `Failed to release unpaid booking ${id}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      } finally {
+        await queryRunner.release();
+      }
+    }
+
+    if (releasedCount > 0) {
+      this.logger.log(`Released ${releasedCount} unpaid bookings`);
+    }
+  }
+
+  private async createBooking(
+    manager: EntityManager,
+    tripId: string,
+    seats: number,
+    details: {
+      userId: string | null;
+      passengerName: string | null;
+      itineraryId?: string;
+      legIndex?: number;
+      fare: Pick<FareQuote, 'totalFare' | 'currency'>;
+      paymentDueAt: Date;
+    },
+  ): Promise<Booking> {
+    return manager.save(
+      Booking,
+      manager.create(Booking, {
+        tripId,
+        userId: details.userId,
+        passengerName: details.passengerName,
+        seats,
+        status: BookingStatus.PENDING_PAYMENT,
+        itineraryId: details.itineraryId ?? null,
+        legIndex: details.legIndex ?? null,
+        fareAmount: details.fare.totalFare,
+        fareCurrency: details.fare.currency,
+        paymentDueAt: details.paymentDueAt,
+      }),
+    );
+  }
+
+  /**
+   * Deadline for paying a new booking; never later than the departure
+   */
+  paymentDueAt(departureAt: Date): Date {
+    const dueAt = DateUtils.addMilliseconds(new Date(), this.paymentTtlMs);
+    return dueAt < departureAt ? dueAt : departureAt;
+  }
+
+  /**
+   * Cancellation policy version new trips are booked under
+   */
+  private async currentCancellationPolicyId(manager: EntityManager): Promise<string | null> {
+    const policy = await this.cancellationPolicyService.findCurrent(manager);
+    return policy?.id ?? null;
+  }
+
+  /**
+   * Load a trip only if the user holds a booking on it; without a user any trip is returned
+   */
+  private async findOwnedTrip(
+    tripId: string,
+    userId: string | undefined,
+    relations: string[] = [],
+  ): Promise<Trip | null> {
+    const query = this.tripRepository.createQueryBuilder('trip').where('trip.id = :tripId', { tripId });
+
+    for (const relation of relations) {
+      query.leftJoinAndSelect(`trip.${relation}`, relation);
+    }
+
+    if (userId) {
+      this.whereBookedBy(query, userId);
+    }
+
+    return query.getOne();
+  }
+
+  /**
+   * Restrict a trip query to trips the user holds a booking on, cancelled or not
+   */
+  private whereBookedBy(query: SelectQueryBuilder<Trip>, userId: string): SelectQueryBuilder<Trip> {
+    return query.andWhere(
+      'EXISTS (SELECT 1 FROM bookings owned WHERE owned.trip_id = trip.id AND owned.user_id = :ownerId)',
+      { ownerId: userId },
+    );
+  }
+
+  /**
+   * Refuse to change a trip other customers are also booked on
+   */
+  private async assertSoleOwner(manager: EntityManager, tripId: string, userId: string): Promise<void> {
+    const otherBookings = await manager
+      .createQueryBuilder(Booking, 'booking')
+      .where('booking.tripId = :tripId', { tripId })
+      .andWhere('booking.status IN (:...holding)', { holding: SEAT_HOLDING_BOOKING_STATUSES })
+      .andWhere('booking.userId IS DISTINCT FROM :userId', { userId })
+      .getCount();
+
+    if (otherBookings > 0) {
+      throw new ConflictException('Trip is shared with other passengers and cannot be rescheduled');
+    }
+  }
+
+  /**
+   * Refuse to schedule a spaceship for an interval it cannot fly: too close to one of its trips to leave
+   * the minimum turnaround, or during maintenance
+   * The spaceship row is locked first, so concurrent bookings of the same ship are checked one after the other.
+   * The trips exclusion constraint only enforces plain overlaps; checking first gives a clearer error
+   */
+  private async assertSpaceshipFree(
+    manager: EntityManager,
+    spaceshipId: string,
+    departureAt: Date,
+    arrivalAt: Date,
+    message: string,
+    options: { excludeTripId?: string; includeHolds?: boolean } = {},
+  ): Promise<void> {
+    await this.spaceshipService.lockForScheduling(manager, spaceshipId);
+
+    // Holds are left out unless asked for: accepting an offer must not trip over its own hold
+    const hasConflict = await this.spaceshipService.hasScheduleConflict(spaceshipId, departureAt, arrivalAt, manager, {
+      includeHolds: options.includeHolds ?? false,
+      excludeTripId: options.excludeTripId,
+    });
+
+    if (hasConflict) {
+      throw new ConflictException(message);
+    }
+  }
+
+  /**
+   * Append an entry to a trip's history inside a caller-managed transaction, and publish it to webhook subscribers
+   * The trip is expected to already be in its new status
+   */
+  private async recordEvent(
+    manager: EntityManager,
+    trip: Trip,
+    event: {
+      type: TripEventType;
+      fromStatus?: TripStatus | null;
+      actorUserId: string | null;
+      reason?: string;
+      details?: TripEventDetails;
+    },
+  ): Promise<void> {
+    await manager.insert(TripEvent, {
+      tripId: trip.id,
+      type: event.type,
+      fromStatus: event.fromStatus ?? null,
+      toStatus: trip.status,
+      actorUserId: event.actorUserId,
+      reason: event.reason ?? null,
+      details: event.details ?? null,
+    });
+
+    const webhookEvent = this.tripWebhookEvent(trip, event.type, event.reason);
+    if (webhookEvent) {
+      await this.webhookService.enqueue(manager, [webhookEvent]);
+    }
+  }
+
+  /**
+   * Map a history entry to the webhook event partners subscribe to
+   * Repositioning trips are internal and never published
+   */
+  private tripWebhookEvent(trip: Trip, type: TripEventType, reason?: string): WebhookEvent | null {
+    if (trip.type === TripType.REPOSITIONING) {
+      return null;
+    }
+
+    let webhookType: WebhookEventType;
+    if (type === TripEventType.CREATED) {
+      webhookType = WebhookEventType.TRIP_CREATED;
+    } else if (type === TripEventType.RESCHEDULED) {
+      webhookType = WebhookEventType.TRIP_RESCHEDULED;
+    } else if (trip.status === TripStatus.IN_PROGRESS) {
+      webhookType = WebhookEventType.TRIP_STARTED;
+    } else if (trip.status === TripStatus.COMPLETED) {
+      webhookType = WebhookEventType.TRIP_COMPLETED;
+    } else if (trip.status === TripStatus.CANCELLED) {
+      webhookType = WebhookEventType.TRIP_CANCELLED;
+    } else {
+      webhookType = WebhookEventType.TRIP_STATUS_CHANGED;
     }
 
-    this.logger.log(`Updated ${completedTrips.affected} trip statuses`);
+    return {
+      type: webhookType,
+      data: {
+        tripId: trip.id,
+        spaceshipId: trip.spaceshipId,
+        departureLocationCode: trip.departureLocationCode,
+        destinationLocationCode: trip.destinationLocationCode,
+        departureAt: trip.departureAt.toISOString(),
+        arrivalAt: trip.arrivalAt.toISOString(),
+        status: trip.status,
+        reason: reason ?? null,
+      },
+    };
+  }
+
+  private bookingWebhookEvent(booking: Booking, type: WebhookEventType): WebhookEvent {
+    return {
+      type,
+      data: {
+        bookingId: booking.id,
+        tripId: booking.tripId,
+        userId: booking.userId,
+        seats: booking.seats,
+        status: booking.status,
+        itineraryId: booking.itineraryId,
+      },
+    };
+  }
+
+  private scheduleDetails(trip: Trip): TripEventDetails {
+    return {
+      previousSpaceshipId: trip.spaceshipId,
+      previousDestinationLocationCode: trip.destinationLocationCode,
+      previousDepartureAt: trip.departureAt.toISOString(),
+      previousArrivalAt: trip.arrivalAt.toISOString(),
+    };
+  }
+
+  private async countBookedSeats(manager: EntityManager, tripId: string): Promise<number> {
+    const result = await manager
+      .createQueryBuilder(Booking, 'booking')
+      .select('COALESCE(SUM(booking.seats), 0)', 'seats')
+      .where('booking.tripId = :tripId', { tripId })
+      .andWhere('booking.status IN (:...holding)', { holding: SEAT_HOLDING_BOOKING_STATUSES })
+      .getRawOne<{ seats: string }>();
+
+    return Number(result?.seats ?? 0);
+  }
+
+  private toTripStatusDto(trip: Trip, booking?: Booking): TripStatusDto {
+    return {
+      tripId: trip.id,
+      spaceshipId: trip.spaceshipId,
+      departureLocationCode: trip.departureLocationCode,
+      destinationLocationCode: trip.destinationLocationCode,
+      departureAt: trip.departureAt.toISOString(),
+      arrivalAt: trip.arrivalAt.toISOString(),
+      status: trip.status,
+      bookingId: booking?.id,
+      seats: booking?.seats,
+      fare:
+        booking?.fareAmount != null && booking.fareCurrency
+          ? { amount: Number(booking.fareAmount), currency: booking.fareCurrency }
+          : undefined,
+      paymentDueAt: booking?.paymentDueAt?.toISOString(),
+    };
   }
 }
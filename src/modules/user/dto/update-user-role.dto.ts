@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { UserRole } from '@/modules/user/user.entity';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({
+    enum: UserRole,
+    example: UserRole.OPERATOR,
+    description: 'New access level for the user',
+  })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@/modules/user/user.entity';
+
+export class UserDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  id: string;
+
+  @ApiProperty({ example: 'ada@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'Ada Lovelace' })
+  name: string;
+
+  @ApiProperty({ enum: UserRole, example: UserRole.CUSTOMER })
+  role: UserRole;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  createdAt: string;
+}
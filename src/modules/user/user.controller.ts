@@ -0,0 +1,62 @@
+import { Body, Controller, Logger, Param, ParseUUIDPipe, Patch, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { UserService } from '@/modules/user/user.service';
+import { UserRole } from '@/modules/user/user.entity';
+import { UserDto } from '@/modules/user/dto/user.dto';
+import { UpdateUserRoleDto } from '@/modules/user/dto/update-user-role.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles } from '@/modules/auth/roles.decorator';
+
+@ApiTags('users')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@ApiForbiddenResponse({
+  description: 'Only admins can manage users',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('users')
+export class UserController {
+  private readonly logger = new Logger(UserController.name);
+
+  constructor(private readonly userService: UserService) {}
+
+  @Patch(':id/role')
+  @ApiOperation({
+    summary: "Change a user's role",
+    description: 'Takes effect the next time the user logs in',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID (UUID)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Role updated',
+    type: UserDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'User not found',
+    type: ErrorResponseDto,
+  })
+  async updateRole(@Param('id', new ParseUUIDPipe()) id: string, @Body() dto: UpdateUserRoleDto): Promise<UserDto> {
+    this.logger.log(`PATCH /users/${id}/role - ${JSON.stringify(dto)}`);
+    return this.userService.toDto(await this.userService.updateRole(id, dto.role));
+  }
+}
@@ -0,0 +1,62 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export enum UserRole {
+  CUSTOMER = 'CUSTOMER',
+  OPERATOR = 'OPERATOR',
+  ADMIN = 'ADMIN',
+}
+
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique user identifier',
+  })
+  id: string;
+
+  @Column({
+    type: 'varchar',
+    length: 254,
+    unique: true,
+    comment: 'Login email address, stored lowercase',
+  })
+  email: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    comment: 'Display name',
+  })
+  name: string;
+
+  @Column({
+    name: 'password_hash',
+    type: 'varchar',
+    length: 255,
+    select: false,
+    comment: 'scrypt hash of the password with its salt',
+  })
+  passwordHash: string;
+
+  @Column({
+    type: 'enum',
+    enum: UserRole,
+    default: UserRole.CUSTOMER,
+    comment: 'Access level: customers manage their own bookings, operators and admins run the service',
+  })
+  role: UserRole;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Registration time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,75 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { User, UserRole } from './user.entity';
+import { UserRepository } from './user.repository';
+import { UserDto } from './dto/user.dto';
+
+@Injectable()
+export class UserService {
+  private readonly logger = new Logger(UserService.name);
+
+  constructor(private userRepository: UserRepository) {}
+
+  async findById(id: string): Promise<User | null> {
+    return this.userRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * Find a user by email, including the password hash for login checks
+   */
+  async findByEmailWithPassword(email: string): Promise<User | null> {
+    return this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', { email: email.toLowerCase() })
+      .getOne();
+  }
+
+  async create(data: { email: string; name: string; passwordHash: string; role?: UserRole }): Promise<User> {
+    const email = data.email.toLowerCase();
+
+    const existing = await this.userRepository.count({ where: { email } });
+    if (existing > 0) {
+      throw new ConflictException('An account with this email already exists');
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        name: data.name,
+        passwordHash: data.passwordHash,
+        role: data.role ?? UserRole.CUSTOMER,
+      }),
+    );
+
+    this.logger.log(`User ${user.id} registered`);
+    return user;
+  }
+
+  /**
+   * Change a user's role
+   * Takes effect from their next login, since issued tokens carry the role they were signed with
+   */
+  async updateRole(id: string, role: UserRole): Promise<User> {
+    const user = await this.findById(id);
+
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+
+    user.role = role;
+    const savedUser = await this.userRepository.save(user);
+
+    this.logger.log(`User ${id} is now ${role}`);
+    return savedUser;
+  }
+
+  toDto(user: User): UserDto {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      createdAt: user.createdAt.toISOString(),
+    };
+  }
+}
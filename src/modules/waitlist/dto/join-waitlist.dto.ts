@@ -0,0 +1,24 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { IsISO8601 } from 'class-validator';
+import { RequestTripDto } from '@/modules/trip/dto/request-trip.dto';
+
+export class JoinWaitlistDto extends PickType(RequestTripDto, [
+  'departureLocationCode',
+  'destinationLocationCode',
+  'passengerName',
+  'seats',
+] as const) {
+  @ApiProperty({
+    example: '2025-01-15T08:00:00Z',
+    description: 'Earliest acceptable departure time in ISO 8601 format',
+  })
+  @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
+  earliestDepartureAt: string;
+
+  @ApiProperty({
+    example: '2025-01-15T20:00:00Z',
+    description: 'Latest acceptable departure time in ISO 8601 format; the entry expires once it passes',
+  })
+  @IsISO8601({ strict: true }, { message: 'Departure time must be in ISO 8601 format' })
+  latestDepartureAt: string;
+}
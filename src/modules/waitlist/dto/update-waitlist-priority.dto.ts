@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Max, Min } from 'class-validator';
+
+export class UpdateWaitlistPriorityDto {
+  @ApiProperty({
+    example: 10,
+    description: 'Higher priorities are served first; entries of equal priority are served first come, first served',
+    minimum: -100,
+    maximum: 100,
+  })
+  @IsInt()
+  @Min(-100)
+  @Max(100)
+  priority: number;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WaitlistEntryStatus } from '@/modules/waitlist/waitlist-entry.entity';
+
+export class WaitlistEntryDto {
+  @ApiProperty({ example: '3b241101-e2bb-4255-8caf-4136c566a962' })
+  id: string;
+
+  @ApiProperty({ example: 'JFK' })
+  departureLocationCode: string;
+
+  @ApiProperty({ example: 'LAX' })
+  destinationLocationCode: string;
+
+  @ApiProperty({ example: '2025-01-15T08:00:00.000Z' })
+  earliestDepartureAt: string;
+
+  @ApiProperty({ example: '2025-01-15T20:00:00.000Z' })
+  latestDepartureAt: string;
+
+  @ApiProperty({ example: 1 })
+  seats: number;
+
+  @ApiProperty({ example: 'Ada Lovelace', nullable: true })
+  passengerName: string | null;
+
+  @ApiProperty({ example: 0 })
+  priority: number;
+
+  @ApiProperty({
+    enum: WaitlistEntryStatus,
+    example: WaitlistEntryStatus.WAITING,
+    description:
+      'WAITING until capacity frees up; BOOKED once a booking awaits payment, with the trip and the booking to pay',
+  })
+  status: WaitlistEntryStatus;
+
+  @ApiProperty({
+    example: 1,
+    nullable: true,
+    description: 'Place in the queue for the route, 1 being next, while the entry is WAITING',
+  })
+  position: number | null;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000', nullable: true })
+  tripId: string | null;
+
+  @ApiProperty({
+    example: '6fa459ea-ee8a-3ca4-894e-db77e160355e',
+    nullable: true,
+    description: 'Booking to pay with POST /trips/{tripId}/bookings/{bookingId}/payment',
+  })
+  bookingId: string | null;
+
+  @ApiProperty({ example: '2025-01-14T09:30:00.000Z', nullable: true })
+  fulfilledAt: string | null;
+
+  @ApiProperty({ example: '2025-01-10T12:00:00.000Z' })
+  createdAt: string;
+}
@@ -0,0 +1,159 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '@modules/user/user.entity';
+import { Trip } from '@modules/trip/trip.entity';
+
+export enum WaitlistEntryStatus {
+  WAITING = 'WAITING',
+  BOOKED = 'BOOKED',
+  EXPIRED = 'EXPIRED',
+  CANCELLED = 'CANCELLED',
+}
+
+@Entity('waitlist_entries')
+@Index(['status', 'nextCheckAt']) // Optimize waitlist processing
+@Index(['userId'])
+export class WaitlistEntry {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique waitlist entry identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    comment: 'Customer waiting for the trip',
+  })
+  userId: string;
+
+  @Column({
+    name: 'departure_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Departure airport IATA code',
+  })
+  departureLocationCode: string;
+
+  @Column({
+    name: 'destination_location_code',
+    type: 'varchar',
+    length: 3,
+    comment: 'Destination airport IATA code',
+  })
+  destinationLocationCode: string;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'earliest_departure_at',
+    comment: 'Start of the departure window in UTC',
+  })
+  earliestDepartureAt: Date;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'latest_departure_at',
+    comment: 'End of the departure window in UTC; the entry expires once it passes',
+  })
+  latestDepartureAt: Date;
+
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Number of seats wanted',
+  })
+  seats: number;
+
+  @Column({
+    name: 'passenger_name',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    comment: 'Name of the lead passenger',
+  })
+  passengerName: string | null;
+
+  @Column({
+    type: 'int',
+    default: 0,
+    comment: 'Higher priorities are served first; entries of equal priority are served first come, first served',
+  })
+  priority: number;
+
+  @Column({
+    type: 'enum',
+    enum: WaitlistEntryStatus,
+    default: WaitlistEntryStatus.WAITING,
+    comment: 'Current status of the entry',
+  })
+  status: WaitlistEntryStatus;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'next_check_at',
+    comment: 'Earliest time the entry is matched against free capacity again',
+  })
+  nextCheckAt: Date;
+
+  @Column({
+    name: 'trip_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Trip the customer was booked on',
+  })
+  tripId: string | null;
+
+  @Column({
+    name: 'booking_id',
+    type: 'uuid',
+    nullable: true,
+    comment: 'Booking made for the customer, awaiting payment',
+  })
+  bookingId: string | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'fulfilled_at',
+    nullable: true,
+    comment: 'Time the customer was booked',
+  })
+  fulfilledAt: Date | null;
+
+  // Relations
+  @ManyToOne(() => User, {
+    eager: false,
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Trip, {
+    eager: false,
+    nullable: true,
+  })
+  @JoinColumn({ name: 'trip_id' })
+  trip: Trip | null;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Time the customer joined the waitlist',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
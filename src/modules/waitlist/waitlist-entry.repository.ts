@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { WaitlistEntry } from '@/modules/waitlist/waitlist-entry.entity';
+
+@Injectable()
+export class WaitlistEntryRepository extends Repository<WaitlistEntry> {
+  constructor(private dataSource: DataSource) {
+    super(WaitlistEntry, dataSource.createEntityManager());
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { WaitlistService } from '@/modules/waitlist/waitlist.service';
+import { WaitlistEntry } from '@/modules/waitlist/waitlist-entry.entity';
+import { JoinWaitlistDto } from '@/modules/waitlist/dto/join-waitlist.dto';
+import { UpdateWaitlistPriorityDto } from '@/modules/waitlist/dto/update-waitlist-priority.dto';
+import { WaitlistEntryDto } from '@/modules/waitlist/dto/waitlist-entry.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles, STAFF_ROLES, isStaff } from '@/modules/auth/roles.decorator';
+import { AuthenticatedUser, CurrentUser } from '@/modules/auth/current-user.decorator';
+
+@ApiTags('waitlist')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('waitlist')
+export class WaitlistController {
+  private readonly logger = new Logger(WaitlistController.name);
+
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Join the waitlist for a route',
+    description:
+      'For when POST /trips/request finds every spaceship fully booked. Once capacity frees up within the departure window, the customer is booked on the earliest departure: the entry turns BOOKED with the trip and the booking to pay, which must then be paid like any other. Customers learn of it by reading their entries; partners are notified with a waitlist.booked webhook. Entries still waiting when the window closes expire (waitlist.expired).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Joined the waitlist',
+    type: WaitlistEntryDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid route or departure window',
+    type: ErrorResponseDto,
+  })
+  async join(@Body() dto: JoinWaitlistDto, @CurrentUser() user: AuthenticatedUser): Promise<WaitlistEntryDto> {
+    this.logger.log(`POST /waitlist - ${JSON.stringify(dto)}`);
+    return this.toDto(await this.waitlistService.join(dto, user.id));
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List waitlist entries',
+    description: "Customers see their own entries; operators and admins see everyone's. Newest first.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Waitlist entries',
+    type: [WaitlistEntryDto],
+  })
+  async getEntries(@CurrentUser() user: AuthenticatedUser): Promise<WaitlistEntryDto[]> {
+    this.logger.log('GET /waitlist');
+    const entries = await this.waitlistService.findAll(isStaff(user) ? undefined : user.id);
+    return Promise.all(entries.map((entry) => this.toDto(entry)));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a waitlist entry with its place in the queue' })
+  @ApiParam({
+    name: 'id',
+    description: 'Waitlist entry ID (UUID)',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Waitlist entry',
+    type: WaitlistEntryDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Waitlist entry not found',
+    type: ErrorResponseDto,
+  })
+  async getEntry(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<WaitlistEntryDto> {
+    this.logger.log(`GET /waitlist/${id}`);
+    return this.toDto(await this.waitlistService.findById(id, isStaff(user) ? undefined : user.id));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Leave the waitlist', description: 'Only entries that are still waiting can be left' })
+  @ApiParam({
+    name: 'id',
+    description: 'Waitlist entry ID (UUID)',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Left the waitlist',
+  })
+  @ApiBadRequestResponse({
+    description: 'The entry is no longer waiting',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Waitlist entry not found',
+    type: ErrorResponseDto,
+  })
+  async leave(@Param('id', new ParseUUIDPipe()) id: string, @CurrentUser() user: AuthenticatedUser): Promise<void> {
+    this.logger.log(`DELETE /waitlist/${id}`);
+    await this.waitlistService.leave(id, isStaff(user) ? undefined : user.id);
+  }
+
+  @Patch(':id/priority')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Change the priority of a waiting entry',
+    description: 'Higher priorities are served first; entries of equal priority are served first come, first served',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Waitlist entry ID (UUID)',
+    example: '3b241101-e2bb-4255-8caf-4136c566a962',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Priority changed',
+    type: WaitlistEntryDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'The entry is no longer waiting',
+    type: ErrorResponseDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'Only operators and admins can change priorities',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Waitlist entry not found',
+    type: ErrorResponseDto,
+  })
+  async setPriority(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateWaitlistPriorityDto,
+  ): Promise<WaitlistEntryDto> {
+    this.logger.log(`PATCH /waitlist/${id}/priority - ${JSON.stringify(dto)}`);
+    return this.toDto(await this.waitlistService.setPriority(id, dto.priority));
+  }
+
+  private async toDto(entry: WaitlistEntry): Promise<WaitlistEntryDto> {
+    return {
+      id: entry.id,
+      departureLocationCode: entry.departureLocationCode,
+      destinationLocationCode: entry.destinationLocationCode,
+      earliestDepartureAt: entry.earliestDepartureAt.toISOString(),
+      latestDepartureAt: entry.latestDepartureAt.toISOString(),
+      seats: entry.seats,
+      passengerName: entry.passengerName,
+      priority: entry.priority,
+      status: entry.status,
+      position: await this.waitlistService.getPosition(entry),
+      tripId: entry.tripId,
+      bookingId: entry.bookingId,
+      fulfilledAt: entry.fulfilledAt?.toISOString() ?? null,
+      createdAt: entry.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WaitlistEntry } from '@/modules/waitlist/waitlist-entry.entity';
+import { WaitlistEntryRepository } from '@/modules/waitlist/waitlist-entry.repository';
+import { WaitlistService } from '@/modules/waitlist/waitlist.service';
+import { WaitlistController } from '@/modules/waitlist/waitlist.controller';
+import { TripModule } from '@/modules/trip/trip.module';
+import { WebhookModule } from '@/modules/webhook/webhook.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WaitlistEntry]), TripModule, WebhookModule],
+  controllers: [WaitlistController],
+  providers: [WaitlistService, WaitlistEntryRepository],
+})
+export class WaitlistModule {}
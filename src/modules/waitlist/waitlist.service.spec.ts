@@ -0,0 +1,186 @@
+import { Test } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { TripService } from '../trip/trip.service';
+import { WebhookEvent, WebhookService } from '../webhook/webhook.service';
+import { WebhookEventType } from '../webhook/webhook-subscription.entity';
+import { WaitlistEntry, WaitlistEntryStatus } from './waitlist-entry.entity';
+import { WaitlistEntryRepository } from './waitlist-entry.repository';
+import { WaitlistService } from './waitlist.service';
+import { mockDataSource, mockQueryBuilder } from '@common/testing';
+
+describe('WaitlistService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  let service: WaitlistService;
+  let tripService: { findLegOption: jest.Mock; reserveLeg: jest.Mock; paymentDueAt: jest.Mock };
+  let webhookService: { enqueue: jest.Mock };
+  let manager: { createQueryBuilder: jest.Mock; update: jest.Mock };
+  let expiring: WaitlistEntry[];
+  let due: WaitlistEntry[];
+  let dataSource: ReturnType<typeof mockDataSource<typeof manager>>;
+
+  const waitingEntry = (id: string, overrides: Partial<WaitlistEntry> = {}): WaitlistEntry =>
+    Object.assign(new WaitlistEntry(), {
+      id,
+      userId: 'user-1',
+      departureLocationCode: 'JFK',
+      destinationLocationCode: 'LAX',
+      earliestDepartureAt: new Date(Date.now() + 24 * HOUR_MS),
+      latestDepartureAt: new Date(Date.now() + 48 * HOUR_MS),
+      seats: 2,
+      passengerName: null,
+      priority: 0,
+      status: WaitlistEntryStatus.WAITING,
+      nextCheckAt: new Date(),
+      tripId: null,
+      bookingId: null,
+      fulfilledAt: null,
+      ...overrides,
+    });
+
+  const legDeparting = (departureAt: Date) => ({
+    departureLocationCode: 'JFK',
+    destinationLocationCode: 'LAX',
+    departureAt,
+    arrivalAt: new Date(departureAt.getTime() + 3 * HOUR_MS),
+    spaceshipId: 'ship-1',
+    tripId: null,
+  });
+
+  const enqueued = (): WebhookEvent[] =>
+    webhookService.enqueue.mock.calls.flatMap(([, events]) => events as WebhookEvent[]);
+
+  beforeEach(async () => {
+    expiring = [];
+    due = [];
+
+    // The worker first looks for entries to expire, then leases the entries that are due
+    manager = {
+      createQueryBuilder: jest
+        .fn()
+        .mockImplementationOnce(() => mockQueryBuilder({ getMany: () => expiring }))
+        .mockImplementationOnce(() => mockQueryBuilder({ getMany: () => due })),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    tripService = {
+      findLegOption: jest.fn().mockResolvedValue(null),
+      reserveLeg: jest.fn(),
+      paymentDueAt: jest.fn((departureAt: Date) => departureAt),
+    };
+    webhookService = { enqueue: jest.fn().mockResolvedValue(undefined) };
+    dataSource = mockDataSource(manager);
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WaitlistService,
+        { provide: WaitlistEntryRepository, useValue: {} },
+        { provide: TripService, useValue: tripService },
+        { provide: WebhookService, useValue: webhookService },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get(WaitlistService);
+  });
+
+  describe('processWaitlist', () => {
+    const reserved = (tripId: string, bookingId: string) => ({ trip: { id: tripId }, booking: { id: bookingId } });
+
+    it('books an entry on exactly the departure found in its window', async () => {
+      const entry = waitingEntry('entry-1');
+      due = [entry];
+      const leg = legDeparting(new Date(entry.earliestDepartureAt.getTime() + HOUR_MS));
+      tripService.findLegOption.mockResolvedValue(leg);
+      tripService.reserveLeg.mockResolvedValue(reserved('trip-1', 'booking-1'));
+
+      await service.processWaitlist();
+
+      const [, reservedLeg, booking] = tripService.reserveLeg.mock.calls[0] as [
+        unknown,
+        unknown,
+        { userId: string; seats: number; paymentDueAt: Date },
+      ];
+      expect(reservedLeg).toBe(leg);
+      expect(booking).toMatchObject({ userId: 'user-1', seats: 2, paymentDueAt: leg.departureAt });
+      expect(entry).toMatchObject({ status: WaitlistEntryStatus.BOOKED, tripId: 'trip-1', bookingId: 'booking-1' });
+      expect(entry.fulfilledAt).toBeInstanceOf(Date);
+      expect(enqueued().map((event) => event.type)).toEqual([WebhookEventType.WAITLIST_BOOKED]);
+      expect(dataSource.queryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it('does not book an entry the customer left in the meantime', async () => {
+      const entry = waitingEntry('entry-1');
+      due = [entry];
+      tripService.findLegOption.mockResolvedValue(legDeparting(entry.earliestDepartureAt));
+      tripService.reserveLeg.mockResolvedValue(reserved('trip-1', 'booking-1'));
+      // The lease goes through, marking the entry booked finds it no longer waiting
+      manager.update.mockResolvedValueOnce({ affected: 2 }).mockResolvedValueOnce({ affected: 0 });
+
+      await service.processWaitlist();
+
+      expect(entry.status).toBe(WaitlistEntryStatus.WAITING);
+      expect(enqueued()).toEqual([]);
+      expect(dataSource.queryRunner.rollbackTransaction).toHaveBeenCalled();
+    });
+
+    it('keeps waiting while the earliest departure is after the window', async () => {
+      const entry = waitingEntry('entry-1');
+      due = [entry];
+      tripService.findLegOption.mockResolvedValue(legDeparting(new Date(entry.latestDepartureAt.getTime() + 1)));
+
+      await service.processWaitlist();
+
+      expect(tripService.reserveLeg).not.toHaveBeenCalled();
+      expect(entry.status).toBe(WaitlistEntryStatus.WAITING);
+    });
+
+    it('only looks at departures far enough ahead to pay for', async () => {
+      due = [waitingEntry('entry-1', { earliestDepartureAt: new Date(Date.now() - HOUR_MS) })];
+      const before = Date.now();
+
+      await service.processWaitlist();
+
+      const [, , earliestDeparture] = tripService.findLegOption.mock.calls[0] as [string, string, Date, number];
+      expect(earliestDeparture.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+    });
+
+    it('moves on to the next entry when one cannot be booked', async () => {
+      const [first, second] = [waitingEntry('entry-1'), waitingEntry('entry-2')];
+      due = [first, second];
+      tripService.findLegOption.mockResolvedValue(legDeparting(first.earliestDepartureAt));
+      tripService.reserveLeg
+        .mockRejectedValueOnce(new Error('Spaceship no longer available'))
+        .mockResolvedValueOnce(reserved('trip-2', 'booking-2'));
+
+      await service.processWaitlist();
+
+      expect(first.status).toBe(WaitlistEntryStatus.WAITING);
+      expect(second).toMatchObject({ status: WaitlistEntryStatus.BOOKED, tripId: 'trip-2' });
+    });
+
+    it('leases the due entries so other workers skip them', async () => {
+      due = [waitingEntry('entry-1'), waitingEntry('entry-2')];
+      const before = Date.now();
+
+      await service.processWaitlist();
+
+      const [, , changes] = manager.update.mock.calls[0] as [unknown, unknown, { nextCheckAt: Date }];
+      expect(changes.nextCheckAt.getTime()).toBeGreaterThan(before);
+    });
+
+    it('expires entries whose window closes too soon and tells their customers', async () => {
+      expiring = [waitingEntry('entry-1', { latestDepartureAt: new Date(Date.now() + 60 * 1000) })];
+
+      await service.processWaitlist();
+
+      const [, , changes] = manager.update.mock.calls[0] as [unknown, unknown, Partial<WaitlistEntry>];
+      expect(changes).toEqual({ status: WaitlistEntryStatus.EXPIRED });
+      expect(enqueued()).toMatchObject([
+        {
+          type: WebhookEventType.WAITLIST_EXPIRED,
+          data: { waitlistEntryId: 'entry-1', status: WaitlistEntryStatus.EXPIRED },
+        },
+      ]);
+    });
+  });
+});
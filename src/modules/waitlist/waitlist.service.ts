@@ -0,0 +1,347 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { DataSource, EntityManager, FindOptionsWhere, In, LessThan, LessThanOrEqual, MoreThan } from 'typeorm';
+import { DateUtils } from '@common/utils';
+import { WaitlistEntry, WaitlistEntryStatus } from './waitlist-entry.entity';
+import { WaitlistEntryRepository } from './waitlist-entry.repository';
+import { JoinWaitlistDto } from './dto/join-waitlist.dto';
+import { TripService } from '../trip/trip.service';
+import { WebhookEvent, WebhookService } from '../webhook/webhook.service';
+import { WebhookEventType } from '../webhook/webhook-subscription.entity';
+
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+  private readonly batchSize = 50;
+  // Entries are only booked on departures at least this far ahead, leaving the customer time to pay
+  private readonly leadTimeMs = 5 * 60 * 1000;
+  // Claimed entries are skipped by other workers for this long
+  private readonly leaseMs = 50 * 1000;
+
+  constructor(
+    private waitlistEntryRepository: WaitlistEntryRepository,
+    private tripService: TripService,
+    private webhookService: WebhookService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Put the customer on the waitlist for a route and a departure window
+   * The entry is matched against free capacity by the waitlist worker until the window closes
+   */
+  async join(dto: JoinWaitlistDto, userId: string): Promise<WaitlistEntry> {
+    await this.tripService.validateTripRequest({
+      departureLocationCode: dto.departureLocationCode,
+      destinationLocationCode: dto.destinationLocationCode,
+      departureAt: dto.latestDepartureAt,
+    });
+
+    const earliestDepartureAt = DateUtils.parseISOString(dto.earliestDepartureAt);
+    const latestDepartureAt = DateUtils.parseISOString(dto.latestDepartureAt);
+
+    if (earliestDepartureAt > latestDepartureAt) {
+      throw new BadRequestException('Earliest departure must not be after the latest departure');
+    }
+
+    const entry = await this.waitlistEntryRepository.save(
+      this.waitlistEntryRepository.create({
+        userId,
+        departureLocationCode: dto.departureLocationCode,
+        destinationLocationCode: dto.destinationLocationCode,
+        earliestDepartureAt,
+        latestDepartureAt,
+        seats: dto.seats ?? 1,
+        passengerName: dto.passengerName ?? null,
+        priority: 0,
+        status: WaitlistEntryStatus.WAITING,
+        nextCheckAt: new Date(),
+        tripId: null,
+        bookingId: null,
+        fulfilledAt: null,
+      }),
+    );
+
+    this.logger.log(
+      `Waitlist entry ${entry.id} for ${entry.departureLocationCode} to ${entry.destinationLocationCode} created`,
+    );
+    return entry;
+  }
+
+  /**
+   * Waitlist entries, newest first; pass a user ID to only see that customer's entries
+   */
+  async findAll(userId?: string): Promise<WaitlistEntry[]> {
+    return this.waitlistEntryRepository.find({
+      where: userId ? { userId } : {},
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findById(id: string, userId?: string): Promise<WaitlistEntry> {
+    const entry = await this.waitlistEntryRepository.findOne({ where: { id } });
+
+    // Other customers' entries are reported as missing rather than forbidden
+    if (!entry || (userId && entry.userId !== userId)) {
+      throw new NotFoundException(`Waitlist entry ${id} not found`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Place of a waiting entry in the queue for its route, 1 being next; null once it has left the queue
+   */
+  async getPosition(entry: WaitlistEntry): Promise<number | null> {
+    if (entry.status !== WaitlistEntryStatus.WAITING) {
+      return null;
+    }
+
+    const route: FindOptionsWhere<WaitlistEntry> = {
+      departureLocationCode: entry.departureLocationCode,
+      destinationLocationCode: entry.destinationLocationCode,
+      status: WaitlistEntryStatus.WAITING,
+    };
+    const ahead = await this.waitlistEntryRepository.count({
+      where: [
+        { ...route, priority: MoreThan(entry.priority) },
+        { ...route, priority: entry.priority, createdAt: LessThan(entry.createdAt) },
+      ],
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Leave the waitlist. Only waiting entries can be left: bookings already made are cancelled or left to expire
+   * the usual way.
+   */
+  async leave(id: string, userId?: string): Promise<void> {
+    const entry = await this.findById(id, userId);
+
+    if (entry.status !== WaitlistEntryStatus.WAITING) {
+      throw new BadRequestException(`Cannot leave the waitlist once the entry is ${entry.status}`);
+    }
+
+    const result = await this.waitlistEntryRepository.update(
+      { id, status: WaitlistEntryStatus.WAITING },
+      { status: WaitlistEntryStatus.CANCELLED },
+    );
+
+    // The worker got to the entry first
+    if (!result.affected) {
+      throw new BadRequestException('The waitlist entry has just been fulfilled');
+    }
+
+    this.logger.log(`Waitlist entry ${id} cancelled`);
+  }
+
+  async setPriority(id: string, priority: number): Promise<WaitlistEntry> {
+    const entry = await this.findById(id);
+
+    if (entry.status !== WaitlistEntryStatus.WAITING) {
+      throw new BadRequestException(`Cannot change the priority of a ${entry.status} entry`);
+    }
+
+    entry.priority = priority;
+    const savedEntry = await this.waitlistEntryRepository.save(entry);
+
+    this.logger.log(`Waitlist entry ${id} priority set to ${priority}`);
+    return savedEntry;
+  }
+
+  /**
+   * Match waiting entries against free capacity (run every minute)
+   * Capacity freed by cancellations, released holds and new spaceships is picked up on the next run.
+   * Entries are served by priority, then first come, first served; an entry that does not fit what is free
+   * does not hold up smaller ones behind it.
+   */
+  @Cron('* * * * *')
+  async processWaitlist(): Promise<void> {
+    await this.expireEntries();
+
+    const entries = await this.claimDueEntries();
+
+    for (const entry of entries) {
+      try {
+        await this.fulfil(entry);
+      } catch (error) {
+        this.logger.warn(
+          `Waitlist entry ${entry.id} could not be fulfilled: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Book the entry on the earliest departure in its window, if there is one
+   * Exactly that departure is booked, joining its trip or starting a new one on its spaceship, and the booking
+   * awaits payment like any other. When it is taken before it can be booked, the entry waits for the next run
+   * rather than being put on some other departure.
+   */
+  private async fulfil(entry: WaitlistEntry): Promise<void> {
+    const notBefore = new Date(Date.now() + this.leadTimeMs);
+    const option = await this.tripService.findLegOption(
+      entry.departureLocationCode,
+      entry.destinationLocationCode,
+      entry.earliestDepartureAt > notBefore ? entry.earliestDepartureAt : notBefore,
+      entry.seats,
+    );
+
+    if (!option || option.departureAt > entry.latestDepartureAt) {
+      return;
+    }
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction('SERIALIZABLE');
+
+    try {
+      const { trip, booking } = await this.tripService.reserveLeg(queryRunner.manager, option, {
+        userId: entry.userId,
+        passengerName: entry.passengerName,
+        seats: entry.seats,
+        paymentDueAt: this.tripService.paymentDueAt(option.departureAt),
+      });
+      await this.markBooked(queryRunner.manager, entry, trip.id, booking.id);
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    this.logger.log(`Waitlist entry ${entry.id} booked on trip ${entry.tripId}`);
+  }
+
+  /**
+   * Record the booking on the entry inside the transaction that made it, and notify partners with a
+   * waitlist.booked webhook
+   * Customers find the trip and the booking to pay on their own entry, which reads BOOKED from now on.
+   * An entry the customer left in the meantime is not booked.
+   */
+  private async markBooked(
+    manager: EntityManager,
+    entry: WaitlistEntry,
+    tripId: string,
+    bookingId: string,
+  ): Promise<void> {
+    const fulfilledAt = new Date();
+    const result = await manager.update(
+      WaitlistEntry,
+      { id: entry.id, status: WaitlistEntryStatus.WAITING },
+      { status: WaitlistEntryStatus.BOOKED, tripId, bookingId, fulfilledAt },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('The customer left the waitlist');
+    }
+
+    Object.assign(entry, { status: WaitlistEntryStatus.BOOKED, tripId, bookingId, fulfilledAt });
+    await this.webhookService.enqueue(manager, [this.waitlistWebhookEvent(entry, WebhookEventType.WAITLIST_BOOKED)]);
+  }
+
+  /**
+   * Expire waiting entries whose window closes too soon to book, and notify their customers
+   */
+  private async expireEntries(): Promise<void> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    let expired: WaitlistEntry[];
+    try {
+      expired = await queryRunner.manager
+        .createQueryBuilder(WaitlistEntry, 'entry')
+        .where({
+          status: WaitlistEntryStatus.WAITING,
+          latestDepartureAt: LessThanOrEqual(new Date(Date.now() + this.leadTimeMs)),
+        })
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (expired.length > 0) {
+        await queryRunner.manager.update(
+          WaitlistEntry,
+          { id: In(expired.map((entry) => entry.id)) },
+          { status: WaitlistEntryStatus.EXPIRED },
+        );
+        await this.webhookService.enqueue(
+          queryRunner.manager,
+          expired.map((entry) =>
+            this.waitlistWebhookEvent(
+              { ...entry, status: WaitlistEntryStatus.EXPIRED },
+              WebhookEventType.WAITLIST_EXPIRED,
+            ),
+          ),
+        );
+      }
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(`Expired ${expired.length} waitlist entries`);
+    }
+  }
+
+  /**
+   * Lease a batch of due entries in queue order so that concurrent workers never book the same one twice
+   */
+  private async claimDueEntries(): Promise<WaitlistEntry[]> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const now = new Date();
+      const entries = await queryRunner.manager
+        .createQueryBuilder(WaitlistEntry, 'entry')
+        .where({ status: WaitlistEntryStatus.WAITING, nextCheckAt: LessThanOrEqual(now) })
+        .orderBy('entry.priority', 'DESC')
+        .addOrderBy('entry.createdAt', 'ASC')
+        .limit(this.batchSize)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (entries.length > 0) {
+        await queryRunner.manager.update(
+          WaitlistEntry,
+          { id: In(entries.map((entry) => entry.id)) },
+          { nextCheckAt: new Date(now.getTime() + this.leaseMs) },
+        );
+      }
+
+      await queryRunner.commitTransaction();
+      return entries;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private waitlistWebhookEvent(entry: WaitlistEntry, type: WebhookEventType): WebhookEvent {
+    return {
+      type,
+      data: {
+        waitlistEntryId: entry.id,
+        userId: entry.userId,
+        departureLocationCode: entry.departureLocationCode,
+        destinationLocationCode: entry.destinationLocationCode,
+        seats: entry.seats,
+        status: entry.status,
+        tripId: entry.tripId,
+        bookingId: entry.bookingId,
+      },
+    };
+  }
+}
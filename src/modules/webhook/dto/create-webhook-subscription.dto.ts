@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsEnum, IsOptional, IsString, IsUrl, Length } from 'class-validator';
+import { WebhookEventType } from '@/modules/webhook/webhook-subscription.entity';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({
+    example: 'https://partner.example.com/hooks/space-booking',
+    description: 'Endpoint events are POSTed to',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url: string;
+
+  @ApiProperty({
+    example: 'whsec_9f8e7d6c5b4a39281706f5e4d3c2b1a0',
+    description: 'Shared secret the partner uses to verify the X-Webhook-Signature header',
+    minLength: 16,
+    maxLength: 255,
+  })
+  @IsString()
+  @Length(16, 255, { message: 'Secret must be between 16 and 255 characters' })
+  secret: string;
+
+  @ApiProperty({
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.BOOKING_CONFIRMED, WebhookEventType.TRIP_CANCELLED],
+    description: 'Event types to receive',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  eventTypes: WebhookEventType[];
+
+  @ApiProperty({
+    example: 'Acme Travel booking sync',
+    description: 'Who the subscription is for',
+    required: false,
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 200)
+  description?: string;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Length,
+} from 'class-validator';
+import { WebhookEventType } from '@/modules/webhook/webhook-subscription.entity';
+
+export class UpdateWebhookSubscriptionDto {
+  @ApiProperty({
+    example: 'https://partner.example.com/hooks/space-booking',
+    description: 'Endpoint events are POSTed to',
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url?: string;
+
+  @ApiProperty({
+    example: 'whsec_0a1b2c3d4e5f60718293a4b5c6d7e8f9',
+    description: 'New shared secret; deliveries not yet sent are signed with it',
+    required: false,
+    minLength: 16,
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(16, 255, { message: 'Secret must be between 16 and 255 characters' })
+  secret?: string;
+
+  @ApiProperty({
+    enum: WebhookEventType,
+    isArray: true,
+    example: [WebhookEventType.BOOKING_CONFIRMED],
+    description: 'Event types to receive',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  eventTypes?: WebhookEventType[];
+
+  @ApiProperty({
+    example: false,
+    description: 'Pause or resume the subscription',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { WebhookDeliveryStatus } from '@/modules/webhook/webhook-delivery.entity';
+import { WebhookEventType } from '@/modules/webhook/webhook-subscription.entity';
+
+export class ListWebhookDeliveriesQueryDto {
+  @ApiProperty({
+    enum: WebhookDeliveryStatus,
+    required: false,
+    description: 'Only return deliveries in this status',
+  })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+}
+
+export class WebhookDeliveryDto {
+  @ApiProperty({ example: '8a7b6c5d-4e3f-4a1b-9c8d-7e6f5a4b3c2d' })
+  id: string;
+
+  @ApiProperty({ example: '3d6f0a9e-2c1b-4f7d-9a8e-5b4c3d2e1f0a' })
+  subscriptionId: string;
+
+  @ApiProperty({ example: 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e5f' })
+  eventId: string;
+
+  @ApiProperty({ enum: WebhookEventType, example: WebhookEventType.TRIP_CANCELLED })
+  eventType: WebhookEventType;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus, example: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 2 })
+  attempts: number;
+
+  @ApiProperty({ example: '2025-01-15T10:02:00.000Z' })
+  nextAttemptAt: string;
+
+  @ApiProperty({ example: '2025-01-15T10:01:00.000Z', nullable: true })
+  lastAttemptAt: string | null;
+
+  @ApiProperty({ example: 503, nullable: true })
+  lastResponseStatus: number | null;
+
+  @ApiProperty({ example: 'Subscriber responded with HTTP 503', nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  deliveredAt: string | null;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  createdAt: string;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WebhookEventType } from '@/modules/webhook/webhook-subscription.entity';
+
+export class WebhookSubscriptionDto {
+  @ApiProperty({ example: '3d6f0a9e-2c1b-4f7d-9a8e-5b4c3d2e1f0a' })
+  id: string;
+
+  @ApiProperty({ example: 'https://partner.example.com/hooks/space-booking' })
+  url: string;
+
+  @ApiProperty({ enum: WebhookEventType, isArray: true, example: [WebhookEventType.BOOKING_CONFIRMED] })
+  eventTypes: WebhookEventType[];
+
+  @ApiProperty({ example: 'Acme Travel booking sync', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: true })
+  active: boolean;
+
+  @ApiProperty({ example: '2025-01-15T10:00:00.000Z' })
+  createdAt: string;
+}
@@ -0,0 +1,140 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { WebhookEventType, WebhookSubscription } from '@modules/webhook/webhook-subscription.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  DEAD = 'DEAD',
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  data: Record<string, string | number | boolean | null>;
+}
+
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt']) // Optimize picking due deliveries
+@Index(['subscriptionId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique delivery identifier',
+  })
+  id: string;
+
+  @Column({
+    name: 'subscription_id',
+    type: 'uuid',
+    comment: 'Subscription the event is delivered to',
+  })
+  subscriptionId: string;
+
+  @Column({
+    name: 'event_id',
+    type: 'uuid',
+    comment: 'Event identifier, shared by the deliveries of one event to every subscription',
+  })
+  eventId: string;
+
+  @Column({
+    name: 'event_type',
+    type: 'varchar',
+    comment: 'Type of the event',
+  })
+  eventType: WebhookEventType;
+
+  @Column({
+    type: 'jsonb',
+    comment: 'Body POSTed to the subscriber',
+  })
+  payload: WebhookPayload;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+    comment: 'PENDING until the subscriber accepts it, DEAD once retries are exhausted',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({
+    type: 'int',
+    default: 0,
+    comment: 'Delivery attempts made so far',
+  })
+  attempts: number;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'next_attempt_at',
+    comment: 'Earliest time of the next attempt',
+  })
+  nextAttemptAt: Date;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'last_attempt_at',
+    nullable: true,
+    comment: 'Time of the most recent attempt',
+  })
+  lastAttemptAt: Date | null;
+
+  @Column({
+    name: 'last_response_status',
+    type: 'int',
+    nullable: true,
+    comment: 'HTTP status returned by the most recent attempt',
+  })
+  lastResponseStatus: number | null;
+
+  @Column({
+    name: 'last_error',
+    type: 'varchar',
+    length: 1000,
+    nullable: true,
+    comment: 'Why the most recent attempt failed',
+  })
+  lastError: string | null;
+
+  @Column({
+    type: 'timestamptz',
+    name: 'delivered_at',
+    nullable: true,
+    comment: 'Time the subscriber accepted the event',
+  })
+  deliveredAt: Date | null;
+
+  // Relations
+  @ManyToOne(() => WebhookSubscription, (subscription) => subscription.deliveries, {
+    eager: false,
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'subscription_id' })
+  subscription: WebhookSubscription;
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Time the event was written to the outbox',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { WebhookDelivery } from '@/modules/webhook/webhook-delivery.entity';
+
+@Injectable()
+export class WebhookDeliveryRepository extends Repository<WebhookDelivery> {
+  constructor(private dataSource: DataSource) {
+    super(WebhookDelivery, dataSource.createEntityManager());
+  }
+}
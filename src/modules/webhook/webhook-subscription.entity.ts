@@ -0,0 +1,80 @@
+import { Entity, Column, PrimaryGeneratedColumn, OneToMany, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { WebhookDelivery } from '@modules/webhook/webhook-delivery.entity';
+
+export enum WebhookEventType {
+  TRIP_CREATED = 'trip.created',
+  TRIP_RESCHEDULED = 'trip.rescheduled',
+  TRIP_STARTED = 'trip.started',
+  TRIP_COMPLETED = 'trip.completed',
+  TRIP_CANCELLED = 'trip.cancelled',
+  TRIP_STATUS_CHANGED = 'trip.status_changed',
+  BOOKING_CONFIRMED = 'booking.confirmed',
+  BOOKING_CANCELLED = 'booking.cancelled',
+  WAITLIST_BOOKED = 'waitlist.booked',
+  WAITLIST_EXPIRED = 'waitlist.expired',
+}
+
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn('uuid', {
+    comment: 'Unique subscription identifier',
+  })
+  id: string;
+
+  @Column({
+    type: 'varchar',
+    length: 2048,
+    comment: 'Partner endpoint events are POSTed to',
+  })
+  url: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+    select: false,
+    comment: 'Shared secret used to sign deliveries with HMAC-SHA256',
+  })
+  secret: string;
+
+  @Column({
+    name: 'event_types',
+    type: 'varchar',
+    array: true,
+    comment: 'Event types the partner wants to receive',
+  })
+  eventTypes: WebhookEventType[];
+
+  @Column({
+    type: 'varchar',
+    length: 200,
+    nullable: true,
+    comment: 'Who the subscription is for',
+  })
+  description: string | null;
+
+  @Column({
+    type: 'boolean',
+    default: true,
+    comment: 'Inactive subscriptions stop receiving new events',
+  })
+  active: boolean;
+
+  // Relations
+  @OneToMany(() => WebhookDelivery, (delivery) => delivery.subscription)
+  deliveries: WebhookDelivery[];
+
+  // Timestamps
+  @CreateDateColumn({
+    type: 'timestamptz',
+    name: 'created_at',
+    comment: 'Subscription creation time',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    type: 'timestamptz',
+    name: 'updated_at',
+    comment: 'Last modification time',
+  })
+  updatedAt: Date;
+}
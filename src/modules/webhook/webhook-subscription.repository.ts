@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { WebhookSubscription } from '@/modules/webhook/webhook-subscription.entity';
+
+@Injectable()
+export class WebhookSubscriptionRepository extends Repository<WebhookSubscription> {
+  constructor(private dataSource: DataSource) {
+    super(WebhookSubscription, dataSource.createEntityManager());
+  }
+}
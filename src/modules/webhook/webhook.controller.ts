@@ -0,0 +1,216 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { WebhookService } from '@/modules/webhook/webhook.service';
+import { WebhookSubscription } from '@/modules/webhook/webhook-subscription.entity';
+import { WebhookDelivery } from '@/modules/webhook/webhook-delivery.entity';
+import { CreateWebhookSubscriptionDto } from '@/modules/webhook/dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from '@/modules/webhook/dto/update-webhook-subscription.dto';
+import { WebhookSubscriptionDto } from '@/modules/webhook/dto/webhook-subscription.dto';
+import { ListWebhookDeliveriesQueryDto, WebhookDeliveryDto } from '@/modules/webhook/dto/webhook-delivery.dto';
+import { ErrorResponseDto } from '@/modules/trip/dto/trip-response.dto';
+import { UserRole } from '@/modules/user/user.entity';
+import { JwtAuthGuard } from '@/modules/auth/jwt-auth.guard';
+import { RolesGuard } from '@/modules/auth/roles.guard';
+import { Roles } from '@/modules/auth/roles.decorator';
+
+@ApiTags('webhooks')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({
+  description: 'Missing, invalid or expired access token',
+  type: ErrorResponseDto,
+})
+@ApiForbiddenResponse({
+  description: 'Only admins can manage webhooks',
+  type: ErrorResponseDto,
+})
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('webhooks')
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of subscriptions',
+    type: [WebhookSubscriptionDto],
+  })
+  async getSubscriptions(): Promise<WebhookSubscriptionDto[]> {
+    this.logger.log('GET /webhooks');
+    const subscriptions = await this.webhookService.findAll();
+    return subscriptions.map((subscription) => this.toDto(subscription));
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Subscribe to trip events',
+    description:
+      'Registers a partner endpoint. Events are POSTed as JSON, signed with HMAC-SHA256 over "<X-Webhook-Timestamp>.<body>" in the X-Webhook-Signature header, and retried with exponential backoff until the endpoint returns 2xx.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscription created',
+    type: WebhookSubscriptionDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid URL, secret or event types',
+    type: ErrorResponseDto,
+  })
+  async createSubscription(@Body() dto: CreateWebhookSubscriptionDto): Promise<WebhookSubscriptionDto> {
+    this.logger.log(`POST /webhooks - ${dto.url}`);
+    return this.toDto(await this.webhookService.create(dto));
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a webhook subscription' })
+  @ApiParam({ name: 'id', description: 'Subscription ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription updated',
+    type: WebhookSubscriptionDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid URL, secret or event types',
+    type: ErrorResponseDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+    type: ErrorResponseDto,
+  })
+  async updateSubscription(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    this.logger.log(`PATCH /webhooks/${id} - ${JSON.stringify({ ...dto, secret: dto.secret ? '***' : undefined })}`);
+    return this.toDto(await this.webhookService.update(id, dto));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a webhook subscription',
+    description: 'Deletes the subscription and its delivery log. Pending deliveries are dropped.',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID (UUID)' })
+  @ApiResponse({
+    status: 204,
+    description: 'Subscription deleted',
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+    type: ErrorResponseDto,
+  })
+  async deleteSubscription(@Param('id', new ParseUUIDPipe()) id: string): Promise<void> {
+    this.logger.log(`DELETE /webhooks/${id}`);
+    await this.webhookService.remove(id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: 'List recent deliveries',
+    description: 'Returns the 100 most recent deliveries to the subscription, newest first',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID (UUID)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries',
+    type: [WebhookDeliveryDto],
+  })
+  @ApiNotFoundResponse({
+    description: 'Subscription not found',
+    type: ErrorResponseDto,
+  })
+  async getDeliveries(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryDto[]> {
+    this.logger.log(`GET /webhooks/${id}/deliveries - ${JSON.stringify(query)}`);
+    const deliveries = await this.webhookService.findDeliveries(id, query.status);
+    return deliveries.map((delivery) => this.toDeliveryDto(delivery));
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Redeliver an event',
+    description: 'Queues a dead-lettered or delivered event to be sent again, with a fresh set of retries',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID (UUID)' })
+  @ApiParam({ name: 'deliveryId', description: 'Delivery ID (UUID)' })
+  @ApiResponse({
+    status: 202,
+    description: 'Delivery queued',
+    type: WebhookDeliveryDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Delivery not found',
+    type: ErrorResponseDto,
+  })
+  @ApiConflictResponse({
+    description: 'Delivery is already queued',
+    type: ErrorResponseDto,
+  })
+  async redeliver(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Param('deliveryId', new ParseUUIDPipe()) deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    this.logger.log(`POST /webhooks/${id}/deliveries/${deliveryId}/redeliver`);
+    return this.toDeliveryDto(await this.webhookService.redeliver(id, deliveryId));
+  }
+
+  private toDto(subscription: WebhookSubscription): WebhookSubscriptionDto {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.eventTypes,
+      description: subscription.description,
+      active: subscription.active,
+      createdAt: subscription.createdAt.toISOString(),
+    };
+  }
+
+  private toDeliveryDto(delivery: WebhookDelivery): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+      lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+      lastResponseStatus: delivery.lastResponseStatus,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      createdAt: delivery.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookSubscription } from '@/modules/webhook/webhook-subscription.entity';
+import { WebhookDelivery } from '@/modules/webhook/webhook-delivery.entity';
+import { WebhookSubscriptionRepository } from '@/modules/webhook/webhook-subscription.repository';
+import { WebhookDeliveryRepository } from '@/modules/webhook/webhook-delivery.repository';
+import { WebhookService } from '@/modules/webhook/webhook.service';
+import { WebhookController } from '@/modules/webhook/webhook.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery])],
+  controllers: [WebhookController],
+  providers: [WebhookService, WebhookSubscriptionRepository, WebhookDeliveryRepository],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
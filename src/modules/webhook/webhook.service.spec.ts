@@ -0,0 +1,199 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DataSource } from 'typeorm';
+import { WebhookDelivery, WebhookDeliveryStatus } from './webhook-delivery.entity';
+import { WebhookDeliveryRepository } from './webhook-delivery.repository';
+import { WebhookEventType, WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookSubscriptionRepository } from './webhook-subscription.repository';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WebhookService } from './webhook.service';
+import { mockConfigService, mockDataSource, mockQueryBuilder } from '@common/testing';
+
+describe('WebhookService', () => {
+  const secret = 'whsec_test_secret';
+  const backoffBaseMs = 30 * 1000;
+  const backoffMaxMs = 60 * 60 * 1000;
+  const maxAttempts = 25;
+
+  let server: Server;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+  let responseStatus: number;
+  let service: WebhookService;
+  let deliveryUpdate: jest.Mock;
+  let delivery: WebhookDelivery;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+        response.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 204;
+    delivery = Object.assign(new WebhookDelivery(), {
+      id: 'delivery-1',
+      subscriptionId: 'subscription-1',
+      eventId: 'event-1',
+      eventType: WebhookEventType.BOOKING_CONFIRMED,
+      payload: {
+        id: 'event-1',
+        type: WebhookEventType.BOOKING_CONFIRMED,
+        occurredAt: '2025-01-15T10:00:00.000Z',
+        data: { bookingId: 'booking-1', seats: 2 },
+      },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastAttemptAt: null,
+      lastResponseStatus: null,
+      lastError: null,
+      deliveredAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const { port } = server.address() as AddressInfo;
+    const subscription = {
+      id: 'subscription-1',
+      url: `http://127.0.0.1:${port}/hooks`,
+      secret,
+    } as WebhookSubscription;
+
+    const manager = {
+      createQueryBuilder: jest.fn(() => mockQueryBuilder({ getMany: () => [delivery] })),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    deliveryUpdate = jest.fn().mockResolvedValue(undefined);
+
+    const settings: Record<string, string> = {
+      WEBHOOK_MAX_ATTEMPTS: String(maxAttempts),
+      WEBHOOK_BACKOFF_BASE_SECONDS: String(backoffBaseMs / 1000),
+      WEBHOOK_BACKOFF_MAX_MINUTES: String(backoffMaxMs / 60000),
+      WEBHOOK_TIMEOUT_MS: '2000',
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: WebhookSubscriptionRepository,
+          useValue: { createQueryBuilder: jest.fn(() => mockQueryBuilder({ getMany: () => [subscription] })) },
+        },
+        { provide: WebhookDeliveryRepository, useValue: { update: deliveryUpdate } },
+        { provide: DataSource, useValue: mockDataSource(manager) },
+        { provide: ConfigService, useValue: mockConfigService(settings) },
+      ],
+    }).compile();
+
+    service = module.get(WebhookService);
+  });
+
+  const lastUpdate = (): Partial<WebhookDelivery> => {
+    const [, changes] = deliveryUpdate.mock.calls.at(-1) as [unknown, Partial<WebhookDelivery>];
+    return changes;
+  };
+
+  it('POSTs the payload signed with HMAC-SHA256 over the timestamp and body', async () => {
+    await service.processOutbox();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()] as string;
+    const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBe(expected);
+    expect(headers['x-webhook-id']).toBe('event-1');
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+  });
+
+  it('marks a delivery the subscriber accepted as DELIVERED', async () => {
+    await service.processOutbox();
+
+    expect(lastUpdate()).toMatchObject({
+      status: WebhookDeliveryStatus.DELIVERED,
+      attempts: 1,
+      lastResponseStatus: 204,
+      lastError: null,
+    });
+  });
+
+  it('retries a failed delivery after the base backoff, with jitter', async () => {
+    responseStatus = 503;
+    const before = Date.now();
+    await service.processOutbox();
+
+    const changes = lastUpdate();
+    expect(changes).toMatchObject({
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 1,
+      lastResponseStatus: 503,
+      lastError: 'Subscriber responded with HTTP 503',
+    });
+    const delayMs = changes.nextAttemptAt!.getTime() - before;
+    expect(delayMs).toBeGreaterThanOrEqual(backoffBaseMs / 2);
+    expect(delayMs).toBeLessThanOrEqual(backoffBaseMs + 1000);
+  });
+
+  it('doubles the backoff with every attempt up to the maximum', async () => {
+    responseStatus = 500;
+    const delays: number[] = [];
+
+    for (const attempts of [1, 20]) {
+      delivery.attempts = attempts;
+      const before = Date.now();
+      await service.processOutbox();
+      delays.push(lastUpdate().nextAttemptAt!.getTime() - before);
+    }
+
+    // The second attempt waits between one and two base delays; far along, the ceiling is the maximum
+    expect(delays[0]).toBeGreaterThanOrEqual(backoffBaseMs);
+    expect(delays[0]).toBeLessThanOrEqual(2 * backoffBaseMs + 1000);
+    expect(delays[1]).toBeGreaterThanOrEqual(backoffMaxMs / 2);
+    expect(delays[1]).toBeLessThanOrEqual(backoffMaxMs + 1000);
+  });
+
+  it('dead-letters a delivery once it runs out of attempts', async () => {
+    responseStatus = 500;
+    delivery.attempts = maxAttempts - 1;
+    await service.processOutbox();
+
+    expect(lastUpdate()).toMatchObject({ status: WebhookDeliveryStatus.DEAD, attempts: maxAttempts });
+  });
+
+  it('counts an unreachable subscriber as a failed attempt', async () => {
+    const { port } = server.address() as AddressInfo;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    try {
+      await service.processOutbox();
+      expect(lastUpdate()).toMatchObject({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 1,
+        lastResponseStatus: null,
+      });
+    } finally {
+      await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    }
+  });
+
+  it('signs exactly as subscribers are told to verify', () => {
+    const body = '{"id":"event-1"}';
+    expect(WebhookService.sign(secret, '1700000000', body)).toBe(
+      `sha256=${createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex')}`,
+    );
+  });
+});
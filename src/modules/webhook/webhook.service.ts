@@ -0,0 +1,325 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { createHmac, randomUUID } from 'crypto';
+import { DataSource, EntityManager, In, LessThanOrEqual } from 'typeorm';
+import { WebhookEventType, WebhookSubscription } from './webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookPayload } from './webhook-delivery.entity';
+import { WebhookSubscriptionRepository } from './webhook-subscription.repository';
+import { WebhookDeliveryRepository } from './webhook-delivery.repository';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  data: WebhookPayload['data'];
+}
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly backoffMaxMs: number;
+  private readonly timeoutMs: number;
+  private readonly batchSize = 50;
+
+  constructor(
+    private subscriptionRepository: WebhookSubscriptionRepository,
+    private deliveryRepository: WebhookDeliveryRepository,
+    private dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(configService.get<string>('WEBHOOK_MAX_ATTEMPTS', '8'));
+    this.backoffBaseMs = Number(configService.get<string>('WEBHOOK_BACKOFF_BASE_SECONDS', '30')) * 1000;
+    this.backoffMaxMs = Number(configService.get<string>('WEBHOOK_BACKOFF_MAX_MINUTES', '360')) * 60 * 1000;
+    this.timeoutMs = Number(configService.get<string>('WEBHOOK_TIMEOUT_MS', '5000'));
+  }
+
+  /**
+   * Write events to the outbox inside the caller's transaction, one delivery per interested subscription
+   * Nothing is sent here: if the transaction rolls back, the events were never published
+   */
+  async enqueue(manager: EntityManager, events: WebhookEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const subscriptions = await manager
+      .createQueryBuilder(WebhookSubscription, 'subscription')
+      .where('subscription.active = true')
+      .andWhere('subscription.eventTypes && :types::varchar[]', {
+        types: [...new Set(events.map((event) => event.type))],
+      })
+      .getMany();
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const deliveries: Partial<WebhookDelivery>[] = [];
+
+    for (const event of events) {
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        type: event.type,
+        occurredAt: now.toISOString(),
+        data: event.data,
+      };
+
+      for (const subscription of subscriptions) {
+        if (subscription.eventTypes.includes(event.type)) {
+          deliveries.push({
+            subscriptionId: subscription.id,
+            eventId: payload.id,
+            eventType: event.type,
+            payload,
+            status: WebhookDeliveryStatus.PENDING,
+            attempts: 0,
+            nextAttemptAt: now,
+          });
+        }
+      }
+    }
+
+    if (deliveries.length > 0) {
+      await manager.insert(WebhookDelivery, deliveries);
+    }
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({ where: { id } });
+
+    if (!subscription) {
+      throw new NotFoundException(`Webhook subscription ${id} not found`);
+    }
+
+    return subscription;
+  }
+
+  async create(dto: CreateWebhookSubscriptionDto): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        url: dto.url,
+        secret: dto.secret,
+        eventTypes: dto.eventTypes,
+        description: dto.description ?? null,
+        active: true,
+      }),
+    );
+
+    this.logger.log(`Webhook subscription ${subscription.id} created for ${subscription.eventTypes.join(', ')}`);
+    return this.findById(subscription.id);
+  }
+
+  async update(id: string, dto: UpdateWebhookSubscriptionDto): Promise<WebhookSubscription> {
+    const subscription = await this.findById(id);
+
+    await this.subscriptionRepository.update(
+      { id },
+      {
+        url: dto.url ?? subscription.url,
+        eventTypes: dto.eventTypes ?? subscription.eventTypes,
+        active: dto.active ?? subscription.active,
+        ...(dto.secret ? { secret: dto.secret } : {}),
+      },
+    );
+
+    return this.findById(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findById(id);
+    await this.subscriptionRepository.delete({ id });
+    this.logger.log(`Webhook subscription ${id} deleted`);
+  }
+
+  async findDeliveries(subscriptionId: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    await this.findById(subscriptionId);
+
+    return this.deliveryRepository.find({
+      where: { subscriptionId, ...(status ? { status } : {}) },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Queue a delivery to be sent again straight away, with a fresh set of retries
+   * Meant for dead letters once the subscriber is fixed, but works for delivered events too
+   */
+  async redeliver(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id: deliveryId, subscriptionId } });
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    if (delivery.status === WebhookDeliveryStatus.PENDING) {
+      throw new ConflictException('Delivery is already queued');
+    }
+
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    delivery.deliveredAt = null;
+    const savedDelivery = await this.deliveryRepository.save(delivery);
+
+    this.logger.log(`Webhook delivery ${deliveryId} queued for redelivery`);
+    return savedDelivery;
+  }
+
+  /**
+   * Send due deliveries from the outbox (run every 10 seconds)
+   */
+  @Cron('*/10 * * * * *')
+  async processOutbox(): Promise<void> {
+    const deliveries = await this.claimDueDeliveries();
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const subscriptions = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .addSelect('subscription.secret')
+      .where({ id: In([...new Set(deliveries.map((delivery) => delivery.subscriptionId))]) })
+      .getMany();
+    const subscriptionsById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+    for (const delivery of deliveries) {
+      const subscription = subscriptionsById.get(delivery.subscriptionId);
+      if (subscription) {
+        await this.attempt(delivery, subscription);
+      }
+    }
+  }
+
+  /**
+   * Sign a body the way subscribers verify it: HMAC-SHA256 over `<timestamp>.<body>`
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Lease a batch of due deliveries so that concurrent workers never send the same one twice
+   * The lease pushes nextAttemptAt past the request timeout; a worker that dies mid-send leaves it to be retried
+   */
+  private async claimDueDeliveries(): Promise<WebhookDelivery[]> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const now = new Date();
+      const deliveries = await queryRunner.manager
+        .createQueryBuilder(WebhookDelivery, 'delivery')
+        .where({ status: WebhookDeliveryStatus.PENDING, nextAttemptAt: LessThanOrEqual(now) })
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .limit(this.batchSize)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (deliveries.length > 0) {
+        await queryRunner.manager.update(
+          WebhookDelivery,
+          { id: In(deliveries.map((delivery) => delivery.id)) },
+          { nextAttemptAt: new Date(now.getTime() + this.timeoutMs * 2) },
+        );
+      }
+
+      await queryRunner.commitTransaction();
+      return deliveries;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SpaceBooking-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: WebhookService.sign(subscription.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Subscriber responded with HTTP ${response.status}`;
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    if (!error) {
+      await this.deliveryRepository.update(
+        { id: delivery.id },
+        {
+          status: WebhookDeliveryStatus.DELIVERED,
+          attempts,
+          lastAttemptAt: attemptedAt,
+          lastResponseStatus: responseStatus,
+          lastError: null,
+          deliveredAt: attemptedAt,
+        },
+      );
+      return;
+    }
+
+    const exhausted = attempts >= this.maxAttempts;
+    await this.deliveryRepository.update(
+      { id: delivery.id },
+      {
+        status: exhausted ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+        attempts,
+        lastAttemptAt: attemptedAt,
+        lastResponseStatus: responseStatus,
+        lastError: error.slice(0, 1000),
+        nextAttemptAt: new Date(attemptedAt.getTime() + this.backoffDelayMs(attempts)),
+      },
+    );
+
+    if (exhausted) {
+      this.logger.warn(`Webhook delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${error}`);
+    } else {
+      this.logger.log(`Webhook delivery ${delivery.id} attempt ${attempts} failed: ${error}`);
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, so retries to a recovering subscriber spread out
+   */
+  private backoffDelayMs(attempts: number): number {
+    const ceiling = Math.min(this.backoffBaseMs * 2 ** (attempts - 1), this.backoffMaxMs);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+}